@@ -7,7 +7,12 @@ dotenv.config();
 const app = express();
 
 // Body parsing middleware MUST come BEFORE routes
-app.use(express.json()); // Move this up
+app.use(express.json({
+    // Keep the raw bytes - QuickBooks webhook signatures are computed over the body as sent
+    verify: (req, _res, buf) => {
+        (req as express.Request).rawBody = buf;
+    }
+})); // Move this up
 app.use(express.urlencoded({ extended: true }));
 
 app.use(cors({
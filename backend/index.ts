@@ -1,13 +1,33 @@
 import app from './app';
 import connectToDb from './src/config/db';
 import dotenv from 'dotenv';
+import syncRetryService from './src/service/syncRetryService';
+import syncJobService from './src/service/syncJobService';
+import tokenRefreshScheduler from './src/service/tokenRefreshScheduler';
+import webhookService from './src/service/webhookService';
 
 dotenv.config();
 
-connectToDb();
-
 const PORT = process.env.PORT || 5000;
 
-app.listen(PORT, () => {
-  console.log(`Server running on http://localhost:${PORT}`);
-});
+const start = async () => {
+  await connectToDb();
+
+  // Sync jobs run in memory, so any whose process died will never finish - clear them before taking requests
+  await syncJobService.failStaleSyncJobs();
+
+  app.listen(PORT, () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+
+    // Failed invoice/payment syncs are retried from the schedule stored in SyncLog
+    syncRetryService.startRetryWorker();
+
+    // Access tokens are kept fresh in the background instead of waiting for a request to find them expired
+    tokenRefreshScheduler.startTokenRefresher();
+
+    // Webhook events stored before a restart, and failed ones due another attempt, still need their records pulled
+    webhookService.startEventWorker();
+  });
+};
+
+void start();
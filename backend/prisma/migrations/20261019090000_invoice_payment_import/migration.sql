@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "balance" DOUBLE PRECISION,
+ADD COLUMN     "updatedAtQB" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Payment" ADD COLUMN     "updatedAtQB" TIMESTAMP(3);
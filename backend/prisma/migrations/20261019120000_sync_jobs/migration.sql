@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."SyncJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."SyncJob" (
+    "id" TEXT NOT NULL,
+    "transactionType" "public"."TransactionType" NOT NULL,
+    "status" "public"."SyncJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "useBatchApi" BOOLEAN NOT NULL DEFAULT false,
+    "qboConnectionId" TEXT NOT NULL,
+    "totalCount" INTEGER NOT NULL DEFAULT 0,
+    "processedCount" INTEGER NOT NULL DEFAULT 0,
+    "successCount" INTEGER NOT NULL DEFAULT 0,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "totalBatches" INTEGER NOT NULL DEFAULT 0,
+    "completedBatches" INTEGER NOT NULL DEFAULT 0,
+    "batches" JSONB,
+    "failures" JSONB,
+    "errorMessage" TEXT,
+    "cancelRequestedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJob_qboConnectionId_createdAt_idx" ON "public"."SyncJob"("qboConnectionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncJob" ADD CONSTRAINT "SyncJob_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."QBOConnection" ADD COLUMN     "tokenKeyId" TEXT;
+
+-- Existing rows keep their plaintext tokens (tokenKeyId stays NULL) until they are encrypted.
+-- The encryption key only exists in the application config, so run `npm run tokens:rotate`
+-- after deploying this migration to encrypt them.
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "public"."MembershipRole" AS ENUM ('VIEWER', 'OPERATOR', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "public"."User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT,
+    "passwordHash" TEXT NOT NULL,
+    "lastLoginAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Membership" (
+    "id" TEXT NOT NULL,
+    "role" "public"."MembershipRole" NOT NULL DEFAULT 'VIEWER',
+    "userId" TEXT NOT NULL,
+    "qboConnectionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Membership_pkey" PRIMARY KEY ("id")
+);
+
+-- Sessions were issued per connection without a user; they cannot be mapped to one, so everyone logs in again
+DELETE FROM "public"."Session";
+
+-- AlterTable
+ALTER TABLE "public"."Session" ADD COLUMN     "userId" TEXT NOT NULL,
+ALTER COLUMN "qboConnectionId" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "public"."User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Membership_userId_qboConnectionId_key" ON "public"."Membership"("userId", "qboConnectionId");
+
+-- CreateIndex
+CREATE INDEX "Membership_qboConnectionId_idx" ON "public"."Membership"("qboConnectionId");
+
+-- CreateIndex
+CREATE INDEX "Session_userId_idx" ON "public"."Session"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Membership" ADD CONSTRAINT "Membership_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Membership" ADD CONSTRAINT "Membership_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Session" ADD CONSTRAINT "Session_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "public"."OAuthState" (
+    "id" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "returnUrl" TEXT,
+    "sessionId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OAuthState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthState_nonce_key" ON "public"."OAuthState"("nonce");
+
+-- CreateIndex
+CREATE INDEX "OAuthState_expiresAt_idx" ON "public"."OAuthState"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OAuthState" ADD CONSTRAINT "OAuthState_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."Session"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
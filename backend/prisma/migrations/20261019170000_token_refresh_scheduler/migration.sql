@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."QBOConnection" ADD COLUMN     "lastRefreshError" TEXT,
+ADD COLUMN     "lastRefreshedAt" TIMESTAMP(3),
+ADD COLUMN     "reauthRequiredAt" TIMESTAMP(3);
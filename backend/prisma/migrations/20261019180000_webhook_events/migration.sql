@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEventStatus" AS ENUM ('PENDING', 'PROCESSED', 'FAILED', 'IGNORED');
+
+-- CreateTable
+CREATE TABLE "public"."WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "dedupeKey" TEXT NOT NULL,
+    "realmId" TEXT NOT NULL,
+    "entityName" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "deletedId" TEXT,
+    "lastUpdated" TIMESTAMP(3) NOT NULL,
+    "status" "public"."WebhookEventStatus" NOT NULL DEFAULT 'PENDING',
+    "errorMessage" TEXT,
+    "qboConnectionId" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_dedupeKey_key" ON "public"."WebhookEvent"("dedupeKey");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_receivedAt_idx" ON "public"."WebhookEvent"("status", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_qboConnectionId_entityName_idx" ON "public"."WebhookEvent"("qboConnectionId", "entityName");
+
+-- AddForeignKey
+ALTER TABLE "public"."WebhookEvent" ADD CONSTRAINT "WebhookEvent_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE SET NULL ON UPDATE CASCADE;
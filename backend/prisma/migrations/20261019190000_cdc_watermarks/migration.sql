@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."Customer" ADD COLUMN     "updatedAtQB" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."SyncWatermark" (
+    "id" TEXT NOT NULL,
+    "entityName" TEXT NOT NULL,
+    "changedSince" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "qboConnectionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SyncWatermark_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncWatermark_qboConnectionId_entityName_key" ON "public"."SyncWatermark"("qboConnectionId", "entityName");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncWatermark" ADD CONSTRAINT "SyncWatermark_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."QBOEnvironment" AS ENUM ('SANDBOX', 'PRODUCTION');
+
+-- AlterTable
+ALTER TABLE "public"."QBOConnection" ADD COLUMN     "environment" "public"."QBOEnvironment";
+
+-- States are short-lived and carry no environment yet - connect flows still in progress have to be started again
+DELETE FROM "public"."OAuthState";
+
+-- AlterTable
+ALTER TABLE "public"."OAuthState" ADD COLUMN     "environment" "public"."QBOEnvironment" NOT NULL;
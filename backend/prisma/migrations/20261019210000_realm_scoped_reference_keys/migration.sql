@@ -0,0 +1,30 @@
+-- QuickBooks ids are only unique within a realm, so they move to their own column
+-- and the rows get an internal id scoped by (qboConnectionId, QuickBooks id)
+
+-- AlterTable
+ALTER TABLE "public"."ChartOfAccount" ADD COLUMN     "qboAccountId" TEXT;
+ALTER TABLE "public"."Customer" ADD COLUMN     "qboCustomerId" TEXT;
+ALTER TABLE "public"."Item" ADD COLUMN     "qboItemId" TEXT;
+
+-- Existing rows were keyed by their QuickBooks id
+UPDATE "public"."ChartOfAccount" SET "qboAccountId" = "id";
+UPDATE "public"."Customer" SET "qboCustomerId" = "id";
+UPDATE "public"."Item" SET "qboItemId" = "id";
+
+-- Give existing rows internal ids - Invoice.customerId follows through its ON UPDATE CASCADE foreign key
+UPDATE "public"."ChartOfAccount" SET "id" = gen_random_uuid()::text;
+UPDATE "public"."Customer" SET "id" = gen_random_uuid()::text;
+UPDATE "public"."Item" SET "id" = gen_random_uuid()::text;
+
+ALTER TABLE "public"."ChartOfAccount" ALTER COLUMN "qboAccountId" SET NOT NULL;
+ALTER TABLE "public"."Customer" ALTER COLUMN "qboCustomerId" SET NOT NULL;
+ALTER TABLE "public"."Item" ALTER COLUMN "qboItemId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChartOfAccount_qboConnectionId_qboAccountId_key" ON "public"."ChartOfAccount"("qboConnectionId", "qboAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Customer_qboConnectionId_qboCustomerId_key" ON "public"."Customer"("qboConnectionId", "qboCustomerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Item_qboConnectionId_qboItemId_key" ON "public"."Item"("qboConnectionId", "qboItemId");
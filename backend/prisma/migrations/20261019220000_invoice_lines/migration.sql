@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "public"."InvoiceLine" (
+    "id" TEXT NOT NULL,
+    "lineNum" INTEGER NOT NULL,
+    "detailType" TEXT NOT NULL DEFAULT 'SalesItemLineDetail',
+    "description" TEXT,
+    "quantity" DOUBLE PRECISION,
+    "unitPrice" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "taxCode" TEXT,
+    "itemId" TEXT,
+    "invoiceId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InvoiceLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InvoiceLine_invoiceId_lineNum_key" ON "public"."InvoiceLine"("invoiceId", "lineNum");
+
+-- CreateIndex
+CREATE INDEX "InvoiceLine_itemId_idx" ON "public"."InvoiceLine"("itemId");
+
+-- AddForeignKey
+ALTER TABLE "public"."InvoiceLine" ADD CONSTRAINT "InvoiceLine_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "public"."Item"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."InvoiceLine" ADD CONSTRAINT "InvoiceLine_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "public"."Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the JSON line items into rows, keeping their order
+-- itemRef holds a QuickBooks item id, resolved within the invoice's connection; refs to items we never pulled are left empty
+INSERT INTO "public"."InvoiceLine" ("id", "lineNum", "detailType", "description", "quantity", "unitPrice", "amount", "itemId", "invoiceId", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    line.position,
+    COALESCE(line.value->>'detailType', 'SalesItemLineDetail'),
+    line.value->>'description',
+    (line.value->>'quantity')::DOUBLE PRECISION,
+    (line.value->>'unitPrice')::DOUBLE PRECISION,
+    COALESCE((line.value->>'amount')::DOUBLE PRECISION, 0),
+    item."id",
+    invoice."id",
+    CURRENT_TIMESTAMP
+FROM "public"."Invoice" invoice
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(invoice."lineItems") = 'array' THEN invoice."lineItems" ELSE '[]'::jsonb END
+) WITH ORDINALITY AS line(value, position)
+LEFT JOIN "public"."Item" item
+    ON item."qboConnectionId" = invoice."qboConnectionId"
+    AND item."qboItemId" = line.value->>'itemRef';
+
+-- AlterTable
+ALTER TABLE "public"."Invoice" DROP COLUMN "lineItems";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "privateNote" TEXT,
+ADD COLUMN     "salesTermRef" TEXT;
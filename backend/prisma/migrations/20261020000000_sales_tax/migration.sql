@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "public"."Item" ADD COLUMN     "salesTaxCodeRef" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "qboTotalTax" DOUBLE PRECISION,
+ADD COLUMN     "txnTaxCodeRef" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."TaxCode" (
+    "id" TEXT NOT NULL,
+    "qboTaxCodeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "taxable" BOOLEAN,
+    "taxGroup" BOOLEAN,
+    "salesTaxRateIds" TEXT[],
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAtQB" TIMESTAMP(3),
+    "qboConnectionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TaxRate" (
+    "id" TEXT NOT NULL,
+    "qboTaxRateId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rateValue" DOUBLE PRECISION,
+    "agencyRef" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAtQB" TIMESTAMP(3),
+    "qboConnectionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxCode_qboConnectionId_qboTaxCodeId_key" ON "public"."TaxCode"("qboConnectionId", "qboTaxCodeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxRate_qboConnectionId_qboTaxRateId_key" ON "public"."TaxRate"("qboConnectionId", "qboTaxRateId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TaxCode" ADD CONSTRAINT "TaxCode_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TaxRate" ADD CONSTRAINT "TaxRate_qboConnectionId_fkey" FOREIGN KEY ("qboConnectionId") REFERENCES "public"."QBOConnection"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."Customer" ADD COLUMN     "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "exchangeRate" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."Payment" ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "exchangeRate" DOUBLE PRECISION;
@@ -0,0 +1,20 @@
+-- QuickBooks invoice/payment ids and doc numbers are only unique within a realm,
+-- so they are scoped by qboConnectionId like the reference data keys
+
+-- DropIndex
+DROP INDEX "public"."Invoice_qboInvoiceId_key";
+
+-- DropIndex
+DROP INDEX "public"."Invoice_docNumber_key";
+
+-- DropIndex
+DROP INDEX "public"."Payment_qboPaymentId_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_qboConnectionId_qboInvoiceId_key" ON "public"."Invoice"("qboConnectionId", "qboInvoiceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Invoice_qboConnectionId_docNumber_key" ON "public"."Invoice"("qboConnectionId", "docNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payment_qboConnectionId_qboPaymentId_key" ON "public"."Payment"("qboConnectionId", "qboPaymentId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."QBOConnection" ADD COLUMN     "refreshClaimedUntil" TIMESTAMP(3);
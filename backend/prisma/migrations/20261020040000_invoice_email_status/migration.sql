@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Invoice" ADD COLUMN     "qboEmailStatus" TEXT;
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- Partial: only one QUEUED/RUNNING job per connection and transaction type (not expressible in schema.prisma)
+CREATE UNIQUE INDEX "SyncJob_active_qboConnectionId_transactionType_key" ON "public"."SyncJob"("qboConnectionId", "transactionType") WHERE "status" IN ('QUEUED', 'RUNNING');
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."SyncJob" ADD COLUMN     "heartbeatAt" TIMESTAMP(3),
+ADD COLUMN     "ownerId" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."WebhookEvent" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
+
+-- Give events that failed before retries existed another attempt
+UPDATE "public"."WebhookEvent" SET "attempts" = 1, "nextAttemptAt" = CURRENT_TIMESTAMP WHERE "status" = 'FAILED';
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_nextAttemptAt_idx" ON "public"."WebhookEvent"("status", "nextAttemptAt");
@@ -1,6 +1,74 @@
 import { PrismaClient } from "@prisma/client";
+import { decryptToken, encryptToken, isEncryptedToken } from "../utils/tokenCrypto";
 
-export const prisma = new PrismaClient();
+const TOKEN_FIELDS = ["accessToken", "refreshToken"] as const;
+
+/**
+ * Encrypt the OAuth tokens in a QBOConnection write and record the key they were encrypted with
+ * Empty tokens (cleared on disconnect) are stored as-is
+ */
+const encryptTokenFields = (data: any): any => {
+  if (Array.isArray(data)) {
+    return data.map(encryptTokenFields);
+  }
+  if (!data || typeof data !== "object") {
+    return data;
+  }
+
+  const encrypted = { ...data };
+  for (const field of TOKEN_FIELDS) {
+    const value = encrypted[field];
+    if (typeof value === "string" && value && !isEncryptedToken(value)) {
+      const { value: encryptedValue, keyId } = encryptToken(value);
+      encrypted[field] = encryptedValue;
+      encrypted.tokenKeyId = keyId;
+    }
+  }
+  return encrypted;
+};
+
+/**
+ * Decrypt the OAuth tokens on QBOConnection rows returned by a query
+ */
+const decryptTokenFields = (result: any): any => {
+  if (Array.isArray(result)) {
+    return result.map(decryptTokenFields);
+  }
+  if (!result || typeof result !== "object") {
+    return result;
+  }
+
+  for (const field of TOKEN_FIELDS) {
+    if (typeof result[field] === "string") {
+      result[field] = decryptToken(result[field]);
+    }
+  }
+  return result;
+};
+
+// Tokens are encrypted on every QBOConnection write and decrypted on every read,
+// so the rest of the code only ever sees plaintext tokens
+export const prisma = new PrismaClient().$extends({
+  query: {
+    qBOConnection: {
+      async $allOperations({ args, query }) {
+        const queryArgs = (args ?? {}) as any;
+
+        if ("data" in queryArgs) {
+          queryArgs.data = encryptTokenFields(queryArgs.data);
+        }
+        if ("create" in queryArgs) {
+          queryArgs.create = encryptTokenFields(queryArgs.create);
+        }
+        if ("update" in queryArgs) {
+          queryArgs.update = encryptTokenFields(queryArgs.update);
+        }
+
+        return decryptTokenFields(await query(queryArgs));
+      },
+    },
+  },
+});
 
 const connectToDb = async () => {
   try {
@@ -11,4 +79,4 @@ const connectToDb = async () => {
   }
 };
 
-export default connectToDb;
\ No newline at end of file
+export default connectToDb;
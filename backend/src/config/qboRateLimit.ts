@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+// QuickBooks allows 500 requests per minute and 10 concurrent requests per realm
+export const qboRateLimitConfig = {
+  requestsPerMinute: parseInt(process.env.QBO_REQUESTS_PER_MINUTE || '500'),
+  maxConcurrent: parseInt(process.env.QBO_MAX_CONCURRENT_REQUESTS || '10'),
+  burstSize: parseInt(process.env.QBO_REQUEST_BURST_SIZE || '10'), // tokens a realm can save up while idle
+  maxRateLimitRetries: parseInt(process.env.QBO_RATE_LIMIT_MAX_RETRIES || '3'),
+  defaultRetryAfterMs: parseInt(process.env.QBO_RATE_LIMIT_DEFAULT_RETRY_AFTER_MS || '60000'), // used when a 429 has no Retry-After
+};
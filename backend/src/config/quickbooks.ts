@@ -1,12 +1,30 @@
 import dotenv from 'dotenv';
+import { QBOEnvironment } from '@prisma/client';
 dotenv.config(); 
 
 export const quickbooksConfig = {
-  clientId: process.env.CLIENT_ID || '',
-  clientSecret: process.env.CLIENT_SECRET || '',
   redirectUri: process.env.REDIRECT_URI || '',
   authUrl : process.env.AUTH_URL || ' ',
   tokenUrl : process.env.TOKEN_URL || ' ',
+  revokeUrl: process.env.REVOKE_URL || 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke',
+  // Used when connecting without choosing an environment, and for connections made before it was stored
+  defaultEnvironment: (process.env.ENVIRONMENT === 'production' ? 'PRODUCTION' : 'SANDBOX') as QBOEnvironment,
+  // Intuit issues separate development and production keys; CLIENT_ID/CLIENT_SECRET apply to both unless overridden
+  environments: {
+    SANDBOX: {
+      clientId: process.env.QBO_SANDBOX_CLIENT_ID || process.env.CLIENT_ID || '',
+      clientSecret: process.env.QBO_SANDBOX_CLIENT_SECRET || process.env.CLIENT_SECRET || '',
+      apiBaseUrl: process.env.QBO_SANDBOX_API_BASE_URL || 'https://sandbox-quickbooks.api.intuit.com',
+    },
+    PRODUCTION: {
+      clientId: process.env.QBO_PRODUCTION_CLIENT_ID || process.env.CLIENT_ID || '',
+      clientSecret: process.env.QBO_PRODUCTION_CLIENT_SECRET || process.env.CLIENT_SECRET || '',
+      apiBaseUrl: process.env.QBO_PRODUCTION_API_BASE_URL || 'https://quickbooks.api.intuit.com',
+    },
+  } as Record<QBOEnvironment, { clientId: string; clientSecret: string; apiBaseUrl: string }>,
+  minorVersion: process.env.QBO_MINOR_VERSION || '75',
+  oauthStateTtlMs: parseInt(process.env.QBO_OAUTH_STATE_TTL_MS || '600000'), // 10 minutes
+  webhookVerifierToken: process.env.QBO_WEBHOOK_VERIFIER_TOKEN || '', // From the app's Webhooks page in the Intuit developer portal
   scopes: [
     'com.intuit.quickbooks.accounting',
     'openid',
@@ -0,0 +1,13 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const sessionConfig = {
+  cookieName: process.env.SESSION_COOKIE_NAME || 'qbo_session',
+  ttlMs: parseInt(process.env.SESSION_TTL_MS || '604800000'), // 7 days
+  // Cookies marked Secure are dropped by browsers on plain http, so only require it outside local development
+  secureCookie: process.env.SESSION_COOKIE_SECURE
+    ? process.env.SESSION_COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production',
+  // lax lets the cookie through on the top-level redirect back from Intuit
+  sameSite: (process.env.SESSION_COOKIE_SAME_SITE || 'lax') as 'lax' | 'strict' | 'none',
+};
@@ -0,0 +1,7 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const syncJobConfig = {
+  heartbeatIntervalMs: parseInt(process.env.SYNC_JOB_HEARTBEAT_INTERVAL_MS || '30000'), // running jobs touch their row this often
+  staleAfterMs: parseInt(process.env.SYNC_JOB_STALE_AFTER_MS || '300000'), // a job without a heartbeat for this long lost its process
+};
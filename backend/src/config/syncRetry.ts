@@ -0,0 +1,12 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const syncRetryConfig = {
+  enabled: process.env.SYNC_RETRY_ENABLED !== 'false',
+  pollIntervalMs: parseInt(process.env.SYNC_RETRY_POLL_INTERVAL_MS || '60000'), // 1 minute
+  baseDelayMs: parseInt(process.env.SYNC_RETRY_BASE_DELAY_MS || '60000'), // first retry after 1 minute
+  maxDelayMs: parseInt(process.env.SYNC_RETRY_MAX_DELAY_MS || '3600000'), // never wait more than 1 hour
+  batchSize: parseInt(process.env.SYNC_RETRY_BATCH_SIZE || '10'),
+  maxRetries: parseInt(process.env.SYNC_RETRY_MAX_RETRIES || '3'),
+  leaseMs: parseInt(process.env.SYNC_RETRY_LEASE_MS || '600000'), // a retry claimed by a process that died is picked up again after 10 minutes
+};
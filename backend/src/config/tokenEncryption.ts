@@ -0,0 +1,27 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+/**
+ * Parse TOKEN_ENCRYPTION_KEYS ("keyId:base64Key,keyId:base64Key") into a key id -> key map
+ * Old keys stay listed after a rotation so existing rows can still be decrypted
+ */
+const parseKeys = (value: string): Record<string, Buffer> => {
+  const keys: Record<string, Buffer> = {};
+
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [keyId, encodedKey] = entry.split(':');
+    const key = Buffer.from(encodedKey || '', 'base64');
+
+    if (!keyId || key.length !== 32) {
+      throw new Error(`Invalid token encryption key "${keyId}" - expected keyId:base64 with a 32-byte key`);
+    }
+    keys[keyId] = key;
+  }
+
+  return keys;
+};
+
+export const tokenEncryptionConfig = {
+  currentKeyId: process.env.TOKEN_ENCRYPTION_KEY_ID || '', // key used for every new write
+  keys: parseKeys(process.env.TOKEN_ENCRYPTION_KEYS || ''),
+};
@@ -0,0 +1,12 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const tokenRefreshConfig = {
+  enabled: process.env.TOKEN_REFRESH_ENABLED !== 'false',
+  pollIntervalMs: parseInt(process.env.TOKEN_REFRESH_POLL_INTERVAL_MS || '300000'), // 5 minutes
+  refreshBeforeExpiryMs: parseInt(process.env.TOKEN_REFRESH_BEFORE_EXPIRY_MS || '900000'), // access tokens live 1 hour, refresh 15 minutes early
+  reauthWarningMs: parseInt(process.env.TOKEN_REAUTH_WARNING_MS || '604800000'), // flag connections 7 days before the refresh token expires
+  lockTimeoutMs: parseInt(process.env.TOKEN_REFRESH_LOCK_TIMEOUT_MS || '30000'), // how long a caller waits for another process's refresh
+  claimTtlMs: parseInt(process.env.TOKEN_REFRESH_CLAIM_TTL_MS || '60000'), // a claim left behind by a crashed process runs out after this
+  requestTimeoutMs: parseInt(process.env.TOKEN_REFRESH_REQUEST_TIMEOUT_MS || '20000'), // must stay below claimTtlMs so a claim never runs out mid-refresh
+};
@@ -0,0 +1,9 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+export const webhookConfig = {
+  pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '60000'), // 1 minute
+  baseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '60000'), // first retry of a failed event after 1 minute
+  maxDelayMs: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY_MS || '3600000'), // never wait more than 1 hour
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+};
@@ -0,0 +1,61 @@
+// controllers/cdcSyncController.ts
+
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/responseHandler';
+import cdcSyncService from '../service/cdcSyncService';
+import { getStatusCode } from '../utils/errorHandler';
+
+const syncChanges = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`Starting change data capture sync for realm: ${realmId}`);
+
+        const syncResult = await cdcSyncService.syncChanges(accessToken, realmId);
+
+        return sendSuccess(res, syncResult.message, {
+            realmId,
+            entities: syncResult.entities
+        });
+
+    } catch (error) {
+        console.error('Error running change data capture sync:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to sync changes from QuickBooks',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+const getWatermarks = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+
+        const watermarks = await cdcSyncService.getWatermarks(realmId);
+
+        return sendSuccess(res, 'Sync watermarks retrieved successfully', { watermarks });
+
+    } catch (error) {
+        console.error('Error getting sync watermarks:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get sync watermarks',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+export const cdcSyncController = {
+    syncChanges,
+    getWatermarks
+};
@@ -10,22 +10,27 @@ const syncChartOfAccounts = async (req: Request, res: Response): Promise<Respons
         // Get auth info from middleware
         const { accessToken, realmId } = req.qbAuth!;
 
-        console.log(`Starting Chart of Accounts sync for realm: ${realmId}`);
+        // ?reconcile=true also deactivates records that are inactive or gone in QuickBooks
+        const reconcile = req.query.reconcile === 'true';
+
+        console.log(`Starting Chart of Accounts ${reconcile ? 'reconciliation' : 'sync'} for realm: ${realmId}`);
 
         // Perform sync
-        const syncResult = await chartOfAccountsService.syncChartOfAccounts(accessToken, realmId);
+        const syncResult = await chartOfAccountsService.syncChartOfAccounts(accessToken, realmId, { reconcile });
 
         // Prepare response data
         const responseData = {
             realmId,
             syncResult: {
                 totalAccounts: syncResult.totalAccounts,
+                pages: syncResult.pages,
                 created: syncResult.created,
                 updated: syncResult.updated,
                 successRate: syncResult.totalAccounts > 0 
                     ? ((syncResult.created + syncResult.updated) / syncResult.totalAccounts * 100).toFixed(2) + '%'
                     : '100%'
             },
+            ...(syncResult.reconciliation && { reconciliation: syncResult.reconciliation }),
             summary: syncResult.message
         };
 
@@ -10,22 +10,27 @@ const syncCustomers = async (req: Request, res: Response): Promise<Response> =>
         // Get auth info from middleware
         const { accessToken, realmId } = req.qbAuth!;
 
-        console.log(`Starting Customer sync for realm: ${realmId}`);
+        // ?reconcile=true also deactivates records that are inactive or gone in QuickBooks
+        const reconcile = req.query.reconcile === 'true';
+
+        console.log(`Starting Customer ${reconcile ? 'reconciliation' : 'sync'} for realm: ${realmId}`);
 
         // Perform sync
-        const syncResult = await customerService.syncCustomers(accessToken, realmId);
+        const syncResult = await customerService.syncCustomers(accessToken, realmId, { reconcile });
 
         // Prepare response data
         const responseData = {
             realmId,
             syncResult: {
                 totalCustomers: syncResult.totalCustomers,
+                pages: syncResult.pages,
                 created: syncResult.created,
                 updated: syncResult.updated,
                 successRate: syncResult.totalCustomers > 0 
                     ? ((syncResult.created + syncResult.updated) / syncResult.totalCustomers * 100).toFixed(2) + '%'
                     : '100%'
             },
+            ...(syncResult.reconciliation && { reconciliation: syncResult.reconciliation }),
             summary: syncResult.message
         };
 
@@ -4,6 +4,7 @@ import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { sendSuccess, sendError } from '../utils/responseHandler';
 import invoiceSyncService from '../service/invoiceSyncService';
+import syncJobService from '../service/syncJobService';
 import { getStatusCode } from '../utils/errorHandler';
 
 /**
@@ -29,7 +30,7 @@ const syncSingleInvoice = async (req: Request, res: Response): Promise<Response>
         const syncResult = await invoiceSyncService.syncInvoiceToQBO(invoiceId, accessToken, realmId);
 
         if (!syncResult.success) {
-            const statusCode = syncResult.error === 'ALREADY_SYNCED' ? 409 : 400;
+            const statusCode = syncResult.error === 'ALREADY_SYNCED' || syncResult.error === 'SYNC_CONFLICT' ? 409 : syncResult.error === 'NOT_FOUND' ? 404 : 400;
             return sendError(res, syncResult.message, {
                 invoiceId,
                 error: syncResult.error,
@@ -67,7 +68,7 @@ const syncSingleInvoice = async (req: Request, res: Response): Promise<Response>
 };
 
 /**
- * Sync all pending invoices to QuickBooks
+ * Queue a background sync of all pending invoices to QuickBooks
  * POST /api/v1/qbo/invoices/sync
  */
 const syncAllInvoices = async (req: Request, res: Response): Promise<Response> => {
@@ -80,55 +81,35 @@ const syncAllInvoices = async (req: Request, res: Response): Promise<Response> =
             }, 400);
         }
 
-        const { accessToken, realmId } = req.qbAuth!;
+        const { realmId } = req.qbAuth!;
+        const { useBatchApi = false } = req.body ?? {};
+
+        console.log(`📄 Queueing invoice sync job for realm: ${realmId}${useBatchApi ? ' (batch API)' : ''}`);
 
-        console.log(`📄 Starting batch invoice sync for realm: ${realmId} (processing in batches of 10)`);
+        // The sync runs in the background - poll GET /sync-jobs/:jobId for progress
+        const { success, job, message, error } = await syncJobService.createSyncJob('INVOICE', realmId, { useBatchApi });
 
-        // Perform batch sync through service (no limit parameter needed)
-        const syncResult = await invoiceSyncService.syncAllInvoicesToQBO(accessToken, realmId);
+        // Another sync of the same documents is still queued or running - poll that one instead
+        if (!success) {
+            return sendError(res, message, {
+                realmId,
+                jobId: job.id,
+                status: job.status,
+                error,
+                statusUrl: `/sync-jobs/${job.id}`
+            }, 409);
+        }
 
-        // Prepare detailed response
         const responseData = {
             realmId,
-            batchSyncSummary: {
-                totalProcessed: syncResult.totalProcessed,
-                successCount: syncResult.successCount,
-                failureCount: syncResult.failureCount,
-                totalBatches: Math.ceil(syncResult.totalProcessed / 10),
-                batchSize: 10,
-                successRate: syncResult.totalProcessed > 0 
-                    ? ((syncResult.successCount / syncResult.totalProcessed) * 100).toFixed(2) + '%'
-                    : '100%'
-            },
-            results: syncResult.results,
-            processedAt: new Date().toISOString(),
-            message: syncResult.message
+            jobId: job.id,
+            status: job.status,
+            totalCount: job.totalCount,
+            useBatchApi: job.useBatchApi,
+            statusUrl: `/sync-jobs/${job.id}`
         };
 
-        // Determine response status based on results
-        const hasFailures = syncResult.failureCount > 0;
-        const hasSuccesses = syncResult.successCount > 0;
-        
-        let statusCode = 200;
-        let message = syncResult.message;
-
-        if (syncResult.totalProcessed === 0) {
-            statusCode = 200;
-            message = 'No pending invoices found to sync';
-        } else if (hasSuccesses && !hasFailures) {
-            statusCode = 200;
-            message = `All ${syncResult.successCount} invoices synced successfully`;
-        } else if (hasSuccesses && hasFailures) {
-            statusCode = 207; // Multi-Status
-            message = `Partial success: ${syncResult.successCount} synced, ${syncResult.failureCount} failed`;
-        } else if (!hasSuccesses && hasFailures) {
-            statusCode = 400;
-            message = `All ${syncResult.failureCount} sync attempts failed`;
-        }
-
-        console.log(`📊 Batch invoice sync completed: ${syncResult.successCount}/${syncResult.totalProcessed} successful`);
-
-        return sendSuccess(res, message, responseData, statusCode);
+        return sendSuccess(res, `Invoice sync job queued for ${job.totalCount} pending invoice(s)`, responseData, 202);
 
     } catch (error) {
         console.error('Error syncing all invoices:', error);
@@ -160,11 +141,12 @@ const getInvoiceSyncStatus = async (req: Request, res: Response): Promise<Respon
         }
 
         const { invoiceId } = req.params;
+        const { realmId } = req.qbAuth!;
 
         console.log(`📋 Getting sync status for invoice: ${invoiceId}`);
 
         // Get sync status through service
-        const statusData = await invoiceSyncService.getInvoiceSyncStatus(invoiceId);
+        const statusData = await invoiceSyncService.getInvoiceSyncStatus(invoiceId, realmId);
 
         const responseData = {
             invoice: {
@@ -369,13 +351,13 @@ const retryInvoiceSync = async (req: Request, res: Response): Promise<Response>
         }
 
         const { invoiceId } = req.params;
-        const { forceRetry } = req.body;
+        const { forceRetry } = req.body ?? {};
         const { accessToken, realmId } = req.qbAuth!;
 
         console.log(`🔄 Retrying invoice sync for ID: ${invoiceId}`);
 
         // First, check if the invoice exists and its current status
-        const statusData = await invoiceSyncService.getInvoiceSyncStatus(invoiceId);
+        const statusData = await invoiceSyncService.getInvoiceSyncStatus(invoiceId, realmId);
         
         // Check if retry is allowed
         if (!forceRetry && statusData.invoice.syncStatus === 'SUCCESS') {
@@ -393,8 +375,8 @@ const retryInvoiceSync = async (req: Request, res: Response): Promise<Response>
             }, 400);
         }
 
-        // Perform retry sync through service (same as single sync)
-        const syncResult = await invoiceSyncService.syncInvoiceToQBO(invoiceId, accessToken, realmId);
+        // Perform retry sync through service (recorded as a new attempt on the sync log)
+        const syncResult = await invoiceSyncService.retryInvoiceSyncToQBO(invoiceId, accessToken, realmId);
 
         if (!syncResult.success) {
             return sendError(res, syncResult.message, {
@@ -402,7 +384,7 @@ const retryInvoiceSync = async (req: Request, res: Response): Promise<Response>
                 error: syncResult.error,
                 realmId,
                 isRetry: true
-            }, 400);
+            }, syncResult.error === 'NOT_FOUND' ? 404 : 400);
         }
 
         const responseData = {
@@ -437,6 +419,105 @@ const retryInvoiceSync = async (req: Request, res: Response): Promise<Response>
     }
 };
 
+/**
+ * Update invoice status (VOID/CANCELLED is propagated to QuickBooks)
+ * PATCH /api/v1/qbo/invoices/:invoiceId/status
+ */
+const updateInvoiceStatus = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        // Check for validation errors
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return sendError(res, 'Validation failed', {
+                errors: errors.array()
+            }, 400);
+        }
+
+        const { invoiceId } = req.params;
+        const { status } = req.body;
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`🔄 Updating invoice ${invoiceId} status to ${status}`);
+
+        const result = await invoiceSyncService.updateInvoiceStatus(invoiceId, status, accessToken, realmId);
+
+        if (!result.success) {
+            const statusCode = result.error === 'LINKED_PAYMENTS' || result.error === 'INVALID_STATUS_TRANSITION' ? 409 : 400;
+            return sendError(res, result.message, {
+                invoiceId,
+                status,
+                error: result.error,
+                realmId
+            }, statusCode);
+        }
+
+        return sendSuccess(res, result.message, {
+            invoiceId,
+            status,
+            qboInvoiceId: result.qboInvoiceId,
+            syncToken: result.syncToken,
+            realmId
+        });
+
+    } catch (error) {
+        console.error('Error updating invoice status:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to update invoice status',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                invoiceId: req.params?.invoiceId,
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+/**
+ * Import new and updated invoices from QuickBooks
+ * POST /api/v1/qbo/invoices/import
+ */
+const importInvoices = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`Starting Invoice import for realm: ${realmId}`);
+
+        const importResult = await invoiceSyncService.importInvoicesFromQBO(accessToken, realmId);
+
+        const responseData = {
+            realmId,
+            importResult: {
+                totalInvoices: importResult.totalInvoices,
+                pages: importResult.pages,
+                created: importResult.created,
+                updated: importResult.updated,
+                skipped: importResult.skipped
+            },
+            summary: importResult.message
+        };
+
+        console.log(`Invoice import completed for realm ${realmId}:`, importResult);
+
+        return sendSuccess(res, importResult.message, responseData, 200);
+
+    } catch (error) {
+        console.error('Error importing Invoices:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to import Invoices from QuickBooks',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
 /**
  * Get all invoices with pagination and filtering
  * GET /api/v1/qbo/invoices
@@ -585,6 +666,118 @@ const getInvoiceById = async (req: Request, res: Response): Promise<Response> =>
     }
 };
 
+/**
+ * Get the lines of an invoice
+ * GET /api/v1/qbo/invoices/:invoiceId/lines
+ */
+const getInvoiceLines = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return sendError(res, 'Validation failed', {
+                errors: errors.array()
+            }, 400);
+        }
+
+        const { invoiceId } = req.params;
+        const { realmId } = req.qbAuth!;
+
+        const lines = await invoiceSyncService.getInvoiceLines(invoiceId, realmId);
+
+        return sendSuccess(res, 'Invoice lines retrieved successfully', { invoiceId, lines });
+
+    } catch (error) {
+        console.error('Error getting invoice lines:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get invoice lines',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                invoiceId: req.params?.invoiceId
+            },
+            statusCode
+        );
+    }
+};
+
+/**
+ * Replace the lines of an invoice
+ * PUT /api/v1/qbo/invoices/:invoiceId/lines
+ */
+const replaceInvoiceLines = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const errors = validationResult(req);
+        if (!errors.isEmpty()) {
+            return sendError(res, 'Validation failed', {
+                errors: errors.array()
+            }, 400);
+        }
+
+        const { invoiceId } = req.params;
+        const { lines } = req.body;
+        const { realmId } = req.qbAuth!;
+
+        const result = await invoiceSyncService.replaceInvoiceLines(invoiceId, lines, realmId);
+
+        if (!result.success) {
+            return sendError(res, result.message, {
+                invoiceId,
+                error: result.error,
+                realmId
+            }, 409);
+        }
+
+        return sendSuccess(res, result.message, {
+            invoiceId,
+            lines: result.lines,
+            subtotal: result.subtotal,
+            total: result.total
+        });
+
+    } catch (error) {
+        console.error('Error updating invoice lines:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to update invoice lines',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                invoiceId: req.params?.invoiceId,
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+/**
+ * List synced invoices whose tax differs from the tax QuickBooks computed
+ * GET /api/v1/qbo/invoices/tax-mismatches
+ */
+const getTaxMismatches = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+
+        const mismatches = await invoiceSyncService.findInvoicesWithTaxMismatch(realmId);
+
+        return sendSuccess(res, `${mismatches.length} invoice(s) with a tax mismatch`, { mismatches });
+
+    } catch (error) {
+        console.error('Error checking invoice tax:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to check invoice tax',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
 // Export all controller functions
 const invoiceSyncController = {
     syncSingleInvoice,
@@ -593,8 +786,13 @@ const invoiceSyncController = {
     getAllInvoicesSyncStatus,
     getSyncStatistics,
     retryInvoiceSync, 
+    updateInvoiceStatus,
+    importInvoices,
     getInvoices,
-    getInvoiceById
+    getInvoiceById,
+    getInvoiceLines,
+    replaceInvoiceLines,
+    getTaxMismatches
 };
 
 export { invoiceSyncController };
\ No newline at end of file
@@ -14,16 +14,20 @@ const syncItems = async (req: Request, res: Response): Promise<Response> => {
         // Get auth info from middleware
         const { accessToken, realmId } = req.qbAuth!;
 
-        console.log(`Starting Item sync for realm: ${realmId}`);
+        // ?reconcile=true also deactivates records that are inactive or gone in QuickBooks
+        const reconcile = req.query.reconcile === 'true';
+
+        console.log(`Starting Item ${reconcile ? 'reconciliation' : 'sync'} for realm: ${realmId}`);
 
         // Perform sync
-        const syncResult = await itemService.syncItems(accessToken, realmId);
+        const syncResult = await itemService.syncItems(accessToken, realmId, { reconcile });
 
         // Prepare response data
         const responseData = {
             realmId,
             syncResult: {
                 totalItems: syncResult.totalItems,
+                pages: syncResult.pages,
                 created: syncResult.created,
                 updated: syncResult.updated,
                 skipped: syncResult.skipped,
@@ -31,6 +35,7 @@ const syncItems = async (req: Request, res: Response): Promise<Response> => {
                     ? (((syncResult.created + syncResult.updated) / syncResult.totalItems) * 100).toFixed(2) + '%'
                     : '100%'
             },
+            ...(syncResult.reconciliation && { reconciliation: syncResult.reconciliation }),
             summary: syncResult.message
         };
 
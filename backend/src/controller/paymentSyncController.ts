@@ -2,6 +2,7 @@
 
 import { Request, Response } from 'express';
 import paymentSyncService from '../service/paymentSyncService';
+import syncJobService from '../service/syncJobService';
 import { sendSuccess, sendError } from '../utils/responseHandler';
 import { validationResult } from 'express-validator';
 import { getStatusCode } from '../utils/errorHandler';
@@ -26,6 +27,14 @@ const syncSinglePayment = async (req: Request, res: Response): Promise<Response>
             req.qbAuth.realmId
         );
 
+        if (syncResult.error === 'NOT_FOUND') {
+            return sendError(res, syncResult.message, {
+                paymentId,
+                error: syncResult.error,
+                realmId: req.qbAuth.realmId
+            }, 404);
+        }
+
         const statusCode = syncResult.success ? 201 : 400;
         const responseData = {
             paymentId,
@@ -66,63 +75,197 @@ const syncAllPayments = async (req: Request, res: Response): Promise<Response> =
             }, 400);
         }
 
+        const { realmId } = req.qbAuth!;
+        const { useBatchApi = false } = req.body ?? {};
+
+        console.log(`💰 Queueing payment sync job for realm: ${realmId}${useBatchApi ? ' (batch API)' : ''}`);
+
+        // The sync runs in the background - poll GET /sync-jobs/:jobId for progress
+        const { success, job, message, error } = await syncJobService.createSyncJob('PAYMENT', realmId, { useBatchApi });
+
+        // Another sync of the same documents is still queued or running - poll that one instead
+        if (!success) {
+            return sendError(res, message, {
+                realmId,
+                jobId: job.id,
+                status: job.status,
+                error,
+                statusUrl: `/sync-jobs/${job.id}`
+            }, 409);
+        }
+
+        const responseData = {
+            realmId,
+            jobId: job.id,
+            status: job.status,
+            totalCount: job.totalCount,
+            useBatchApi: job.useBatchApi,
+            statusUrl: `/sync-jobs/${job.id}`
+        };
+
+        return sendSuccess(res, `Payment sync job queued for ${job.totalCount} pending payment(s)`, responseData, 202);
+
+    } catch (error) {
+        console.error('Error syncing all payments:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to sync payments to QuickBooks',
+            { 
+                error: error instanceof Error ? error.message : 'Unknown error',
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+const retryPaymentSync = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { paymentId } = req.params;
+        const { forceRetry } = req.body ?? {};
         const { accessToken, realmId } = req.qbAuth!;
 
-        console.log(`💰 Starting batch payment sync for realm: ${realmId} (processing in batches of 10)`);
+        console.log(`🔄 Retrying payment sync for ID: ${paymentId}`);
+
+        // First, check if the payment exists and its current status
+        const statusData = await paymentSyncService.getPaymentSyncStatus(paymentId, realmId);
+
+        // Check if retry is allowed
+        if (!forceRetry && statusData.payment.syncStatus === 'SUCCESS') {
+            return sendError(res, 'Payment is already successfully synced. Use forceRetry=true to force retry.', {
+                paymentId,
+                currentStatus: statusData.payment.syncStatus,
+                qboPaymentId: statusData.payment.qboPaymentId
+            }, 400);
+        }
+
+        if (!forceRetry && statusData.payment.syncStatus === 'IN_PROGRESS') {
+            return sendError(res, 'Payment sync is currently in progress. Please wait for completion.', {
+                paymentId,
+                currentStatus: statusData.payment.syncStatus
+            }, 400);
+        }
+
+        // Perform retry sync through service (recorded as a new attempt on the sync log)
+        const syncResult = await paymentSyncService.retryPaymentSyncToQBO(paymentId, accessToken, realmId);
 
-        // Perform batch sync through service (no limit parameter needed)
-        const syncResult = await paymentSyncService.syncAllPaymentsToQBO(accessToken, realmId);
+        if (!syncResult.success) {
+            return sendError(res, syncResult.message, {
+                paymentId,
+                error: syncResult.error,
+                realmId,
+                isRetry: true
+            }, syncResult.error === 'NOT_FOUND' ? 404 : 400);
+        }
 
-        // Prepare detailed response
         const responseData = {
+            paymentId,
+            qboPaymentId: syncResult.qboPaymentId,
+            syncToken: syncResult.syncToken,
             realmId,
-            batchSyncSummary: {
-                totalProcessed: syncResult.totalProcessed,
-                successCount: syncResult.successCount,
-                failureCount: syncResult.failureCount,
-                totalBatches: Math.ceil(syncResult.totalProcessed / 10),
-                batchSize: 10,
-                successRate: syncResult.totalProcessed > 0 
-                    ? ((syncResult.successCount / syncResult.totalProcessed) * 100).toFixed(2) + '%'
-                    : '100%'
-            },
-            results: syncResult.results,
-            processedAt: new Date().toISOString(),
-            message: syncResult.message
+            syncedAt: new Date().toISOString(),
+            status: 'SUCCESS',
+            isRetry: true,
+            previousFailures: statusData.syncLogs.filter(log => log.status === 'FAILED').length
         };
 
-        // Determine response status based on results
-        const hasFailures = syncResult.failureCount > 0;
-        const hasSuccesses = syncResult.successCount > 0;
-        
-        let statusCode = 200;
-        let message = syncResult.message;
-
-        if (syncResult.totalProcessed === 0) {
-            statusCode = 200;
-            message = 'No pending payments found to sync';
-        } else if (hasSuccesses && !hasFailures) {
-            statusCode = 200;
-            message = `All ${syncResult.successCount} payments synced successfully`;
-        } else if (hasSuccesses && hasFailures) {
-            statusCode = 207; // Multi-Status
-            message = `Partial success: ${syncResult.successCount} synced, ${syncResult.failureCount} failed`;
-        } else if (!hasSuccesses && hasFailures) {
-            statusCode = 400;
-            message = `All ${syncResult.failureCount} sync attempts failed`;
+        console.log(`✅ Payment retry sync completed for ID: ${paymentId}`);
+
+        return sendSuccess(res, `Payment retry sync successful: ${syncResult.message}`, responseData, 200);
+
+    } catch (error) {
+        console.error('Error retrying payment sync:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to retry payment sync',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                paymentId: req.params?.paymentId,
+                realmId: req.qbAuth?.realmId,
+                isRetry: true
+            },
+            statusCode
+        );
+    }
+};
+
+const updatePaymentStatus = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { paymentId } = req.params;
+        const { status } = req.body;
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`🔄 Updating payment ${paymentId} status to ${status}`);
+
+        const result = await paymentSyncService.updatePaymentStatus(paymentId, status, accessToken, realmId);
+
+        if (!result.success) {
+            const statusCode = result.error === 'INVALID_STATUS_TRANSITION' ? 409 : 400;
+            return sendError(res, result.message, {
+                paymentId,
+                status,
+                error: result.error,
+                realmId
+            }, statusCode);
         }
 
-        console.log(`📊 Batch payment sync completed: ${syncResult.successCount}/${syncResult.totalProcessed} successful`);
+        return sendSuccess(res, result.message, {
+            paymentId,
+            status,
+            qboPaymentId: result.qboPaymentId,
+            syncToken: result.syncToken,
+            realmId
+        });
+
+    } catch (error) {
+        console.error('Error updating payment status:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to update payment status',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                paymentId: req.params?.paymentId,
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+const importPayments = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`Starting Payment import for realm: ${realmId}`);
 
-        return sendSuccess(res, message, responseData, statusCode);
+        const importResult = await paymentSyncService.importPaymentsFromQBO(accessToken, realmId);
+
+        const responseData = {
+            realmId,
+            importResult: {
+                totalPayments: importResult.totalPayments,
+                pages: importResult.pages,
+                created: importResult.created,
+                updated: importResult.updated,
+                skipped: importResult.skipped
+            },
+            summary: importResult.message
+        };
+
+        console.log(`Payment import completed for realm ${realmId}:`, importResult);
+
+        return sendSuccess(res, importResult.message, responseData, 200);
 
     } catch (error) {
-        console.error('Error syncing all payments:', error);
+        console.error('Error importing Payments:', error);
         const statusCode = getStatusCode(error as Error);
         return sendError(
             res,
-            'Failed to sync payments to QuickBooks',
-            { 
+            'Failed to import Payments from QuickBooks',
+            {
                 error: error instanceof Error ? error.message : 'Unknown error',
                 realmId: req.qbAuth?.realmId
             },
@@ -139,7 +282,7 @@ const getPaymentSyncStatus = async (req: Request, res: Response): Promise<Respon
             return sendError(res, 'Payment ID is required', null, 400);
         }
 
-        const statusResult = await paymentSyncService.getPaymentSyncStatus(paymentId);
+        const statusResult = await paymentSyncService.getPaymentSyncStatus(paymentId, req.qbAuth!.realmId);
 
         const responseData = {
             payment: {
@@ -439,6 +582,9 @@ const updatePaymentInvoiceMappings = async (req: Request, res: Response): Promis
 export {
     syncSinglePayment,
     syncAllPayments,
+    retryPaymentSync,
+    updatePaymentStatus,
+    importPayments,
     getPaymentSyncStatus,
     getAllPaymentsSyncStatus,
     getPaymentSyncStatistics,
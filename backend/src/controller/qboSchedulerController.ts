@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/responseHandler';
+import qboScheduler from '../service/qboScheduler';
+import { getStatusCode } from '../utils/errorHandler';
+
+const getQueueStatus = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+
+        const [queueStatus] = qboScheduler.getQueueStatus(realmId);
+
+        return sendSuccess(res, 'QuickBooks request queue status retrieved successfully', queueStatus);
+
+    } catch (error) {
+        console.error('Error getting QuickBooks request queue status:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get QuickBooks request queue status',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+export const qboSchedulerController = {
+    getQueueStatus
+};
@@ -1,16 +1,44 @@
 // controllers/quickbooksAuthController.ts
 
 import { Request, Response } from 'express';
+import { QBOEnvironment } from '@prisma/client';
 import { sendSuccess, sendError } from '../utils/responseHandler';
 import quickbooksAuthService from '../service/quickbooksAuthService';
+import sessionService from '../service/sessionService';
+import userService from '../service/userService';
 import { getStatusCode } from '../utils/errorHandler';
+import { quickbooksConfig } from '../config/quickbooks';
+import { clearSessionCookie, getSessionToken, setSessionCookie } from '../utils/sessionCookie';
+
+/**
+ * Resolve the connection a request acts on - an explicit connectionId must belong to the session
+ */
+const getSessionConnectionId = (req: Request, connectionId?: string): string => {
+    const sessionConnectionId = req.qbAuth!.connectionId;
+
+    if (connectionId && connectionId !== sessionConnectionId) {
+        throw new Error('Access forbidden - connection does not belong to this session');
+    }
+
+    return sessionConnectionId;
+};
 
 const qboConnect = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { returnUrl } = req.query as { returnUrl?: string };
+        const { returnUrl, environment } = req.query as { returnUrl?: string; environment?: string };
+
+        // sandbox or production - the company is connected to, and later called on, that environment's API
+        const qboEnvironment = environment ? environment.toUpperCase() : quickbooksConfig.defaultEnvironment;
+        if (qboEnvironment !== 'SANDBOX' && qboEnvironment !== 'PRODUCTION') {
+            return sendError(res, 'Environment must be one of: sandbox, production', null, 400);
+        }
 
         // Generate QuickBooks authorization URL
-        const authData = quickbooksAuthService.getAuthorizationUrl(returnUrl);
+        const authData = await quickbooksAuthService.getAuthorizationUrl(
+            req.authUser!.sessionId,
+            returnUrl,
+            qboEnvironment as QBOEnvironment
+        );
 
         if (!authData || !authData.authUrl) {
             return sendError(
@@ -28,6 +56,7 @@ const qboConnect = async (req: Request, res: Response): Promise<Response> => {
             {
                 authUrl: authData.authUrl,
                 state: authData.state,
+                environment: authData.environment,
                 message: 'Redirect user to this URL to begin QuickBooks authentication'
             }
         );
@@ -71,11 +100,27 @@ const qboCallback = async (req: Request, res: Response): Promise<Response | void
             return res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/?error=missing_state`);
         }
 
-        // Process the callback
-        const connection = await quickbooksAuthService.processCallback(
+        // The callback is a top-level redirect from Intuit, so the browser still sends our session cookie
+        const sessionToken = getSessionToken(req);
+        const session = sessionToken ? await sessionService.getSession(sessionToken) : null;
+
+        if (!session) {
+            console.error('OAuth callback without a logged-in user');
+            return res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/login?error=login_required`);
+        }
+
+        if (!(await userService.canConnectRealm(session.userId, realmId as string))) {
+            console.error(`User ${session.userId} is not an admin of realm ${realmId}`);
+            return res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/?error=admin_required`);
+        }
+
+        // Process the callback - the state must have been issued to this session and not used before
+        const { connection, returnUrl } = await quickbooksAuthService.processCallback(
             code as string,
             realmId as string,
-            state as string
+            state as string,
+            session.id,
+            session.userId
         );
 
         if (!connection) {
@@ -89,13 +134,17 @@ const qboCallback = async (req: Request, res: Response): Promise<Response | void
             companyName: connection.companyName
         });
 
+        // Whoever connects a company administers it; the session switches to the company straight away
+        await userService.grantMembership(session.userId, connection.id, 'ADMIN');
+        await sessionService.setActiveConnection(session.id, connection.id);
+
         // Success - redirect to frontend with success parameters
         // IMPORTANT: Use 'qb_' prefix to match frontend expectations
         const frontendUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/oauth-success?` +
-            `qb_access_token=${encodeURIComponent(connection.accessToken)}&` +
             `qb_realm_id=${encodeURIComponent(connection.realmId)}&` +
             `qb_connection_id=${encodeURIComponent(connection.id)}&` +
-            `qb_company_name=${encodeURIComponent(connection.companyName || 'Unknown Company')}`;
+            `qb_company_name=${encodeURIComponent(connection.companyName || 'Unknown Company')}` +
+            (returnUrl ? `&qb_return_url=${encodeURIComponent(returnUrl)}` : '');
 
         console.log('Redirecting to:', frontendUrl);
         return res.redirect(frontendUrl);
@@ -113,12 +162,7 @@ const qboCallback = async (req: Request, res: Response): Promise<Response | void
 
 const qboStatus = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { connectionId } = req.params;
-
-        // Validate required parameters
-        if (!connectionId) {
-            return sendError(res, 'Connection ID is required', null, 400);
-        }
+        const connectionId = getSessionConnectionId(req, req.params.connectionId);
 
         // Get connection status
         const connection = await quickbooksAuthService.getConnectionStatus(connectionId);
@@ -140,6 +184,7 @@ const qboStatus = async (req: Request, res: Response): Promise<Response> => {
                 connection: {
                     id: connection.id,
                     realmId: connection.realmId,
+                    environment: connection.environment,
                     companyName: connection.companyName,
                     isConnected: connection.isConnected,
                     connectedAt: connection.connectedAt,
@@ -151,7 +196,8 @@ const qboStatus = async (req: Request, res: Response): Promise<Response> => {
                     isTokenExpired,
                     isRefreshTokenExpired,
                     needsRefresh: isTokenExpired && !isRefreshTokenExpired,
-                    needsReauth: isRefreshTokenExpired
+                    needsReauth: isRefreshTokenExpired || !!connection.reauthRequiredAt,
+                    reauthRequiredAt: connection.reauthRequiredAt ?? null
                 }
             }
         );
@@ -172,11 +218,7 @@ const qboStatus = async (req: Request, res: Response): Promise<Response> => {
 
 const qboRefresh = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { connectionId } = req.body;
-
-        if (!connectionId) {
-            return sendError(res, 'Connection ID is required', null, 400);
-        }
+        const connectionId = getSessionConnectionId(req, req.body?.connectionId);
 
         const connection = await quickbooksAuthService.refreshToken(connectionId);
 
@@ -204,11 +246,7 @@ const qboRefresh = async (req: Request, res: Response): Promise<Response> => {
 
 const qboDisconnect = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { connectionId } = req.body;
-
-        if (!connectionId) {
-            return sendError(res, 'Connection ID is required', null, 400);
-        }
+        const connectionId = getSessionConnectionId(req, req.body?.connectionId);
 
         // Disconnect integration (this handles token revocation internally)
         await quickbooksAuthService.disconnectIntegration(connectionId);
@@ -231,9 +269,9 @@ const qboDisconnect = async (req: Request, res: Response): Promise<Response> =>
 
 const qboConnections = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const connections = await quickbooksAuthService.getActiveConnections();
+        const memberships = await userService.getMemberships(req.authUser!.id);
 
-        const connectionsWithStatus = connections.map(connection => {
+        const connectionsWithStatus = memberships.map(({ role, qboConnection: connection }) => {
             const now = new Date();
             const isTokenExpired = now >= connection.expiresAt;
             const isRefreshTokenExpired = now >= connection.refreshExpiresAt;
@@ -241,21 +279,25 @@ const qboConnections = async (req: Request, res: Response): Promise<Response> =>
             return {
                 id: connection.id,
                 realmId: connection.realmId,
+                environment: connection.environment ?? quickbooksConfig.defaultEnvironment,
                 companyName: connection.companyName,
                 isConnected: connection.isConnected,
                 connectedAt: connection.connectedAt,
                 lastSyncAt: connection.lastSyncAt,
                 expiresAt: connection.expiresAt,
+                role,
+                isActive: connection.id === req.authUser!.activeConnectionId,
                 tokenStatus: {
                     isTokenExpired,
                     isRefreshTokenExpired,
                     needsRefresh: isTokenExpired && !isRefreshTokenExpired,
-                    needsReauth: isRefreshTokenExpired
+                    needsReauth: isRefreshTokenExpired || !!connection.reauthRequiredAt,
+                    reauthRequiredAt: connection.reauthRequiredAt ?? null
                 }
             };
         });
 
-        return sendSuccess(res, 'Active connections retrieved successfully', {
+        return sendSuccess(res, 'Connections retrieved successfully', {
             connections: connectionsWithStatus,
             totalConnections: connectionsWithStatus.length
         });
@@ -275,11 +317,7 @@ const qboConnections = async (req: Request, res: Response): Promise<Response> =>
 
 const qboTestConnection = async (req: Request, res: Response): Promise<Response> => {
     try {
-        const { connectionId } = req.params;
-
-        if (!connectionId) {
-            return sendError(res, 'Connection ID is required', null, 400);
-        }
+        const connectionId = getSessionConnectionId(req, req.params.connectionId);
 
         const connection = await quickbooksAuthService.getConnectionStatus(connectionId);
 
@@ -323,6 +361,141 @@ const qboTestConnection = async (req: Request, res: Response): Promise<Response>
     }
 };
 
+const qboLogin = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { email, password } = req.body ?? {};
+
+        if (!email || !password) {
+            return sendError(res, 'Email and password are required', null, 400);
+        }
+
+        const user = await userService.authenticate(email, password);
+
+        if (!user) {
+            return sendError(res, 'Invalid email or password', null, 401);
+        }
+
+        // Start in the most recently connected company the user can still work in
+        const memberships = await userService.getMemberships(user.id);
+        const membership = memberships.find(m => m.qboConnection.isConnected) || null;
+
+        const { token, session } = await sessionService.createSession(user.id, membership?.qboConnectionId ?? null, {
+            userAgent: req.get('user-agent'),
+            ipAddress: req.ip
+        });
+        setSessionCookie(res, token, session.expiresAt);
+
+        return sendSuccess(res, 'Logged in successfully', {
+            user: { id: user.id, email: user.email, name: user.name },
+            connection: membership ? {
+                id: membership.qboConnection.id,
+                realmId: membership.qboConnection.realmId,
+                companyName: membership.qboConnection.companyName
+            } : null,
+            role: membership?.role ?? null
+        });
+    } catch (error) {
+        console.error('Error logging in:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to log in',
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            statusCode
+        );
+    }
+};
+
+const qboSession = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { id, email, name, activeConnectionId } = req.authUser!;
+
+        const membership = activeConnectionId
+            ? await userService.getMembership(id, activeConnectionId)
+            : null;
+        const connection = membership
+            ? await quickbooksAuthService.getConnectionStatus(membership.qboConnectionId)
+            : null;
+
+        return sendSuccess(res, 'Session retrieved successfully', {
+            user: { id, email, name },
+            connection: connection ? {
+                id: connection.id,
+                realmId: connection.realmId,
+                companyName: connection.companyName,
+                isConnected: connection.isConnected,
+                connectedAt: connection.connectedAt,
+                lastSyncAt: connection.lastSyncAt
+            } : null,
+            role: membership?.role ?? null
+        });
+    } catch (error) {
+        console.error('Error getting session:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get session',
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            statusCode
+        );
+    }
+};
+
+const qboSwitchConnection = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { connectionId } = req.body ?? {};
+
+        if (!connectionId) {
+            return sendError(res, 'Connection ID is required', null, 400);
+        }
+
+        const membership = await userService.getMembership(req.authUser!.id, connectionId);
+
+        if (!membership) {
+            return sendError(res, 'Access forbidden - you are not a member of this QuickBooks company', null, 403);
+        }
+
+        await sessionService.setActiveConnection(req.authUser!.sessionId, connectionId);
+
+        return sendSuccess(res, 'Switched QuickBooks company successfully', {
+            connectionId,
+            role: membership.role
+        });
+    } catch (error) {
+        console.error('Error switching connection:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to switch QuickBooks company',
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            statusCode
+        );
+    }
+};
+
+const qboLogout = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const token = getSessionToken(req);
+
+        // Logging out only ends this browser's session; the QuickBooks connection stays active for other members
+        if (token) {
+            await sessionService.revokeSession(token);
+        }
+        clearSessionCookie(res);
+
+        return sendSuccess(res, 'Logged out successfully', null);
+    } catch (error) {
+        console.error('Error logging out:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to log out',
+            { error: error instanceof Error ? error.message : 'Unknown error' },
+            statusCode
+        );
+    }
+};
+
 // Export all controller functions
 const quickbooksAuthController = {
     qboConnect,
@@ -331,7 +504,11 @@ const quickbooksAuthController = {
     qboRefresh,
     qboDisconnect,
     qboConnections,
-    qboTestConnection
+    qboTestConnection,
+    qboLogin,
+    qboSession,
+    qboSwitchConnection,
+    qboLogout
 };
 
 export { quickbooksAuthController };
\ No newline at end of file
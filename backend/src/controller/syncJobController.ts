@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/responseHandler';
+import syncJobService from '../service/syncJobService';
+import { getStatusCode } from '../utils/errorHandler';
+
+const getSyncJobs = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+        const { limit = '20', transactionType } = req.query as {
+            limit?: string;
+            transactionType?: string;
+        };
+
+        const limitNum = parseInt(limit);
+        if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+            return sendError(res, 'Limit must be between 1 and 100', null, 400);
+        }
+
+        if (transactionType && !['INVOICE', 'PAYMENT'].includes(transactionType)) {
+            return sendError(res, 'Transaction type must be one of: INVOICE, PAYMENT', null, 400);
+        }
+
+        const syncJobs = await syncJobService.getSyncJobs(realmId, {
+            limit: limitNum,
+            transactionType: transactionType as 'INVOICE' | 'PAYMENT' | undefined
+        });
+
+        return sendSuccess(res, 'Sync jobs retrieved successfully', { syncJobs, count: syncJobs.length });
+
+    } catch (error) {
+        console.error('Error getting sync jobs:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get sync jobs',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+const getSyncJobById = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { jobId } = req.params;
+        const { realmId } = req.qbAuth!;
+
+        if (!jobId) {
+            return sendError(res, 'Sync job ID is required', null, 400);
+        }
+
+        const syncJob = await syncJobService.getSyncJob(jobId, realmId);
+
+        const responseData = {
+            ...syncJob,
+            progress: syncJob.totalCount > 0
+                ? Math.round((syncJob.processedCount / syncJob.totalCount) * 100)
+                : 100
+        };
+
+        return sendSuccess(res, 'Sync job retrieved successfully', responseData);
+
+    } catch (error) {
+        console.error('Error getting sync job:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get sync job',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+const cancelSyncJob = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { jobId } = req.params;
+        const { realmId } = req.qbAuth!;
+
+        if (!jobId) {
+            return sendError(res, 'Sync job ID is required', null, 400);
+        }
+
+        const result = await syncJobService.cancelSyncJob(jobId, realmId);
+
+        if (!result.success) {
+            return sendError(res, result.message, { error: result.error, syncJob: result.job }, 409);
+        }
+
+        return sendSuccess(res, result.message, result.job);
+
+    } catch (error) {
+        console.error('Error cancelling sync job:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to cancel sync job',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+export const syncJobController = {
+    getSyncJobs,
+    getSyncJobById,
+    cancelSyncJob
+};
@@ -0,0 +1,107 @@
+// controllers/taxController.ts
+
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/responseHandler';
+import taxService from '../service/taxService';
+import { getStatusCode } from '../utils/errorHandler';
+
+/**
+ * Sync tax rates and tax codes from QuickBooks to database
+ * POST /api/v1/qbo/tax/sync
+ */
+const syncSalesTax = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { accessToken, realmId } = req.qbAuth!;
+
+        console.log(`Starting sales tax sync for realm: ${realmId}`);
+
+        const syncResult = await taxService.syncSalesTax(accessToken, realmId);
+
+        return sendSuccess(res, syncResult.message, {
+            realmId,
+            syncResult: {
+                taxRates: syncResult.taxRates,
+                taxCodes: syncResult.taxCodes,
+                created: syncResult.created,
+                updated: syncResult.updated
+            }
+        });
+
+    } catch (error) {
+        console.error('Error syncing sales tax:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to sync sales tax',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error',
+                realmId: req.qbAuth?.realmId
+            },
+            statusCode
+        );
+    }
+};
+
+/**
+ * Get tax codes from database
+ * GET /api/v1/qbo/tax/codes
+ */
+const getTaxCodes = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+        const { active } = req.query as { active?: string };
+
+        const taxCodes = await taxService.getTaxCodes(realmId, {
+            active: active === 'true' ? true : active === 'false' ? false : undefined
+        });
+
+        return sendSuccess(res, 'Tax codes retrieved successfully', { taxCodes });
+
+    } catch (error) {
+        console.error('Error getting tax codes:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get tax codes',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+/**
+ * Get tax rates from database
+ * GET /api/v1/qbo/tax/rates
+ */
+const getTaxRates = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { realmId } = req.qbAuth!;
+        const { active } = req.query as { active?: string };
+
+        const taxRates = await taxService.getTaxRates(realmId, {
+            active: active === 'true' ? true : active === 'false' ? false : undefined
+        });
+
+        return sendSuccess(res, 'Tax rates retrieved successfully', { taxRates });
+
+    } catch (error) {
+        console.error('Error getting tax rates:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to get tax rates',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+export const taxController = {
+    syncSalesTax,
+    getTaxCodes,
+    getTaxRates
+};
@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import { sendSuccess, sendError } from '../utils/responseHandler';
+import webhookService from '../service/webhookService';
+import { getStatusCode } from '../utils/errorHandler';
+
+const receiveQuickbooksWebhook = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const result = await webhookService.recordNotifications(req.body);
+
+        // Intuit expects an answer within seconds - the affected records are pulled after responding
+        if (result.received > 0) {
+            setImmediate(() => {
+                void webhookService.processPendingEvents();
+            });
+        }
+
+        return sendSuccess(res, 'Webhook notification received', result);
+
+    } catch (error) {
+        console.error('Error receiving QuickBooks webhook:', error);
+        const statusCode = getStatusCode(error as Error);
+        return sendError(
+            res,
+            'Failed to receive webhook notification',
+            {
+                error: error instanceof Error ? error.message : 'Unknown error'
+            },
+            statusCode
+        );
+    }
+};
+
+export const webhookController = {
+    receiveQuickbooksWebhook
+};
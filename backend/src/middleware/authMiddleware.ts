@@ -1,67 +1,131 @@
 // middleware/quickbooksAuthMiddleware.ts
 
 import { Request, Response, NextFunction } from 'express';
+import { MembershipRole, QBOConnection } from '@prisma/client';
+import sessionService, { SessionWithContext } from '../service/sessionService';
+import userService, { hasRole } from '../service/userService';
+import connectionResolver, { ConnectionAccessError } from '../service/connectionResolver';
+import quickbooksAuthService from '../service/quickbooksAuthService';
+import { clearSessionCookie, getSessionToken } from '../utils/sessionCookie';
 
 declare global {
   namespace Express {
     interface Request {
+      authUser?: {
+        id: string;
+        email: string;
+        name: string | null;
+        sessionId: string;
+        activeConnectionId: string | null;
+      };
       qbAuth?: {
         accessToken: string;
         realmId: string;
+        connectionId: string;
+        sessionId: string;
+        userId: string;
+        role: MembershipRole;
       };
+      // Connection resolved for the request - only ever a company connected through OAuth
+      qboConnection?: QBOConnection;
     }
   }
 }
 
 /**
- * Middleware to validate QuickBooks authentication headers
- * Expects Authorization: Bearer <token> and realm-id: <realmId> headers
+ * Resolve the logged-in user from the session cookie
+ * Sends the 401 itself and returns null when there is no valid session
  */
-export const quickbooksAuthMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-  try {
-    const authHeader = req.headers.authorization;
-    const realmId = req.headers['realm-id'] as string;
+const authenticateSession = async (req: Request, res: Response): Promise<SessionWithContext | null> => {
+  const token = getSessionToken(req);
 
-    // Extract access token from Authorization header
-    const accessToken = authHeader?.startsWith('Bearer ')
-      ? authHeader.split(' ')[1]
-      : undefined;
+  if (!token) {
+    res.status(401).json({
+      status: 'error',
+      message: 'Not authenticated - please log in',
+      data: null
+    });
+    return null;
+  }
 
-    // Validate required headers
-    if (!accessToken) {
-      res.status(401).json({
-        status: 'error',
-        message: 'Missing or invalid Authorization header. Expected format: Bearer <token>',
-        data: null
-      });
-      return;
+  const session = await sessionService.getSession(token);
+
+  if (!session) {
+    clearSessionCookie(res);
+    res.status(401).json({
+      status: 'error',
+      message: 'Session expired or revoked - please log in again',
+      data: null
+    });
+    return null;
+  }
+
+  req.authUser = {
+    id: session.user.id,
+    email: session.user.email,
+    name: session.user.name,
+    sessionId: session.id,
+    activeConnectionId: session.qboConnectionId
+  };
+
+  return session;
+};
+
+/**
+ * Middleware for routes that only need a logged-in user, not a QuickBooks company
+ */
+export const sessionAuthMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (await authenticateSession(req, res)) {
+      next();
     }
+  } catch (error) {
+    console.error('Session auth middleware error:', error);
+    res.status(500).json({
+      status: 'error',
+      message: 'Internal server error during authentication',
+      data: { error: error instanceof Error ? error.message : 'Unknown error' }
+    });
+  }
+};
 
-    if (!realmId) {
-      res.status(401).json({
-        status: 'error',
-        message: 'Missing realm-id header',
-        data: null
-      });
+/**
+ * Middleware to authenticate requests against the QuickBooks company the session is working in
+ * The user must be a member of the company; the access token is loaded from the connection - it never comes from the browser
+ * The session only carries the connection without its tokens, so the connection is re-read on its own where they are decrypted
+ */
+export const quickbooksAuthMiddleware = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const session = await authenticateSession(req, res);
+    if (!session) {
       return;
     }
 
-    // Validate token format (basic validation)
-    if (typeof accessToken !== 'string' || accessToken.length < 10) {
-      res.status(401).json({
+    const connection = session.qboConnection;
+    const membership = connection
+      ? await userService.getMembership(session.userId, connection.id)
+      : null;
+
+    if (!connection || !membership) {
+      res.status(403).json({
         status: 'error',
-        message: 'Invalid access token format',
+        message: 'Access forbidden - no QuickBooks company selected for this session',
         data: null
       });
       return;
     }
 
-    // Validate realmId format (basic validation)
-    if (typeof realmId !== 'string' || realmId.length < 5) {
+    // Only companies connected through OAuth are usable; anything else is a typed 403
+    const resolvedConnection = await connectionResolver.resolveConnection(connection.realmId);
+
+    let accessToken: string;
+    try {
+      accessToken = await quickbooksAuthService.getValidAccessToken(resolvedConnection.id);
+    } catch (error) {
       res.status(401).json({
         status: 'error',
-        message: 'Invalid realm ID format',
-        data: null
+        message: 'QuickBooks access token could not be refreshed - please reconnect the company',
+        data: { error: error instanceof Error ? error.message : 'Unknown error' }
       });
       return;
     }
@@ -69,11 +133,25 @@ export const quickbooksAuthMiddleware = (req: Request, res: Response, next: Next
     // Attach auth info to request object
     req.qbAuth = {
       accessToken,
-      realmId
+      realmId: resolvedConnection.realmId,
+      connectionId: resolvedConnection.id,
+      sessionId: session.id,
+      userId: session.userId,
+      role: membership.role
     };
+    req.qboConnection = resolvedConnection;
 
     next();
   } catch (error) {
+    if (error instanceof ConnectionAccessError) {
+      res.status(error.statusCode).json({
+        status: 'error',
+        message: error.message,
+        data: { code: error.code, realmId: error.realmId }
+      });
+      return;
+    }
+
     console.error('QuickBooks auth middleware error:', error);
     res.status(500).json({
       status: 'error',
@@ -83,6 +161,27 @@ export const quickbooksAuthMiddleware = (req: Request, res: Response, next: Next
   }
 };
 
+/**
+ * Only let users with at least the given role on the current company through
+ * Must run after quickbooksAuthMiddleware
+ */
+export const requireRole = (minimum: MembershipRole) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const role = req.qbAuth?.role;
+
+    if (!role || !hasRole(role, minimum)) {
+      res.status(403).json({
+        status: 'error',
+        message: `Access forbidden - this action requires the ${minimum} role`,
+        data: { role: role ?? null }
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 /**
  * Optional middleware for additional token validation
  * This can be extended to check token expiry, make test API calls, etc.
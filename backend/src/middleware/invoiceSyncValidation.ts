@@ -21,6 +21,10 @@ export const validateSyncSingleInvoice = [
  * POST /api/v1/qbo/invoices/sync
  */
 export const validateSyncAllInvoices = [
+    body('useBatchApi')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('useBatchApi must be a boolean')
 ];
 
 /**
@@ -92,6 +96,86 @@ export const validateRetryInvoiceSync = [
         .withMessage('forceRetry must be a boolean')
 ];
 
+/**
+ * Validation for updating invoice status
+ * PATCH /api/v1/qbo/invoices/:invoiceId/status
+ */
+export const validateUpdateInvoiceStatus = [
+    param('invoiceId')
+        .notEmpty()
+        .withMessage('Invoice ID is required')
+        .isString()
+        .withMessage('Invoice ID must be a string')
+        .isLength({ min: 1, max: 50 })
+        .withMessage('Invoice ID must be between 1 and 50 characters'),
+
+    body('status')
+        .notEmpty()
+        .withMessage('status is required')
+        .isIn(['DRAFT', 'SENT', 'PAID', 'OVERDUE', 'CANCELLED', 'VOID'])
+        .withMessage('status must be one of: DRAFT, SENT, PAID, OVERDUE, CANCELLED, VOID')
+];
+
+/**
+ * Validation for getting invoice lines
+ * GET /api/v1/qbo/invoices/:invoiceId/lines
+ */
+export const validateGetInvoiceLines = [
+    param('invoiceId')
+        .notEmpty()
+        .withMessage('Invoice ID is required')
+        .isString()
+        .withMessage('Invoice ID must be a string')
+        .isLength({ min: 1, max: 50 })
+        .withMessage('Invoice ID must be between 1 and 50 characters')
+];
+
+/**
+ * Validation for replacing invoice lines
+ * PUT /api/v1/qbo/invoices/:invoiceId/lines
+ */
+export const validateReplaceInvoiceLines = [
+    param('invoiceId')
+        .notEmpty()
+        .withMessage('Invoice ID is required')
+        .isString()
+        .withMessage('Invoice ID must be a string')
+        .isLength({ min: 1, max: 50 })
+        .withMessage('Invoice ID must be between 1 and 50 characters'),
+
+    body('lines')
+        .isArray({ min: 1, max: 250 })
+        .withMessage('lines must be an array with 1-250 items'),
+
+    body('lines.*.detailType')
+        .optional()
+        .isIn(['SalesItemLineDetail', 'DescriptionOnly'])
+        .withMessage('detailType must be one of: SalesItemLineDetail, DescriptionOnly'),
+
+    body('lines.*.itemId')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('itemId must be a string'),
+
+    body('lines.*.description')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('description must be a string')
+        .isLength({ max: 4000 })
+        .withMessage('description must be at most 4000 characters'),
+
+    body(['lines.*.quantity', 'lines.*.unitPrice', 'lines.*.amount'])
+        .optional({ values: 'null' })
+        .isFloat()
+        .withMessage('quantity, unitPrice and amount must be numbers')
+        .toFloat(),
+
+    body('lines.*.taxCode')
+        .optional({ values: 'null' })
+        .isString()
+        .withMessage('taxCode must be a string')
+];
+
 /**
  * Validation for bulk invoice sync
  * POST /api/v1/qbo/invoices/sync/bulk
@@ -36,6 +36,73 @@ export const validatePaymentSyncRequest = (req: Request, res: Response, next: Ne
 };
 
 
+/**
+ * Validate payment sync retry request
+ */
+export const validatePaymentRetryRequest = (req: Request, res: Response, next: NextFunction): void => {
+    try {
+        const forceRetry = req.body?.forceRetry;
+
+        if (forceRetry !== undefined && typeof forceRetry !== 'boolean') {
+            sendError(res, 'forceRetry must be a boolean', { field: 'forceRetry', value: forceRetry }, 400);
+            return;
+        }
+
+        next();
+    } catch (error) {
+        console.error('Error in payment retry validation middleware:', error);
+        sendError(res, 'Validation error occurred', { error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+    }
+};
+
+/**
+ * Validate bulk payment sync request
+ */
+export const validatePaymentBulkSyncRequest = (req: Request, res: Response, next: NextFunction): void => {
+    try {
+        const useBatchApi = req.body?.useBatchApi;
+
+        if (useBatchApi !== undefined && typeof useBatchApi !== 'boolean') {
+            sendError(res, 'useBatchApi must be a boolean', { field: 'useBatchApi', value: useBatchApi }, 400);
+            return;
+        }
+
+        next();
+    } catch (error) {
+        console.error('Error in payment bulk sync validation middleware:', error);
+        sendError(res, 'Validation error occurred', { error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+    }
+};
+
+/**
+ * Validate payment status update request
+ */
+export const validatePaymentStatusUpdate = (req: Request, res: Response, next: NextFunction): void => {
+    try {
+        const status = req.body?.status;
+
+        if (!status) {
+            sendError(res, 'Status is required', { field: 'status' }, 400);
+            return;
+        }
+
+        const validStatuses = ['PENDING', 'COMPLETED', 'FAILED', 'CANCELLED', 'REFUNDED'];
+        if (!validStatuses.includes(status)) {
+            sendError(res, 'Invalid payment status', {
+                field: 'status',
+                value: status,
+                validValues: validStatuses
+            }, 400);
+            return;
+        }
+
+        next();
+    } catch (error) {
+        console.error('Error in payment status validation middleware:', error);
+        sendError(res, 'Validation error occurred', { error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+    }
+};
+
 
 /**
  * Validate payment sync status query parameters
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { refreshToken } from '../service/quickbooksAuthService'; // Updated import to use the fixed function
 import { prisma } from '../config/db';
+import sessionService from '../service/sessionService';
+import { getSessionToken } from '../utils/sessionCookie';
 
 // Token refresh middleware for QBO connections
 export const qboTokenRefreshMiddleware = async (
@@ -9,16 +11,17 @@ export const qboTokenRefreshMiddleware = async (
   next: NextFunction
 ) => {
   try {
-    const realmId = req.headers['realm-id'] as string;
+    const sessionToken = getSessionToken(req);
     
-    if (!realmId) {
-      return next(); // Skip middleware if no realm ID provided
+    if (!sessionToken) {
+      return next(); // Skip middleware if there is no session - the auth middleware rejects the request
     }
 
-    // Find QBO connection by realmId
-    const connection = await prisma.qBOConnection.findUnique({
-      where: { realmId },
-    });
+    // Find QBO connection through the session - read on its own so its tokens are decrypted
+    const session = await sessionService.getSession(sessionToken);
+    const connection = session?.qboConnectionId
+      ? await prisma.qBOConnection.findUnique({ where: { id: session.qboConnectionId } })
+      : null;
 
     if (!connection || !connection.accessToken || !connection.refreshToken) {
       return next(); // Skip middleware if no connection or incomplete token data
@@ -55,21 +58,8 @@ export const qboTokenRefreshMiddleware = async (
       
       try {
         // Use the fixed refresh token service
-        const refreshedConnection = await refreshToken(connection.id);
-        
-        // Update the request headers with new access token for downstream use
-        req.headers['authorization'] = `Bearer ${refreshedConnection.accessToken}`;
-        
-        // Add connection data to request for easy access
-        (req as any).qboConnection = {
-          id: refreshedConnection.id,
-          realmId: refreshedConnection.realmId,
-          accessToken: refreshedConnection.accessToken,
-          companyName: refreshedConnection.companyName,
-          isConnected: refreshedConnection.isConnected,
-          expiresAt: refreshedConnection.expiresAt,
-          refreshExpiresAt: refreshedConnection.refreshExpiresAt
-        };
+        // The auth middleware that runs next loads the refreshed token from the connection
+        const refreshedConnection = await refreshToken(connection.id, { onlyIfExpiringWithinMs: tenMinutesInMs });
         
         console.log(`Token refreshed successfully for connection ${connection.id} (realmId: ${connection.realmId})`);
         console.log(`New token expires at: ${refreshedConnection.expiresAt}`);
@@ -98,18 +88,6 @@ export const qboTokenRefreshMiddleware = async (
         // or the downstream service can handle the authentication error
         return next();
       }
-    } else {
-      // Token is still valid, just add current token to headers and request object
-      req.headers['authorization'] = `Bearer ${connection.accessToken}`;
-      (req as any).qboConnection = {
-        id: connection.id,
-        realmId: connection.realmId,
-        accessToken: connection.accessToken,
-        companyName: connection.companyName,
-        isConnected: connection.isConnected,
-        expiresAt: connection.expiresAt,
-        refreshExpiresAt: connection.refreshExpiresAt
-      };
     }
     
     next();
@@ -118,20 +96,3 @@ export const qboTokenRefreshMiddleware = async (
     next(); // Proceed to the next middleware even if there's an error
   }
 };
-
-// Enhanced type extension for Request object to include QBO connection data
-declare global {
-  namespace Express {
-    interface Request {
-      qboConnection?: {
-        id: string;
-        realmId: string;
-        accessToken: string;
-        companyName?: string;
-        isConnected: boolean;
-        expiresAt: Date;
-        refreshExpiresAt: Date;
-      };
-    }
-  }
-}
\ No newline at end of file
@@ -0,0 +1,59 @@
+// middleware/webhookSignatureMiddleware.ts
+
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { quickbooksConfig } from '../config/quickbooks';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Body exactly as received - the webhook signature is computed over these bytes
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * Reject QuickBooks webhook calls whose intuit-signature header does not match the body
+ * The signature is a base64 HMAC-SHA256 of the raw body, keyed with the app's verifier token
+ */
+export const quickbooksWebhookSignatureMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const verifierToken = quickbooksConfig.webhookVerifierToken;
+
+  if (!verifierToken) {
+    console.error('❌ QuickBooks webhook received but QBO_WEBHOOK_VERIFIER_TOKEN is not configured');
+    return res.status(503).json({
+      status: 'error',
+      message: 'Webhooks are not configured',
+      data: null
+    });
+  }
+
+  const signature = req.header('intuit-signature');
+
+  if (!signature || !req.rawBody) {
+    return res.status(401).json({
+      status: 'error',
+      message: 'Missing webhook signature',
+      data: null
+    });
+  }
+
+  const expected = crypto.createHmac('sha256', verifierToken).update(req.rawBody).digest();
+  const received = Buffer.from(signature, 'base64');
+
+  if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+    console.warn('⚠️  Rejected QuickBooks webhook with an invalid signature');
+    return res.status(401).json({
+      status: 'error',
+      message: 'Invalid webhook signature',
+      data: null
+    });
+  }
+
+  next();
+};
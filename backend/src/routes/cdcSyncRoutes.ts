@@ -0,0 +1,17 @@
+// routes/cdcSyncRoutes.ts
+
+import { Router } from 'express';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
+import { cdcSyncController } from '../controller/cdcSyncController';
+
+const cdcSyncRoutes = Router();
+
+// Apply QuickBooks auth middleware to all routes
+cdcSyncRoutes.use(quickbooksAuthMiddleware);
+
+// Pulls customers, items, accounts, invoices and payments changed since the last run
+cdcSyncRoutes.post('/', requireRole('OPERATOR'), cdcSyncController.syncChanges);
+
+cdcSyncRoutes.get('/watermarks', cdcSyncController.getWatermarks);
+
+export default cdcSyncRoutes;
@@ -1,7 +1,7 @@
 // routes/chartOfAccountsRoutes.ts
 
 import { Router } from 'express';
-import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
 import { chartOfAccountsController } from '../controller/chartOfAccountsController';
 
 
@@ -11,7 +11,7 @@ const accountsRoutes = Router();
 accountsRoutes.use(quickbooksAuthMiddleware);
 
 
-accountsRoutes.post('/sync', chartOfAccountsController.syncChartOfAccounts);
+accountsRoutes.post('/sync', requireRole('OPERATOR'), chartOfAccountsController.syncChartOfAccounts);
 
 
 accountsRoutes.get('/', chartOfAccountsController.getChartOfAccounts);
@@ -2,7 +2,7 @@
 
 import { Router } from 'express';
 import { customerController } from '../controller/customerController';
-import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
 
 const customerRoutes = Router();
 
@@ -10,7 +10,7 @@ const customerRoutes = Router();
 customerRoutes.use(quickbooksAuthMiddleware);
 
 
-customerRoutes.post('/sync', customerController.syncCustomers);
+customerRoutes.post('/sync', requireRole('OPERATOR'), customerController.syncCustomers);
 
 
 customerRoutes.get('/', customerController.getCustomers);
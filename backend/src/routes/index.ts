@@ -6,18 +6,28 @@ import itemRoutes from './itemRoutes';
 import invoiceSyncRoutes from './invoiceSyncRoutes';
 import paymentSyncRoutes from './paymentSyncRoutes';
 import syncLogRoutes from './syncLogRoutes';
+import qboSchedulerRoutes from './qboSchedulerRoutes';
+import syncJobRoutes from './syncJobRoutes';
+import webhookRoutes from './webhookRoutes';
+import cdcSyncRoutes from './cdcSyncRoutes';
+import taxRoutes from './taxRoutes';
 import { qboTokenRefreshMiddleware } from '../middleware/tokenRefreshMiddleware';
 
 
 export const router = Router();
 
 router.use("/auth", authRoutes);
+router.use("/webhooks", webhookRoutes);
 
 router.use("/", qboTokenRefreshMiddleware);
 
 router.use("/accounts", accountsRoutes);
 router.use("/customers", customerRoutes);
 router.use("/items", itemRoutes);
+router.use("/tax", taxRoutes);
 router.use("/invoices", invoiceSyncRoutes);
 router.use("/payments", paymentSyncRoutes);
-router.use("/sync-logs", syncLogRoutes);
\ No newline at end of file
+router.use("/sync-logs", syncLogRoutes);
+router.use("/sync-jobs", syncJobRoutes);
+router.use("/cdc-sync", cdcSyncRoutes);
+router.use("/qbo-scheduler", qboSchedulerRoutes);
\ No newline at end of file
@@ -2,13 +2,16 @@
 
 import { Router } from 'express';
 import { invoiceSyncController } from '../controller/invoiceSyncController';
-import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
 import {
     validateSyncSingleInvoice,
     validateSyncAllInvoices,
     validateGetInvoiceSyncStatus,
     validateGetAllInvoicesSyncStatus,
-    validateRetryInvoiceSync
+    validateRetryInvoiceSync,
+    validateUpdateInvoiceStatus,
+    validateGetInvoiceLines,
+    validateReplaceInvoiceLines
 } from '../middleware/invoiceSyncValidation';
 
 const invoiceSyncRoutes = Router();
@@ -19,16 +22,31 @@ invoiceSyncRoutes.use(quickbooksAuthMiddleware);
 
 invoiceSyncRoutes.post(
     '/sync',
+    requireRole('OPERATOR'),
     validateSyncAllInvoices,
     invoiceSyncController.syncAllInvoices
 );
 
 invoiceSyncRoutes.post(
     '/sync/:invoiceId',
+    requireRole('OPERATOR'),
     validateSyncSingleInvoice,
     invoiceSyncController.syncSingleInvoice
 );
 
+invoiceSyncRoutes.post(
+    '/sync/:invoiceId/retry',
+    requireRole('OPERATOR'),
+    validateRetryInvoiceSync,
+    invoiceSyncController.retryInvoiceSync
+);
+
+invoiceSyncRoutes.post(
+    '/import',
+    requireRole('OPERATOR'),
+    invoiceSyncController.importInvoices
+);
+
 invoiceSyncRoutes.get(
     '/sync/status',
     validateGetAllInvoicesSyncStatus,
@@ -42,6 +60,31 @@ invoiceSyncRoutes.get(
     invoiceSyncController.getInvoiceSyncStatus
 );
 
+invoiceSyncRoutes.patch(
+    '/:invoiceId/status',
+    requireRole('OPERATOR'),
+    validateUpdateInvoiceStatus,
+    invoiceSyncController.updateInvoiceStatus
+);
+
+invoiceSyncRoutes.get(
+    '/tax-mismatches',
+    invoiceSyncController.getTaxMismatches
+);
+
+invoiceSyncRoutes.get(
+    '/:invoiceId/lines',
+    validateGetInvoiceLines,
+    invoiceSyncController.getInvoiceLines
+);
+
+invoiceSyncRoutes.put(
+    '/:invoiceId/lines',
+    requireRole('OPERATOR'),
+    validateReplaceInvoiceLines,
+    invoiceSyncController.replaceInvoiceLines
+);
+
 invoiceSyncRoutes.get(
     '/', 
     invoiceSyncController.getInvoices);
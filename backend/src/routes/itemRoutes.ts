@@ -2,13 +2,13 @@
 
 import { Router } from 'express';
 import { itemController } from '../controller/itemController';
-import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
 const itemRoutes = Router();
 
 // Apply QuickBooks auth middleware to all routes
 itemRoutes.use(quickbooksAuthMiddleware);
 
-itemRoutes.post('/sync', itemController.syncItems);
+itemRoutes.post('/sync', requireRole('OPERATOR'), itemController.syncItems);
 
 itemRoutes.get('/', itemController.getItems);
 
@@ -4,6 +4,9 @@ import express from 'express';
 import {
     syncSinglePayment,
     syncAllPayments,
+    retryPaymentSync,
+    updatePaymentStatus,
+    importPayments,
     getPaymentSyncStatus,
     getAllPaymentsSyncStatus,
     getPaymentSyncStatistics,
@@ -11,9 +14,12 @@ import {
     getPaymentById,
     updatePaymentInvoiceMappings
 } from '../controller/paymentSyncController';
-import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
 import {
     validatePaymentSyncRequest,
+    validatePaymentRetryRequest,
+    validatePaymentBulkSyncRequest,
+    validatePaymentStatusUpdate,
     validatePaymentSyncStatusQuery
 } from '../middleware/paymentSyncValidation';
 
@@ -22,11 +28,15 @@ const paymentSyncRoutes = express.Router();
 // Apply QuickBooks authentication middleware to all routes
 paymentSyncRoutes.use(quickbooksAuthMiddleware);
 
-paymentSyncRoutes.post('/sync/:paymentId', validatePaymentSyncRequest, syncSinglePayment);
+paymentSyncRoutes.post('/sync/:paymentId', requireRole('OPERATOR'), validatePaymentSyncRequest, syncSinglePayment);
 
-paymentSyncRoutes.post('/sync', syncAllPayments);
+paymentSyncRoutes.post('/sync/:paymentId/retry', requireRole('OPERATOR'), validatePaymentSyncRequest, validatePaymentRetryRequest, retryPaymentSync);
 
-paymentSyncRoutes.post('/update-invoice-mappings', updatePaymentInvoiceMappings);
+paymentSyncRoutes.post('/sync', requireRole('OPERATOR'), validatePaymentBulkSyncRequest, syncAllPayments);
+
+paymentSyncRoutes.post('/update-invoice-mappings', requireRole('OPERATOR'), updatePaymentInvoiceMappings);
+
+paymentSyncRoutes.post('/import', requireRole('OPERATOR'), importPayments);
 
 paymentSyncRoutes.get('/:paymentId/sync-status', validatePaymentSyncRequest, getPaymentSyncStatus);
 
@@ -34,6 +44,8 @@ paymentSyncRoutes.get('/sync/status', validatePaymentSyncStatusQuery, getAllPaym
 
 paymentSyncRoutes.get('/sync-statistics', getPaymentSyncStatistics);
 
+paymentSyncRoutes.patch('/:paymentId/status', requireRole('OPERATOR'), validatePaymentSyncRequest, validatePaymentStatusUpdate, updatePaymentStatus);
+
 paymentSyncRoutes.get('/', getPayments);
 
 paymentSyncRoutes.get('/:paymentId', getPaymentById);
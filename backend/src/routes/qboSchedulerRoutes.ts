@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { qboSchedulerController } from '../controller/qboSchedulerController';
+import { quickbooksAuthMiddleware } from '../middleware/authMiddleware';
+
+const qboSchedulerRoutes = Router();
+
+// Apply QuickBooks auth middleware to all routes
+qboSchedulerRoutes.use(quickbooksAuthMiddleware);
+
+qboSchedulerRoutes.get('/queue', qboSchedulerController.getQueueStatus);
+
+export default qboSchedulerRoutes;
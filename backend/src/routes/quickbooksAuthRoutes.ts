@@ -2,26 +2,40 @@
 
 import { Router } from 'express';
 import { quickbooksAuthController } from '../controller/quickbooksAuthController';
+import { quickbooksAuthMiddleware, requireRole, sessionAuthMiddleware } from '../middleware/authMiddleware';
 
 const authRoutes = Router();
 
-authRoutes.get('/connect', quickbooksAuthController.qboConnect);
+authRoutes.post('/login', quickbooksAuthController.qboLogin);
+
+
+authRoutes.post('/logout', quickbooksAuthController.qboLogout);
+
+
+authRoutes.get('/session', sessionAuthMiddleware, quickbooksAuthController.qboSession);
+
+
+authRoutes.post('/session/connection', sessionAuthMiddleware, quickbooksAuthController.qboSwitchConnection);
+
+
+// Admin checks for connecting happen in the callback, once QuickBooks tells us which company was picked
+authRoutes.get('/connect', sessionAuthMiddleware, quickbooksAuthController.qboConnect);
 
 
 authRoutes.get('/callback', quickbooksAuthController.qboCallback);
 
 
-authRoutes.post('/refresh', quickbooksAuthController.qboRefresh);
+authRoutes.post('/refresh', quickbooksAuthMiddleware, requireRole('OPERATOR'), quickbooksAuthController.qboRefresh);
 
-authRoutes.post('/disconnect', quickbooksAuthController.qboDisconnect);
+authRoutes.post('/disconnect', quickbooksAuthMiddleware, requireRole('ADMIN'), quickbooksAuthController.qboDisconnect);
 
 
-authRoutes.get('/status/:connectionId', quickbooksAuthController.qboStatus);
+authRoutes.get('/status/:connectionId', quickbooksAuthMiddleware, quickbooksAuthController.qboStatus);
 
 
-authRoutes.get('/connections', quickbooksAuthController.qboConnections);
+authRoutes.get('/connections', sessionAuthMiddleware, quickbooksAuthController.qboConnections);
 
 
-authRoutes.post('/test/:connectionId', quickbooksAuthController.qboTestConnection);
+authRoutes.post('/test/:connectionId', quickbooksAuthMiddleware, quickbooksAuthController.qboTestConnection);
 
-export default authRoutes;
\ No newline at end of file
+export default authRoutes;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { syncJobController } from '../controller/syncJobController';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
+
+const syncJobRoutes = Router();
+
+// Apply QuickBooks auth middleware to all routes
+syncJobRoutes.use(quickbooksAuthMiddleware);
+
+syncJobRoutes.get('/', syncJobController.getSyncJobs);
+
+syncJobRoutes.get('/:jobId', syncJobController.getSyncJobById);
+
+syncJobRoutes.post('/:jobId/cancel', requireRole('OPERATOR'), syncJobController.cancelSyncJob);
+
+export default syncJobRoutes;
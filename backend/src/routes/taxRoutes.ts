@@ -0,0 +1,18 @@
+// routes/taxRoutes.ts
+
+import { Router } from 'express';
+import { quickbooksAuthMiddleware, requireRole } from '../middleware/authMiddleware';
+import { taxController } from '../controller/taxController';
+
+const taxRoutes = Router();
+
+// Apply QuickBooks auth middleware to all routes
+taxRoutes.use(quickbooksAuthMiddleware);
+
+taxRoutes.post('/sync', requireRole('OPERATOR'), taxController.syncSalesTax);
+
+taxRoutes.get('/codes', taxController.getTaxCodes);
+
+taxRoutes.get('/rates', taxController.getTaxRates);
+
+export default taxRoutes;
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { webhookController } from '../controller/webhookController';
+import { quickbooksWebhookSignatureMiddleware } from '../middleware/webhookSignatureMiddleware';
+
+const webhookRoutes = Router();
+
+// Called by Intuit, not by a logged-in user - the signature is the only authentication
+webhookRoutes.post('/quickbooks', quickbooksWebhookSignatureMiddleware, webhookController.receiveQuickbooksWebhook);
+
+export default webhookRoutes;
@@ -0,0 +1,86 @@
+// scripts/createUser.ts
+
+import { MembershipRole } from '@prisma/client';
+import { prisma } from '../config/db';
+import userService from '../service/userService';
+
+/**
+ * Parse --name value pairs from the command line
+ */
+const parseArgs = (argv: string[]): Record<string, string> => {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (argv[i].startsWith('--') && argv[i + 1] !== undefined) {
+            args[argv[i].slice(2)] = argv[i + 1];
+            i++;
+        }
+    }
+    return args;
+};
+
+/**
+ * Script to create an application user and optionally give them a role on a QuickBooks company
+ * Usage: npm run users:create -- --email jane@example.com --password <password> [--name "Jane"] [--realm <realmId> --role VIEWER|OPERATOR|ADMIN]
+ * An existing user is only given the membership
+ */
+async function createUser() {
+    try {
+        const args = parseArgs(process.argv.slice(2));
+
+        if (!args.email) {
+            throw new Error('--email is required');
+        }
+
+        let user = await prisma.user.findUnique({
+            where: { email: args.email.trim().toLowerCase() }
+        });
+
+        if (user) {
+            console.log(`ℹ️  User ${user.email} already exists`);
+        } else {
+            if (!args.password) {
+                throw new Error('--password is required for a new user');
+            }
+            user = await userService.createUser({ email: args.email, password: args.password, name: args.name });
+            console.log(`✅ Created user ${user.email}`);
+        }
+
+        if (args.realm) {
+            const role = (args.role || 'VIEWER').toUpperCase() as MembershipRole;
+            if (!Object.values(MembershipRole).includes(role)) {
+                throw new Error(`--role must be one of: ${Object.values(MembershipRole).join(', ')}`);
+            }
+
+            const connection = await prisma.qBOConnection.findUnique({
+                where: { realmId: args.realm }
+            });
+            if (!connection) {
+                throw new Error(`QuickBooks connection for realm ${args.realm} not found`);
+            }
+
+            await userService.grantMembership(user.id, connection.id, role);
+            console.log(`✅ ${user.email} is now ${role} of ${connection.companyName || connection.realmId}`);
+        }
+
+    } catch (error) {
+        console.error('❌ Error in createUser script:', error);
+        throw error;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+// Run the script if called directly
+if (require.main === module) {
+    createUser()
+        .then(() => {
+            console.log('✅ Script completed successfully');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('❌ Script failed:', error);
+            process.exit(1);
+        });
+}
+
+export default createUser;
@@ -0,0 +1,84 @@
+// scripts/rotateTokenEncryptionKey.ts
+
+import { prisma } from '../config/db';
+import { tokenEncryptionConfig } from '../config/tokenEncryption';
+
+/**
+ * Script to re-encrypt every QBOConnection's OAuth tokens with the current key (TOKEN_ENCRYPTION_KEY_ID)
+ * Also encrypts rows still holding plaintext tokens from before encryption was enabled.
+ * Keep the previous key in TOKEN_ENCRYPTION_KEYS until this has run, otherwise old rows cannot be read.
+ */
+async function rotateTokenEncryptionKey() {
+    try {
+        const currentKeyId = tokenEncryptionConfig.currentKeyId;
+        if (!currentKeyId) {
+            throw new Error('TOKEN_ENCRYPTION_KEY_ID is not set');
+        }
+
+        console.log(`🔐 Re-encrypting QuickBooks tokens with key "${currentKeyId}"...`);
+
+        // Rows are decrypted on read and encrypted with the current key on write by the prisma client
+        const connections = await prisma.qBOConnection.findMany({
+            where: {
+                OR: [
+                    { tokenKeyId: null },
+                    { tokenKeyId: { not: currentKeyId } }
+                ]
+            },
+            select: {
+                id: true,
+                realmId: true,
+                accessToken: true,
+                refreshToken: true,
+                tokenKeyId: true
+            }
+        });
+
+        let rotated = 0;
+        let skipped = 0;
+
+        for (const connection of connections) {
+            // Disconnected rows have no tokens left to protect
+            if (!connection.accessToken && !connection.refreshToken) {
+                skipped++;
+                continue;
+            }
+
+            await prisma.qBOConnection.update({
+                where: { id: connection.id },
+                data: {
+                    accessToken: connection.accessToken,
+                    refreshToken: connection.refreshToken
+                }
+            });
+
+            console.log(`✅ ${connection.realmId}: ${connection.tokenKeyId ?? 'plaintext'} -> ${currentKeyId}`);
+            rotated++;
+        }
+
+        console.log(`\n📊 Summary:`);
+        console.log(`   Connections re-encrypted: ${rotated}`);
+        console.log(`   Connections without tokens skipped: ${skipped}`);
+
+    } catch (error) {
+        console.error('❌ Error in rotateTokenEncryptionKey script:', error);
+        throw error;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+// Run the script if called directly
+if (require.main === module) {
+    rotateTokenEncryptionKey()
+        .then(() => {
+            console.log('✅ Script completed successfully');
+            process.exit(0);
+        })
+        .catch((error) => {
+            console.error('❌ Script failed:', error);
+            process.exit(1);
+        });
+}
+
+export default rotateTokenEncryptionKey;
@@ -6,8 +6,7 @@ const prisma = new PrismaClient();
 // Sample line items for invoices
 const sampleLineItems = [
     {
-        itemRef: "", // Will be populated dynamically
-        itemName: "",
+        itemId: "", // Will be populated dynamically
         description: "Web Development Services",
         quantity: 1,
         unitPrice: 2500.00,
@@ -15,8 +14,7 @@ const sampleLineItems = [
         detailType: "SalesItemLineDetail"
     },
     {
-        itemRef: "",
-        itemName: "",
+        itemId: "",
         description: "Consulting Services",
         quantity: 10,
         unitPrice: 150.00,
@@ -24,8 +22,7 @@ const sampleLineItems = [
         detailType: "SalesItemLineDetail"
     },
     {
-        itemRef: "",
-        itemName: "",
+        itemId: "",
         description: "Software License",
         quantity: 1,
         unitPrice: 500.00,
@@ -137,8 +134,8 @@ const seedInvoicesAndPayments = async () => {
                     const unitPrice = item.unitPrice || (Math.floor(Math.random() * 500) + 50);
                     
                     selectedItems.push({
-                        itemRef: item.id,
-                        itemName: item.name,
+                        lineNum: j + 1,
+                        itemId: item.id as string | null,
                         description: item.description || `${item.name} - Professional Service`,
                         quantity,
                         unitPrice,
@@ -153,8 +150,8 @@ const seedInvoicesAndPayments = async () => {
 
                 // Add tax line if applicable
                 selectedItems.push({
-                    itemRef: null,
-                    itemName: "Tax",
+                    lineNum: selectedItems.length + 1,
+                    itemId: null,
                     description: "Sales Tax",
                     quantity: 1,
                     unitPrice: tax,
@@ -175,7 +172,7 @@ const seedInvoicesAndPayments = async () => {
                             total,
                             sendLater: Math.random() > 0.7, // 30% chance of sendLater being true
                             status: i < 3 ? 'PAID' : (i < 8 ? 'SENT' : 'DRAFT'), // Mix of statuses
-                            lineItems: selectedItems,
+                            lines: { create: selectedItems },
                             qboConnectionId: connection.id,
                             syncStatus: 'PENDING'
                         }
@@ -218,7 +215,7 @@ const seedInvoicesAndPayments = async () => {
                             referenceNumber: `REF-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
                             notes: `Payment via ${selectedMethod.toLowerCase().replace('_', ' ')} for invoice ${invoice.docNumber}`,
                             status: 'COMPLETED',
-                            depositToAccountRef: depositAccount.id,
+                            depositToAccountRef: depositAccount.qboAccountId,
                             totalAmount: Math.round(paymentAmount * 100) / 100,
                             processPayment: true,
                             linkedTransactions: [
@@ -258,17 +255,19 @@ const seedInvoicesAndPayments = async () => {
                             subtotal: amount,
                             total: amount,
                             status: 'PAID',
-                            lineItems: [
-                                {
-                                    itemRef: items[0].id,
-                                    itemName: "Advance Payment",
-                                    description: "Advance payment received",
-                                    quantity: 1,
-                                    unitPrice: amount,
-                                    amount: amount,
-                                    detailType: "SalesItemLineDetail"
-                                }
-                            ],
+                            lines: {
+                                create: [
+                                    {
+                                        lineNum: 1,
+                                        itemId: items[0].id,
+                                        description: "Advance payment received",
+                                        quantity: 1,
+                                        unitPrice: amount,
+                                        amount: amount,
+                                        detailType: "SalesItemLineDetail"
+                                    }
+                                ]
+                            },
                             qboConnectionId: connection.id,
                             syncStatus: 'PENDING'
                         }
@@ -283,7 +282,7 @@ const seedInvoicesAndPayments = async () => {
                             referenceNumber: `ADV-${Date.now()}-${i}`,
                             notes: `Advance payment from customer ${customer.displayName}`,
                             status: 'COMPLETED',
-                            depositToAccountRef: depositAccount.id,
+                            depositToAccountRef: depositAccount.qboAccountId,
                             totalAmount: amount,
                             processPayment: true,
                             qboConnectionId: connection.id,
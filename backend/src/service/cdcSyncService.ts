@@ -0,0 +1,266 @@
+// services/cdcSyncService.ts
+
+import { prisma } from '../config/db';
+import { SyncWatermark } from '@prisma/client';
+import connectionResolver from './connectionResolver';
+import { createQboClient, QBO_CDC_MAX_AGE_MS, QBOApiError, QBOClient } from './qboClient';
+import { QBOSaveResult } from '../types/quickbooks';
+import { CDCEntityResult, CDCSyncResult } from '../types/cdcSync';
+import chartOfAccountsService from './chartOfAccountsService';
+import customerService from './customerService';
+import itemService from './itemService';
+import invoiceSyncService from './invoiceSyncService';
+import paymentSyncService from './paymentSyncService';
+
+interface CDCEntityHandler {
+    // Query used for the first pull, and whenever the watermark is older than QuickBooks keeps changes for
+    fullQuery: string;
+    save: (records: any[], qboConnectionId: string) => Promise<QBOSaveResult>;
+    markDeleted: (ids: string[], qboConnectionId: string) => Promise<number>;
+}
+
+// Entities kept in sync, in the order they are applied -
+// invoices need their customer and payments their invoice to be saved first
+const CDC_ENTITIES: Record<string, CDCEntityHandler> = {
+    Account: {
+        fullQuery: 'SELECT * FROM Account WHERE Active IN (true, false)',
+        save: chartOfAccountsService.saveAccountsFromQBO,
+        markDeleted: chartOfAccountsService.markAccountsDeletedInQBO
+    },
+    Item: {
+        fullQuery: 'SELECT * FROM Item WHERE Active IN (true, false)',
+        save: itemService.saveItemsFromQBO,
+        markDeleted: itemService.markItemsDeletedInQBO
+    },
+    Customer: {
+        fullQuery: 'SELECT * FROM Customer WHERE Active IN (true, false)',
+        save: customerService.saveCustomersFromQBO,
+        markDeleted: customerService.markCustomersDeletedInQBO
+    },
+    Invoice: {
+        fullQuery: 'SELECT * FROM Invoice',
+        save: invoiceSyncService.saveInvoicesFromQBO,
+        markDeleted: invoiceSyncService.markInvoicesDeletedInQBO
+    },
+    Payment: {
+        fullQuery: 'SELECT * FROM Payment',
+        save: paymentSyncService.savePaymentsFromQBO,
+        markDeleted: paymentSyncService.markPaymentsDeletedInQBO
+    }
+};
+
+const CDC_ENTITY_NAMES = Object.keys(CDC_ENTITIES);
+
+// QuickBooks returns at most 1000 changes per entity from a single CDC call
+const CDC_MAX_CHANGES_PER_ENTITY = 1000;
+
+// Watermarks this close to the CDC limit fall back to a full pull rather than risk being rejected
+const CDC_MAX_AGE_MARGIN_MS = 60 * 60 * 1000;
+
+/**
+ * Store how far the pull of one entity got
+ */
+const saveWatermark = async (qboConnectionId: string, entityName: string, changedSince: Date): Promise<void> => {
+    await prisma.syncWatermark.upsert({
+        where: { qboConnectionId_entityName: { qboConnectionId, entityName } },
+        create: { qboConnectionId, entityName, changedSince },
+        update: { changedSince, lastRunAt: new Date() }
+    });
+};
+
+/**
+ * Latest QuickBooks update time among a set of changes
+ */
+const getLatestUpdateTime = (records: any[]): Date | null => {
+    const times = records
+        .map(record => record.MetaData?.LastUpdatedTime ? new Date(record.MetaData.LastUpdatedTime).getTime() : NaN)
+        .filter(time => !isNaN(time));
+
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+};
+
+/**
+ * Pull every record of an entity with a plain query and start its watermark from there
+ */
+const pullEntityInFull = async (qbo: QBOClient, qboConnectionId: string, entityName: string): Promise<CDCEntityResult> => {
+    const handler = CDC_ENTITIES[entityName];
+    const result: CDCEntityResult = { mode: 'FULL', created: 0, updated: 0, skipped: 0, deleted: 0, changedSince: new Date() };
+
+    // Changes made while the pages are read are picked up again by the next CDC pull
+    const startedAt = new Date();
+
+    await qbo.queryAllPages<any>(handler.fullQuery, entityName, async (records) => {
+        const saved = await handler.save(records, qboConnectionId);
+        result.created += saved.created;
+        result.updated += saved.updated;
+        result.skipped += saved.skipped;
+    });
+
+    result.changedSince = startedAt;
+    await saveWatermark(qboConnectionId, entityName, startedAt);
+
+    return result;
+};
+
+/**
+ * Apply the changes CDC returned for one entity - deleted entries only carry their Id
+ */
+const applyEntityChanges = async (
+    qboConnectionId: string,
+    entityName: string,
+    records: any[],
+    result: CDCEntityResult
+): Promise<void> => {
+    const handler = CDC_ENTITIES[entityName];
+
+    const deletedIds = records.filter(record => record.status === 'Deleted').map(record => record.Id);
+    const changed = records.filter(record => record.status !== 'Deleted');
+
+    if (changed.length > 0) {
+        const saved = await handler.save(changed, qboConnectionId);
+        result.created += saved.created;
+        result.updated += saved.updated;
+        result.skipped += saved.skipped;
+    }
+
+    if (deletedIds.length > 0) {
+        result.deleted += await handler.markDeleted(deletedIds, qboConnectionId);
+    }
+};
+
+/**
+ * Pull the changes since each entity's watermark with as few CDC calls as possible
+ * One call covers every entity; only entities that hit the 1000 change limit are asked again
+ */
+const pullEntityChanges = async (
+    qbo: QBOClient,
+    qboConnectionId: string,
+    watermarks: Map<string, Date>
+): Promise<Record<string, CDCEntityResult>> => {
+    const results: Record<string, CDCEntityResult> = {};
+    for (const [entityName, changedSince] of watermarks) {
+        results[entityName] = { mode: 'CDC', created: 0, updated: 0, skipped: 0, deleted: 0, changedSince };
+    }
+
+    let pending = new Map(watermarks);
+
+    while (pending.size > 0) {
+        const entities = CDC_ENTITY_NAMES.filter(name => pending.has(name));
+
+        // A single changedSince applies to every entity - re-reading changes we already applied is harmless
+        const changedSince = new Date(Math.min(...entities.map(name => pending.get(name)!.getTime())));
+        const { changes, time } = await qbo.changeDataCapture(entities, changedSince);
+
+        const nextPending = new Map<string, Date>();
+
+        for (const entityName of entities) {
+            const records = changes[entityName] ?? [];
+            await applyEntityChanges(qboConnectionId, entityName, records, results[entityName]);
+
+            let nextWatermark = new Date(time);
+
+            if (records.length >= CDC_MAX_CHANGES_PER_ENTITY) {
+                // More changes are waiting - continue from the last one we saw
+                const latest = getLatestUpdateTime(records);
+                if (!latest || latest.getTime() <= pending.get(entityName)!.getTime()) {
+                    throw new Error(`Change data capture for ${entityName} returned more than ${CDC_MAX_CHANGES_PER_ENTITY} changes with the same update time`);
+                }
+                nextWatermark = latest;
+                nextPending.set(entityName, latest);
+            }
+
+            results[entityName].changedSince = nextWatermark;
+            await saveWatermark(qboConnectionId, entityName, nextWatermark);
+        }
+
+        pending = nextPending;
+    }
+
+    return results;
+};
+
+/**
+ * Bring customers, items, accounts, invoices and payments up to date with QuickBooks in one pass
+ * Entities without a watermark, or with one older than QuickBooks keeps changes for, are pulled in full first
+ */
+const syncChanges = async (accessToken: string, realmId: string): Promise<CDCSyncResult> => {
+    try {
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+        const qbo = createQboClient({ accessToken, realmId });
+
+        const storedWatermarks = await prisma.syncWatermark.findMany({
+            where: { qboConnectionId, entityName: { in: CDC_ENTITY_NAMES } }
+        });
+        const watermarkByEntity = new Map(storedWatermarks.map((watermark: SyncWatermark) => [watermark.entityName, watermark.changedSince]));
+
+        const oldestUsable = Date.now() - QBO_CDC_MAX_AGE_MS + CDC_MAX_AGE_MARGIN_MS;
+        const entities: Record<string, CDCEntityResult> = {};
+        const cdcWatermarks = new Map<string, Date>();
+
+        for (const entityName of CDC_ENTITY_NAMES) {
+            const changedSince = watermarkByEntity.get(entityName);
+
+            if (changedSince && changedSince.getTime() >= oldestUsable) {
+                cdcWatermarks.set(entityName, changedSince);
+                continue;
+            }
+
+            console.log(`📥 No usable ${entityName} watermark for realm ${realmId} - pulling in full`);
+            entities[entityName] = await pullEntityInFull(qbo, qboConnectionId, entityName);
+        }
+
+        if (cdcWatermarks.size > 0) {
+            Object.assign(entities, await pullEntityChanges(qbo, qboConnectionId, cdcWatermarks));
+        }
+
+        // Update connection's last sync timestamp
+        await prisma.qBOConnection.update({
+            where: { id: qboConnectionId },
+            data: { lastSyncAt: new Date() }
+        });
+
+        const summary = CDC_ENTITY_NAMES
+            .map(name => `${name}: ${entities[name].created} created, ${entities[name].updated} updated, ${entities[name].deleted} deleted`)
+            .join('; ');
+        const message = `Change data capture sync completed - ${summary}`;
+        console.log(message);
+
+        return {
+            success: true,
+            entities,
+            message
+        };
+
+    } catch (error) {
+        console.error('Error running change data capture sync:', error);
+
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
+        }
+
+        throw new Error(`Change data capture sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get the stored watermarks for a realm
+ */
+const getWatermarks = async (realmId: string): Promise<SyncWatermark[]> => {
+    try {
+        return await prisma.syncWatermark.findMany({
+            where: { qboConnection: { realmId } },
+            orderBy: { entityName: 'asc' }
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch sync watermarks: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+const cdcSyncService = {
+    syncChanges,
+    getWatermarks
+};
+
+export default cdcSyncService;
@@ -1,76 +1,104 @@
 // services/chartOfAccountsService.ts - Updated with connection lookup
 
-import axios from 'axios';
 import { prisma } from '../config/db';
+import connectionResolver from './connectionResolver';
 import { ChartOfAccount } from '@prisma/client';
-import { QBOAccount, QBOQueryResponse } from '../types/chartOfAccounts';
-
-// Helper function to get API base URL
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://quickbooks.api.intuit.com'
-        : 'https://sandbox-quickbooks.api.intuit.com';
-};
-
+import { QBOAccount } from '../types/chartOfAccounts';
+import { buildIdFilter, createQboClient, QBOApiError } from './qboClient';
+import { QBOPullOptions, QBOReconcileResult, QBOSaveResult } from '../types/quickbooks';
 
 /**
- * Find or create QBO connection based on realmId
+ * Save a page of QuickBooks accounts, creating the ones we do not have yet
  */
-const findOrCreateConnection = async (realmId: string, accessToken: string): Promise<string> => {
-    try {
-        // First, try to find existing connection by realmId
-        let connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
+const saveAccountsFromQBO = async (accounts: QBOAccount[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+
+    const upsertPromises = accounts.map(async (account: QBOAccount) => {
+        const existingAccount = await prisma.chartOfAccount.findUnique({
+            where: { qboConnectionId_qboAccountId: { qboConnectionId, qboAccountId: account.Id } }
         });
 
-        if (!connection) {
-            // Create new connection if not found
-            console.log(`Creating new QBO connection for realmId: ${realmId}`);
-            connection = await prisma.qBOConnection.create({
+        const accountData = {
+            name: account.Name,
+            accountType: account.AccountType,
+            accountSubType: account.AccountSubType || null,
+            classification: account.Classification || null,
+            currency: account.CurrencyRef?.value || null,
+            currencyName: account.CurrencyRef?.name || null,
+            currentBalance: account.CurrentBalance || null,
+            currentBalanceWithSub: account.CurrentBalanceWithSubAccounts || null,
+            active: account.Active ?? true,
+            subAccount: account.SubAccount ?? false,
+            syncToken: account.SyncToken,
+            fullyQualifiedName: account.FullyQualifiedName,
+            domain: account.domain,
+            createdAtQB: account.MetaData?.CreateTime
+                ? new Date(account.MetaData.CreateTime)
+                : null,
+            updatedAtQB: account.MetaData?.LastUpdatedTime
+                ? new Date(account.MetaData.LastUpdatedTime)
+                : null,
+            qboConnectionId // Use the resolved connection ID
+        };
+
+        if (existingAccount) {
+            // Update existing account
+            await prisma.chartOfAccount.update({
+                where: { id: existingAccount.id },
                 data: {
-                    realmId,
-                    accessToken,
-                    refreshToken: '', // You might want to get this from somewhere
-                    expiresAt: new Date(Date.now() + 3600 * 1000), // 1 hour from now
-                    refreshExpiresAt: new Date(Date.now() + 101 * 24 * 3600 * 1000), // 101 days from now
-                    isConnected: true,
-                    companyName: `Company-${realmId}`, // You can fetch this from QB API
-                    connectedAt: new Date()
+                    ...accountData,
+                    updatedAt: new Date()
                 }
             });
-        } else if (!connection.isConnected) {
-            // Reactivate connection if it was disconnected
-            connection = await prisma.qBOConnection.update({
-                where: { id: connection.id },
+            updated++;
+        } else {
+            // Create new account
+            await prisma.chartOfAccount.create({
                 data: {
-                    accessToken,
-                    isConnected: true,
-                    connectedAt: new Date()
+                    qboAccountId: account.Id,
+                    ...accountData,
+                    createdAt: new Date(),
+                    updatedAt: new Date()
                 }
             });
+            created++;
         }
+    });
 
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding/creating QBO connection:', error);
-        throw new Error(`Failed to find or create QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    await Promise.all(upsertPromises);
+
+    return { created, updated, skipped: 0 };
+};
+
+/**
+ * Mark accounts deleted in QuickBooks as inactive - existing documents may still point at them
+ */
+const markAccountsDeletedInQBO = async (ids: string[], qboConnectionId: string): Promise<number> => {
+    const result = await prisma.chartOfAccount.updateMany({
+        where: { qboAccountId: { in: ids }, qboConnectionId },
+        data: { active: false }
+    });
+
+    return result.count;
 };
 
 /**
  * Sync Chart of Accounts from QuickBooks to database
  * Uses incremental sync based on last updated timestamp
  */
-const syncChartOfAccounts = async (accessToken: string, realmId: string): Promise<{
+const syncChartOfAccounts = async (accessToken: string, realmId: string, options: QBOPullOptions = {}): Promise<{
     success: boolean;
     totalAccounts: number;
+    pages: number;
     created: number;
     updated: number;
     message: string;
+    reconciliation?: QBOReconcileResult;
 }> => {
     try {
-        // Find or create QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // 1. Find the most recently updated account in DB for this connection
         const latest = await prisma.chartOfAccount.findFirst({
@@ -79,127 +107,104 @@ const syncChartOfAccounts = async (accessToken: string, realmId: string): Promis
             select: { updatedAtQB: true },
         });
 
-        // 2. Build dynamic query for incremental sync
-        const query = latest?.updatedAtQB
+        // 2. Build dynamic query for incremental sync - a targeted refresh only reads the given records,
+        //    reconciliation reads every record, inactive ones included
+        let query = latest?.updatedAtQB
             ? `SELECT * FROM Account WHERE MetaData.LastUpdatedTime > '${latest.updatedAtQB.toISOString()}'`
             : `SELECT * FROM Account`;
 
+        if (options.ids) {
+            query = `SELECT * FROM Account WHERE ${buildIdFilter(options.ids)} AND Active IN (true, false)`;
+        } else if (options.reconcile) {
+            query = `SELECT * FROM Account WHERE Active IN (true, false)`;
+        }
+
         console.log('Executing QuickBooks query:', query);
 
-        // 3. Make API request to QuickBooks
-        const baseUrl = getQboApiBaseUrl();
-        const response = await axios.get<QBOQueryResponse>(
-            `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(query)}`,
-            {
-                headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    Accept: 'application/json',
-                },
+        // 3. Fetch every page from QuickBooks and save each one as it arrives
+        let created = 0;
+        let updated = 0;
+
+        const seenIds = new Set<string>();
+        let inactive = 0;
+
+        const qbo = createQboClient({ accessToken, realmId });
+
+        // Reconciliation needs every record - count them up front so a short read is noticed
+        const expectedCount = options.reconcile ? await qbo.count(query, 'Account') : 0;
+
+        const { totalRecords, pages } = await qbo.queryAllPages<QBOAccount>(
+            query,
+            'Account',
+            async (accounts) => {
+                if (options.reconcile) {
+                    accounts.forEach(record => seenIds.add(record.Id));
+                    inactive += accounts.filter(record => record.Active === false).length;
+                }
+
+                const saved = await saveAccountsFromQBO(accounts, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
             }
         );
 
-        const accounts = response.data.QueryResponse.Account || [];
-        console.log(`Fetched ${accounts.length} accounts from QuickBooks`);
+        console.log(`Fetched ${totalRecords} accounts from QuickBooks in ${pages} page(s)`);
+
+        // 4. Reconciliation - records QuickBooks no longer returns at all were deleted there
+        let reconciliation: QBOReconcileResult | undefined;
+        if (options.reconcile) {
+            // Records that were only missed by the read must not be deactivated -
+            // a company QuickBooks counts none for has had every record deleted
+            if (seenIds.size < expectedCount) {
+                throw new Error(`Reconciliation aborted: QuickBooks returned ${seenIds.size} of ${expectedCount} account(s)`);
+            }
+
+            const vanished = await prisma.chartOfAccount.updateMany({
+                where: { qboConnectionId, active: true, qboAccountId: { notIn: Array.from(seenIds) } },
+                data: { active: false }
+            });
+
+            reconciliation = { inactive, vanished: vanished.count, warnings: [] };
+            console.log(`Account reconciliation: ${inactive} inactive in QuickBooks, ${vanished.count} no longer in QuickBooks`);
+        }
 
-        if (accounts.length === 0) {
+        if (totalRecords === 0) {
             return {
                 success: true,
                 totalAccounts: 0,
                 created: 0,
                 updated: 0,
-                message: 'No new or updated accounts found in QuickBooks'
+                pages,
+                message: 'No new or updated accounts found in QuickBooks',
+                ...(reconciliation && { reconciliation })
             };
         }
 
-        // 4. Save or update the records in the database
-        let created = 0;
-        let updated = 0;
-
-        const upsertPromises = accounts.map(async (account: QBOAccount) => {
-            const existingAccount = await prisma.chartOfAccount.findUnique({
-                where: { id: account.Id }
-            });
-
-            const accountData = {
-                name: account.Name,
-                accountType: account.AccountType,
-                accountSubType: account.AccountSubType || null,
-                classification: account.Classification || null,
-                currency: account.CurrencyRef?.value || null,
-                currencyName: account.CurrencyRef?.name || null,
-                currentBalance: account.CurrentBalance || null,
-                currentBalanceWithSub: account.CurrentBalanceWithSubAccounts || null,
-                active: account.Active ?? true,
-                subAccount: account.SubAccount ?? false,
-                syncToken: account.SyncToken,
-                fullyQualifiedName: account.FullyQualifiedName,
-                domain: account.domain,
-                createdAtQB: account.MetaData?.CreateTime
-                    ? new Date(account.MetaData.CreateTime)
-                    : null,
-                updatedAtQB: account.MetaData?.LastUpdatedTime
-                    ? new Date(account.MetaData.LastUpdatedTime)
-                    : null,
-                qboConnectionId // Use the found/created connection ID
-            };
-
-            if (existingAccount) {
-                // Update existing account
-                await prisma.chartOfAccount.update({
-                    where: { id: account.Id },
-                    data: {
-                        ...accountData,
-                        updatedAt: new Date()
-                    }
-                });
-                updated++;
-            } else {
-                // Create new account
-                await prisma.chartOfAccount.create({
-                    data: {
-                        id: account.Id,
-                        ...accountData,
-                        createdAt: new Date(),
-                        updatedAt: new Date()
-                    }
-                });
-                created++;
-            }
-        });
-
-        await Promise.all(upsertPromises);
-
         // Update connection's last sync timestamp
         await prisma.qBOConnection.update({
             where: { id: qboConnectionId },
             data: { lastSyncAt: new Date() }
         });
 
-        const message = `${accounts.length} account(s) synced successfully: ${created} created, ${updated} updated`;
+        const message = `${totalRecords} account(s) synced successfully: ${created} created, ${updated} updated`;
         console.log(message);
 
         return {
             success: true,
-            totalAccounts: accounts.length,
+            totalAccounts: totalRecords,
+            pages,
             created,
             updated,
-            message
+            message,
+            ...(reconciliation && { reconciliation })
         };
 
     } catch (error) {
         console.error('Error syncing Chart of Accounts:', error);
         
-        if (axios.isAxiosError(error)) {
-            const qbError = error.response?.data;
-            console.error('QuickBooks API Error:', JSON.stringify(qbError, null, 2));
-            
-            if (error.response?.status === 401) {
-                throw new Error('Authentication failed - token may be expired or invalid');
-            }
-            if (error.response?.status === 403) {
-                throw new Error('Access forbidden - insufficient permissions');
-            }
-            throw new Error(`QuickBooks API error: ${qbError?.Fault?.Error?.[0]?.Detail || error.message}`);
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
         }
 
         throw new Error(`Chart of Accounts sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -381,6 +386,8 @@ const getAccountTypes = async (realmId?: string): Promise<string[]> => {
 // Export service functions
 const chartOfAccountsService = {
     syncChartOfAccounts,
+    saveAccountsFromQBO,
+    markAccountsDeletedInQBO,
     getChartOfAccounts,
     getChartOfAccountsStats,
     getAccountTypes
@@ -0,0 +1,62 @@
+// services/connectionResolver.ts
+
+import { prisma } from '../config/db';
+import { QBOConnection } from '@prisma/client';
+
+export type ConnectionAccessErrorCode = 'CONNECTION_UNKNOWN' | 'CONNECTION_DISCONNECTED';
+
+/**
+ * Thrown when a realm has no usable QuickBooks connection
+ * The message keeps the wording getStatusCode maps to 403 so it survives being wrapped by a service
+ */
+export class ConnectionAccessError extends Error {
+    statusCode = 403;
+    code: ConnectionAccessErrorCode;
+    realmId: string;
+
+    constructor(code: ConnectionAccessErrorCode, realmId: string) {
+        super(code === 'CONNECTION_UNKNOWN'
+            ? `Access forbidden - realm ${realmId} has not been connected through QuickBooks OAuth`
+            : `Access forbidden - QuickBooks connection for realm ${realmId} is disconnected`);
+        this.name = 'ConnectionAccessError';
+        this.code = code;
+        this.realmId = realmId;
+    }
+}
+
+/**
+ * Check a connection can be used to talk to QuickBooks
+ * Only connections completed through OAuth have a refresh token
+ */
+export const assertConnected = (connection: QBOConnection | null, realmId: string): QBOConnection => {
+    if (!connection) {
+        throw new ConnectionAccessError('CONNECTION_UNKNOWN', realmId);
+    }
+    if (!connection.isConnected || !connection.refreshToken) {
+        throw new ConnectionAccessError('CONNECTION_DISCONNECTED', realmId);
+    }
+    return connection;
+};
+
+/**
+ * Get the connection for a realm, rejecting unknown and disconnected realms
+ * Connections are only ever created by the OAuth callback, never on the fly
+ */
+const resolveConnection = async (realmId: string): Promise<QBOConnection> => {
+    const connection = await prisma.qBOConnection.findUnique({
+        where: { realmId }
+    });
+
+    return assertConnected(connection, realmId);
+};
+
+const resolveConnectionId = async (realmId: string): Promise<string> => {
+    return (await resolveConnection(realmId)).id;
+};
+
+const connectionResolver = {
+    resolveConnection,
+    resolveConnectionId
+};
+
+export default connectionResolver;
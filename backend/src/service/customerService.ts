@@ -1,208 +1,222 @@
 // services/customerService.ts
 
-import axios from 'axios';
 import { prisma } from '../config/db';
+import connectionResolver from './connectionResolver';
 import { Customer } from '@prisma/client';
-
-// Helper function to get API base URL
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://quickbooks.api.intuit.com'
-        : 'https://sandbox-quickbooks.api.intuit.com';
-};
-import { QBOCustomer, QBOQueryResponse } from '../types/customer';
+import { QBOCustomer } from '../types/customer';
+import { buildIdFilter, createQboClient, QBOApiError } from './qboClient';
+import { QBOPullOptions, QBOReconcileResult, QBOSaveResult } from '../types/quickbooks';
+import invoiceSyncService from './invoiceSyncService';
 
 /**
- * Find or create QBO connection based on realmId
+ * Save a page of QuickBooks customers, creating the ones we do not have yet
  */
-const findOrCreateConnection = async (realmId: string, accessToken: string): Promise<string> => {
-    try {
-        // First, try to find existing connection by realmId
-        let connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
+const saveCustomersFromQBO = async (customers: QBOCustomer[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+
+    const upsertPromises = customers.map(async (customer: QBOCustomer) => {
+        const existingCustomer = await prisma.customer.findUnique({
+            where: { qboConnectionId_qboCustomerId: { qboConnectionId, qboCustomerId: customer.Id } }
         });
 
-        if (!connection) {
-            // Create new connection if not found
-            console.log(`Creating new QBO connection for realmId: ${realmId}`);
-            connection = await prisma.qBOConnection.create({
+        // Build billing address string from BillAddr object
+        const billingLine1 = customer.BillAddr ? 
+            [
+                customer.BillAddr.Line1,
+                customer.BillAddr.Line2,
+                customer.BillAddr.Line3,
+                customer.BillAddr.Line4,
+                customer.BillAddr.Line5
+            ].filter(Boolean).join(', ') : null;
+
+        const customerData = {
+            displayName: customer.DisplayName || customer.Name,
+            firstName: customer.GivenName || null,
+            lastName: customer.FamilyName || null,
+            email: customer.PrimaryEmailAddr?.Address || null,
+            phone: customer.PrimaryPhone?.FreeFormNumber || null,
+            billingLine1: billingLine1,
+            city: customer.BillAddr?.City || null,
+            state: customer.BillAddr?.CountrySubDivisionCode || null,
+            postalCode: customer.BillAddr?.PostalCode || null,
+            country: customer.BillAddr?.Country || null,
+            syncToken: customer.SyncToken,
+            balance: customer.Balance || null,
+            currency: customer.CurrencyRef?.value || null,
+            active: customer.Active ?? true,
+            updatedAtQB: customer.MetaData?.LastUpdatedTime
+                ? new Date(customer.MetaData.LastUpdatedTime)
+                : null,
+            qboConnectionId // Use the resolved connection ID
+        };
+
+        if (existingCustomer) {
+            // Update existing customer
+            await prisma.customer.update({
+                where: { id: existingCustomer.id },
                 data: {
-                    realmId,
-                    accessToken,
-                    refreshToken: '', // You might want to get this from somewhere
-                    expiresAt: new Date(Date.now() + 3600 * 1000), // 1 hour from now
-                    refreshExpiresAt: new Date(Date.now() + 101 * 24 * 3600 * 1000), // 101 days from now
-                    isConnected: true,
-                    companyName: `Company-${realmId}`, // You can fetch this from QB API
-                    connectedAt: new Date()
+                    ...customerData,
+                    updatedAt: new Date()
                 }
             });
-        } else if (!connection.isConnected) {
-            // Reactivate connection if it was disconnected
-            connection = await prisma.qBOConnection.update({
-                where: { id: connection.id },
+            updated++;
+        } else {
+            // Create new customer
+            await prisma.customer.create({
                 data: {
-                    accessToken,
-                    isConnected: true,
-                    connectedAt: new Date()
+                    qboCustomerId: customer.Id,
+                    ...customerData,
+                    createdAt: new Date(),
+                    updatedAt: new Date()
                 }
             });
+            created++;
         }
+    });
 
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding/creating QBO connection:', error);
-        throw new Error(`Failed to find or create QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    await Promise.all(upsertPromises);
+
+    return { created, updated, skipped: 0 };
+};
+
+/**
+ * Mark customers deleted in QuickBooks as inactive - existing documents may still point at them
+ */
+const markCustomersDeletedInQBO = async (ids: string[], qboConnectionId: string): Promise<number> => {
+    const result = await prisma.customer.updateMany({
+        where: { qboCustomerId: { in: ids }, qboConnectionId },
+        data: { active: false }
+    });
+
+    return result.count;
 };
 
 /**
  * Sync Customers from QuickBooks to database
  * Uses incremental sync based on last updated timestamp
  */
-const syncCustomers = async (accessToken: string, realmId: string): Promise<{
+const syncCustomers = async (accessToken: string, realmId: string, options: QBOPullOptions = {}): Promise<{
     success: boolean;
     totalCustomers: number;
+    pages: number;
     created: number;
     updated: number;
     message: string;
+    reconciliation?: QBOReconcileResult;
 }> => {
     try {
-        // Find or create QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
-        // 1. Find the most recently updated customer in DB for this connection
+        // 1. Find the most recently updated customer we pulled for this connection
+        // Our own updatedAt is set on every save, so only the QuickBooks timestamp is a safe watermark
         const latest = await prisma.customer.findFirst({
-            where: { qboConnectionId },
-            orderBy: { updatedAt: 'desc' },
-            select: { updatedAt: true },
+            where: { qboConnectionId, updatedAtQB: { not: null } },
+            orderBy: { updatedAtQB: 'desc' },
+            select: { updatedAtQB: true },
         });
 
-        // 2. Build dynamic query for incremental sync
-        const query = latest?.updatedAt
-            ? `SELECT * FROM Customer WHERE MetaData.LastUpdatedTime > '${latest.updatedAt.toISOString()}'`
+        // 2. Build dynamic query for incremental sync - a targeted refresh only reads the given records,
+        //    reconciliation reads every record, inactive ones included
+        let query = latest?.updatedAtQB
+            ? `SELECT * FROM Customer WHERE MetaData.LastUpdatedTime > '${latest.updatedAtQB.toISOString()}'`
             : `SELECT * FROM Customer`;
 
+        if (options.ids) {
+            query = `SELECT * FROM Customer WHERE ${buildIdFilter(options.ids)} AND Active IN (true, false)`;
+        } else if (options.reconcile) {
+            query = `SELECT * FROM Customer WHERE Active IN (true, false)`;
+        }
+
         console.log('Executing QuickBooks Customer query:', query);
 
-        // 3. Make API request to QuickBooks
-        const baseUrl = getQboApiBaseUrl();
-        const response = await axios.get<QBOQueryResponse>(
-            `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(query)}`,
-            {
-                headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    Accept: 'application/json',
-                },
+        // 3. Fetch every page from QuickBooks and save each one as it arrives
+        let created = 0;
+        let updated = 0;
+
+        const seenIds = new Set<string>();
+        let inactive = 0;
+
+        const qbo = createQboClient({ accessToken, realmId });
+
+        // Reconciliation needs every record - count them up front so a short read is noticed
+        const expectedCount = options.reconcile ? await qbo.count(query, 'Customer') : 0;
+
+        const { totalRecords, pages } = await qbo.queryAllPages<QBOCustomer>(
+            query,
+            'Customer',
+            async (customers) => {
+                if (options.reconcile) {
+                    customers.forEach(record => seenIds.add(record.Id));
+                    inactive += customers.filter(record => record.Active === false).length;
+                }
+
+                const saved = await saveCustomersFromQBO(customers, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
             }
         );
 
-        const customers = response.data.QueryResponse.Customer || [];
-        console.log(`Fetched ${customers.length} customers from QuickBooks`);
+        console.log(`Fetched ${totalRecords} customers from QuickBooks in ${pages} page(s)`);
+
+        // 4. Reconciliation - records QuickBooks no longer returns at all were deleted there
+        let reconciliation: QBOReconcileResult | undefined;
+        if (options.reconcile) {
+            // Records that were only missed by the read must not be deactivated -
+            // a company QuickBooks counts none for has had every record deleted
+            if (seenIds.size < expectedCount) {
+                throw new Error(`Reconciliation aborted: QuickBooks returned ${seenIds.size} of ${expectedCount} customer(s)`);
+            }
+
+            const vanished = await prisma.customer.updateMany({
+                where: { qboConnectionId, active: true, qboCustomerId: { notIn: Array.from(seenIds) } },
+                data: { active: false }
+            });
+            const warnings = (await invoiceSyncService.findPendingInvoicesWithInactiveReferences(qboConnectionId))
+                .filter(warning => warning.reason === 'INACTIVE_CUSTOMER');
 
-        if (customers.length === 0) {
+            reconciliation = { inactive, vanished: vanished.count, warnings };
+            console.log(`Customer reconciliation: ${inactive} inactive in QuickBooks, ${vanished.count} no longer in QuickBooks`);
+        }
+
+        if (totalRecords === 0) {
             return {
                 success: true,
                 totalCustomers: 0,
                 created: 0,
                 updated: 0,
-                message: 'No new or updated customers found in QuickBooks'
+                pages,
+                message: 'No new or updated customers found in QuickBooks',
+                ...(reconciliation && { reconciliation })
             };
         }
 
-        // 4. Save or update the records in the database
-        let created = 0;
-        let updated = 0;
-
-        const upsertPromises = customers.map(async (customer: QBOCustomer) => {
-            const existingCustomer = await prisma.customer.findUnique({
-                where: { id: customer.Id }
-            });
-
-            // Build billing address string from BillAddr object
-            const billingLine1 = customer.BillAddr ? 
-                [
-                    customer.BillAddr.Line1,
-                    customer.BillAddr.Line2,
-                    customer.BillAddr.Line3,
-                    customer.BillAddr.Line4,
-                    customer.BillAddr.Line5
-                ].filter(Boolean).join(', ') : null;
-
-            const customerData = {
-                displayName: customer.DisplayName || customer.Name,
-                firstName: customer.GivenName || null,
-                lastName: customer.FamilyName || null,
-                email: customer.PrimaryEmailAddr?.Address || null,
-                phone: customer.PrimaryPhone?.FreeFormNumber || null,
-                billingLine1: billingLine1,
-                city: customer.BillAddr?.City || null,
-                state: customer.BillAddr?.CountrySubDivisionCode || null,
-                postalCode: customer.BillAddr?.PostalCode || null,
-                country: customer.BillAddr?.Country || null,
-                syncToken: customer.SyncToken,
-                balance: customer.Balance || null,
-                active: customer.Active ?? true,
-                qboConnectionId // Use the found/created connection ID
-            };
-
-            if (existingCustomer) {
-                // Update existing customer
-                await prisma.customer.update({
-                    where: { id: customer.Id },
-                    data: {
-                        ...customerData,
-                        updatedAt: new Date()
-                    }
-                });
-                updated++;
-            } else {
-                // Create new customer
-                await prisma.customer.create({
-                    data: {
-                        id: customer.Id,
-                        ...customerData,
-                        createdAt: new Date(),
-                        updatedAt: new Date()
-                    }
-                });
-                created++;
-            }
-        });
-
-        await Promise.all(upsertPromises);
-
         // Update connection's last sync timestamp
         await prisma.qBOConnection.update({
             where: { id: qboConnectionId },
             data: { lastSyncAt: new Date() }
         });
 
-        const message = `${customers.length} customer(s) synced successfully: ${created} created, ${updated} updated`;
+        const message = `${totalRecords} customer(s) synced successfully: ${created} created, ${updated} updated`;
         console.log(message);
 
         return {
             success: true,
-            totalCustomers: customers.length,
+            totalCustomers: totalRecords,
+            pages,
             created,
             updated,
-            message
+            message,
+            ...(reconciliation && { reconciliation })
         };
 
     } catch (error) {
         console.error('Error syncing Customers:', error);
         
-        if (axios.isAxiosError(error)) {
-            const qbError = error.response?.data;
-            console.error('QuickBooks API Error:', JSON.stringify(qbError, null, 2));
-            
-            if (error.response?.status === 401) {
-                throw new Error('Authentication failed - token may be expired or invalid');
-            }
-            if (error.response?.status === 403) {
-                throw new Error('Access forbidden - insufficient permissions');
-            }
-            throw new Error(`QuickBooks API error: ${qbError?.Fault?.Error?.[0]?.Detail || error.message}`);
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
         }
 
         throw new Error(`Customer sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -415,6 +429,8 @@ const searchCustomers = async (searchTerm: string, realmId?: string, limit: numb
 // Export service functions
 const customerService = {
     syncCustomers,
+    saveCustomersFromQBO,
+    markCustomersDeletedInQBO,
     getCustomers,
     getCustomerStats,
     getCustomerById,
@@ -1,46 +1,65 @@
 // services/invoiceSyncService.ts
 
-import axios from 'axios';
 import { prisma } from '../config/db';
-import { Invoice, SyncStatus, SyncOperation, TransactionType } from '@prisma/client';
-import pLimit from 'p-limit';
-import { BatchSyncResult, InvoicesSyncStatusResult, InvoiceSyncResult, InvoiceSyncStatusResult, QBOInvoiceLineItem, QBOInvoicePayload, QBOInvoiceResponse } from '../types/invoices';
-
-// Helper function to get API base URL
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://quickbooks.api.intuit.com'
-        : 'https://sandbox-quickbooks.api.intuit.com';
+import connectionResolver from './connectionResolver';
+import { Invoice, InvoiceLine, InvoiceStatus, Prisma, SyncStatus, SyncOperation, TransactionType } from '@prisma/client';
+import { syncRetryConfig } from '../config/syncRetry';
+import { resolveNextRetryAt } from '../utils/retryBackoff';
+import { earliestOf } from '../utils/importWatermark';
+import { buildIdFilter, createQboClient, faultToError, QBO_MAX_BATCH_SIZE, QBOApiError, QBOClient } from './qboClient';
+import { QBOBatchItemRequest, QBOBatchItemResponse, QBOPullOptions, QBOSaveResult } from '../types/quickbooks';
+import { BulkSyncOptions } from '../types/syncJobs';
+import { BatchSyncResult, InactiveReferenceWarning, InvoiceImportResult, InvoiceLineInput, InvoiceLinesResult, InvoicesSyncStatusResult, InvoiceSyncResult, InvoiceSyncStatusResult, QBOInvoice, QBOInvoiceLineItem, QBOInvoicePayload, QBOInvoiceResponse, QBOInvoiceStatusChangePayload, QBOInvoiceUpdatePayload, TaxMismatch } from '../types/invoices';
+
+// Local invoice statuses that are propagated to QuickBooks, and the QBO operation each one maps to
+const QBO_STATUS_OPERATIONS: Partial<Record<InvoiceStatus, 'void' | 'delete'>> = {
+    VOID: 'void',
+    CANCELLED: 'delete'
 };
 
-const findOrCreateConnection = async (realmId: string, accessToken: string): Promise<string> => {
-    try {
-        let connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
-        });
+// Relations needed to build the QuickBooks payload - the customer and line items carry the QuickBooks ids
+const INVOICE_SYNC_INCLUDE = {
+    customer: true,
+    lines: {
+        include: { item: true },
+        orderBy: { lineNum: 'asc' }
+    }
+} satisfies Prisma.InvoiceInclude;
 
-        if (!connection) {
-            console.log(`Creating new QBO connection for realmId: ${realmId}`);
-            connection = await prisma.qBOConnection.create({
-                data: {
-                    realmId,
-                    accessToken,
-                    refreshToken: '',
-                    expiresAt: new Date(Date.now() + 3600 * 1000),
-                    refreshExpiresAt: new Date(Date.now() + 101 * 24 * 3600 * 1000),
-                    isConnected: true,
-                    companyName: `Company-${realmId}`,
-                    connectedAt: new Date()
-                }
-            });
-        }
+type InvoiceWithLines = Prisma.InvoiceGetPayload<{ include: typeof INVOICE_SYNC_INCLUDE }>;
 
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding/creating QBO connection:', error);
-        throw new Error(`Failed to find or create QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+// Lines of a VOID or CANCELLED invoice are final
+const CLOSED_INVOICE_STATUSES: InvoiceStatus[] = ['VOID', 'CANCELLED'];
+
+// Tax differences up to this amount are put down to rounding
+const TAX_MISMATCH_TOLERANCE = 0.01;
+
+// Tax codes synced for one connection, and the codes that mark a line taxable/non-taxable
+interface SyncedTaxCodes {
+    ids: Set<string>;
+    taxable?: string;
+    nonTaxable?: string;
+}
+
+// Payload keys that only address the write - everything else is invoice data we would overwrite
+const QBO_WRITE_CONTROL_FIELDS = ['Id', 'SyncToken', 'sparse'];
+
+/**
+ * Thrown when an invoice was changed in QuickBooks in fields a local update would overwrite
+ */
+class SyncConflictError extends Error {
+    code = 'SYNC_CONFLICT';
+    fields: string[];
+
+    constructor(label: string, fields: string[]) {
+        super(`Invoice ${label} was changed in QuickBooks since the last sync (${fields.join(', ')}) - local changes were not pushed so they do not overwrite it`);
+        this.name = 'SyncConflictError';
+        this.fields = fields;
     }
-};
+}
+
+// SyncWatermark entity the incremental invoice import continues from
+const INVOICE_IMPORT_WATERMARK = 'InvoiceImport';
 
 /**
  * Create sync log entry
@@ -80,7 +99,12 @@ const createSyncLog = async (data: {
                     responsePayload: data.responsePayload,
                     errorMessage: data.errorMessage,
                     errorCode: data.errorCode,
-                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined
+                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined,
+                    // Schedule the next automatic retry (cleared on success or once retries are exhausted) -
+                    // while a claimed retry is in flight the retry worker's lease is left in place
+                    nextRetryAt: data.status === 'IN_PROGRESS' && existingSyncLog.status === 'RETRY'
+                        ? undefined
+                        : resolveNextRetryAt(data.status, existingSyncLog.retryCount, existingSyncLog.maxRetries)
                 }
             });
         } else {
@@ -99,7 +123,9 @@ const createSyncLog = async (data: {
                     errorMessage: data.errorMessage,
                     errorCode: data.errorCode,
                     startedAt: new Date(),
-                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined
+                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined,
+                    maxRetries: syncRetryConfig.maxRetries,
+                    nextRetryAt: resolveNextRetryAt(data.status, 0, syncRetryConfig.maxRetries)
                 }
             });
         }
@@ -110,34 +136,63 @@ const createSyncLog = async (data: {
 
 /**
  * Transform our invoice line items to QuickBooks format
+ * taxCodes holds the tax codes synced for the invoice's connection
  */
-const transformLineItemsToQBO = (lineItems: any[]): QBOInvoiceLineItem[] => {
+const transformLineItemsToQBO = (lines: InvoiceWithLines['lines'], taxCodes: SyncedTaxCodes): QBOInvoiceLineItem[] => {
     const qboLineItems: QBOInvoiceLineItem[] = [];
 
-    for (const item of lineItems) {
-        if (item.detailType === 'SalesItemLineDetail') {
+    for (const line of lines) {
+        if (line.detailType === 'SalesItemLineDetail') {
+            if (!line.item) {
+                throw new Error(`Invalid invoice line ${line.lineNum}: an item is required on sales lines`);
+            }
+
             // Include essential fields that QBO expects
             // For inventory items, Qty is required; for service items, it's optional
-            const salesItemLineDetail: any = {
+            const salesItemLineDetail: NonNullable<QBOInvoiceLineItem['SalesItemLineDetail']> = {
                 ItemRef: {
-                    value: item.itemRef,
-                    name: item.itemName
+                    value: line.item.qboItemId,
+                    name: line.item.name
                 }
             };
 
             // Always include quantity if available (required for inventory items)
-            if (item.quantity !== undefined && item.quantity !== null) {
-                salesItemLineDetail.Qty = item.quantity;
+            if (line.quantity !== null) {
+                salesItemLineDetail.Qty = line.quantity;
+            }
+
+            if (line.unitPrice !== null) {
+                salesItemLineDetail.UnitPrice = line.unitPrice;
+            }
+
+            // An explicit line code wins, then the item's sales tax code, then the company's taxable/non-taxable code
+            // picked by the item's taxable flag - only codes the company actually has are sent, otherwise QuickBooks
+            // applies its own default
+            const explicitTaxCode = line.taxCode ?? line.item.salesTaxCodeRef;
+            const taxCode = explicitTaxCode && taxCodes.ids.has(explicitTaxCode)
+                ? explicitTaxCode
+                : line.item.taxable === true
+                    ? taxCodes.taxable
+                    : line.item.taxable === false ? taxCodes.nonTaxable : undefined;
+            if (taxCode) {
+                salesItemLineDetail.TaxCodeRef = { value: taxCode };
             }
 
             qboLineItems.push({
                 DetailType: 'SalesItemLineDetail',
-                Amount: item.amount,
+                Amount: line.amount,
+                ...(line.description && { Description: line.description }),
                 SalesItemLineDetail: salesItemLineDetail
             });
+        } else if (line.detailType === 'DescriptionOnly') {
+            qboLineItems.push({
+                DetailType: 'DescriptionOnly',
+                Amount: line.amount,
+                ...(line.description && { Description: line.description }),
+                DescriptionLineDetail: {}
+            });
         }
-        // Skip tax line items for now as they might be causing issues
-        // QBO can calculate taxes automatically based on customer settings
+        // Tax lines are not sent as lines - the invoice's tax goes in TxnTaxDetail
     }
 
     return qboLineItems;
@@ -145,23 +200,579 @@ const transformLineItemsToQBO = (lineItems: any[]): QBOInvoiceLineItem[] => {
 
 
 
+/**
+ * Currency and exchange rate QuickBooks recorded on a transaction
+ * Left out when QuickBooks has none (multicurrency off), so local values are kept
+ */
+const currencyFromQBO = (qboInvoice: QBOInvoice): { currency?: string; exchangeRate?: number } => ({
+    ...(qboInvoice.CurrencyRef?.value && { currency: qboInvoice.CurrencyRef.value }),
+    ...(qboInvoice.ExchangeRate !== undefined && { exchangeRate: qboInvoice.ExchangeRate })
+});
+
+/**
+ * Round a currency amount to cents
+ */
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Compare the tax on an invoice (total minus subtotal) with the tax QuickBooks computed for it
+ */
+const getTaxMismatch = (
+    invoice: Pick<Invoice, 'id' | 'docNumber' | 'subtotal' | 'total' | 'qboTotalTax'>
+): TaxMismatch | null => {
+    if (invoice.qboTotalTax === null) {
+        return null;
+    }
+
+    const localTax = roundAmount(invoice.total - invoice.subtotal);
+    const difference = roundAmount(invoice.qboTotalTax - localTax);
+
+    if (Math.abs(difference) <= TAX_MISMATCH_TOLERANCE) {
+        return null;
+    }
+
+    return {
+        invoiceId: invoice.id,
+        docNumber: invoice.docNumber,
+        localTax,
+        qboTax: invoice.qboTotalTax,
+        difference
+    };
+};
+
+/**
+ * Log a warning when QuickBooks computed a different tax than we have for an invoice
+ */
+const warnOnTaxMismatch = (invoice: Pick<Invoice, 'id' | 'docNumber' | 'subtotal' | 'total' | 'qboTotalTax'>): void => {
+    const mismatch = getTaxMismatch(invoice);
+    if (mismatch) {
+        console.warn(`⚠️ Invoice ${invoice.docNumber || invoice.id}: QuickBooks tax ${mismatch.qboTax} differs from local tax ${mismatch.localTax} by ${mismatch.difference}`);
+    }
+};
+
+/**
+ * Check whether sendLater was changed locally since QuickBooks last reported the invoice's email status
+ * An invoice QuickBooks has already emailed counts as sent, so it is never reset or queued again
+ */
+const emailStatusChanged = (invoice: Pick<Invoice, 'sendLater' | 'qboEmailStatus'>): boolean => {
+    if (invoice.qboEmailStatus === 'EmailSent') {
+        return false;
+    }
+    return invoice.sendLater !== (invoice.qboEmailStatus === 'NeedToSend');
+};
+
+/**
+ * Format a date as the YYYY-MM-DD string QuickBooks expects for transaction dates
+ */
+const toQBODate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Load the active tax codes synced for a connection
+ * US companies mark lines with the TAX/NON codes; elsewhere the first plain code with the matching taxable flag is used
+ */
+const loadSyncedTaxCodes = async (qboConnectionId: string): Promise<SyncedTaxCodes> => {
+    const taxCodes = await prisma.taxCode.findMany({
+        where: { qboConnectionId, active: true },
+        select: { qboTaxCodeId: true, taxable: true, taxGroup: true },
+        orderBy: { qboTaxCodeId: 'asc' }
+    });
+    const ids = new Set(taxCodes.map(taxCode => taxCode.qboTaxCodeId));
+    const withTaxable = (taxable: boolean) => taxCodes.find(taxCode => taxCode.taxable === taxable && !taxCode.taxGroup)?.qboTaxCodeId;
+
+    return {
+        ids,
+        taxable: ids.has('TAX') ? 'TAX' : withTaxable(true),
+        nonTaxable: ids.has('NON') ? 'NON' : withTaxable(false)
+    };
+};
+
 /**
  * Transform our invoice to QuickBooks format
+ * Optional fields are only sent when set, so a sparse update never clears them in QuickBooks
  */
-const transformInvoiceToQBO = async (invoice: Invoice & { customer: any }): Promise<QBOInvoicePayload> => {
-    const lineItems = Array.isArray(invoice.lineItems) ? invoice.lineItems : [];
+const transformInvoiceToQBO = async (invoice: InvoiceWithLines): Promise<QBOInvoicePayload> => {
+    // QuickBooks only accepts invoices in the customer's currency
+    if (invoice.currency && invoice.customer.currency && invoice.currency !== invoice.customer.currency) {
+        throw new Error(`Invalid currency: invoice is in ${invoice.currency} but customer ${invoice.customer.displayName} uses ${invoice.customer.currency}`);
+    }
+
+    const taxCodes = await loadSyncedTaxCodes(invoice.qboConnectionId);
 
-    // Create a minimal payload that matches QBO's expected format
     const qboPayload: QBOInvoicePayload = {
-        Line: transformLineItemsToQBO(lineItems),
+        Line: transformLineItemsToQBO(invoice.lines, taxCodes),
         CustomerRef: {
-            value: invoice.customerId
-        }
+            value: invoice.customer.qboCustomerId
+        },
+        TxnDate: toQBODate(invoice.invoiceDate),
+        DueDate: toQBODate(invoice.dueDate)
     };
 
+    // Sparse updates leave the email status alone unless sendLater changed, so an invoice emailed from QuickBooks keeps its status
+    if (!invoice.qboInvoiceId || emailStatusChanged(invoice)) {
+        // Invoices queued for sending are emailed by QuickBooks, which needs an address to send to
+        if (invoice.sendLater && !invoice.customer.email) {
+            throw new Error(`Invalid invoice: ${invoice.docNumber || invoice.id} is queued for sending but customer ${invoice.customer.displayName} has no email address`);
+        }
+        qboPayload.EmailStatus = invoice.sendLater ? 'NeedToSend' : 'NotSet';
+    }
+
+    if (invoice.docNumber) {
+        qboPayload.DocNumber = invoice.docNumber;
+    }
+
+    if (invoice.billingAddress) {
+        qboPayload.BillAddr = { Line1: invoice.billingAddress };
+    }
+
+    if (invoice.salesTermRef) {
+        qboPayload.SalesTermRef = { value: invoice.salesTermRef };
+    }
+
+    if (invoice.privateNote) {
+        qboPayload.PrivateNote = invoice.privateNote;
+    }
+
+    if (invoice.sendLater && invoice.customer.email) {
+        qboPayload.BillEmail = { Address: invoice.customer.email };
+    }
+
+    const currency = invoice.currency ?? invoice.customer.currency;
+    if (currency) {
+        qboPayload.CurrencyRef = { value: currency };
+    }
+
+    if (invoice.exchangeRate) {
+        qboPayload.ExchangeRate = invoice.exchangeRate;
+    }
+
+    // QuickBooks computes the tax itself; what it comes back with is compared with ours after the sync
+    if (invoice.txnTaxCodeRef && taxCodes.ids.has(invoice.txnTaxCodeRef)) {
+        qboPayload.TxnTaxDetail = { TxnTaxCodeRef: { value: invoice.txnTaxCodeRef } };
+    }
+
     return qboPayload;
 };
 
+/**
+ * Check whether a synced invoice has local changes that have not reached QuickBooks yet
+ */
+const hasLocalChanges = (invoice: Invoice): boolean => {
+    if (invoice.syncStatus === 'FAILED' || !invoice.lastSyncedAt) {
+        return true;
+    }
+    return invoice.updatedAt.getTime() > invoice.lastSyncedAt.getTime();
+};
+
+/**
+ * List the fields of a write payload that were changed in QuickBooks since our last successful push
+ * The invoice as QuickBooks returned it on that push is the baseline; without one every sent field counts as changed
+ */
+const findConflictingFields = async (
+    invoiceId: string,
+    qboConnectionId: string,
+    payload: object,
+    remoteInvoice: QBOInvoice
+): Promise<string[]> => {
+    const lastPush = await prisma.syncLog.findFirst({
+        where: {
+            transactionType: 'INVOICE',
+            systemTransactionId: invoiceId,
+            qboConnectionId,
+            operation: { in: ['CREATE', 'UPDATE'] },
+            status: 'SUCCESS'
+        },
+        orderBy: { completedAt: 'desc' },
+        select: { responsePayload: true }
+    });
+    const baseline = (lastPush?.responsePayload as { Invoice?: Record<string, unknown> } | null)?.Invoice;
+    const remote = remoteInvoice as unknown as Record<string, unknown>;
+
+    return Object.keys(payload)
+        .filter(field => !QBO_WRITE_CONTROL_FIELDS.includes(field))
+        .filter(field => !baseline || JSON.stringify(remote[field]) !== JSON.stringify(baseline[field]));
+};
+
+/**
+ * Send a write that carries the invoice's SyncToken
+ * If QuickBooks reports the token as stale, the invoice is re-read once and the write is resent with the current token -
+ * unless findConflicts reports that the remote change touched fields the write would overwrite
+ */
+const sendWithCurrentSyncToken = async <T>(
+    qbo: QBOClient,
+    payload: { Id: string; SyncToken: string },
+    label: string,
+    send: () => Promise<T>,
+    findConflicts?: (remoteInvoice: QBOInvoice) => Promise<string[]>
+): Promise<T> => {
+    try {
+        return await send();
+    } catch (error) {
+        if (!(error instanceof QBOApiError) || !error.isStaleObject) {
+            throw error;
+        }
+
+        // Someone changed the invoice in QuickBooks since our last sync - pick up the current SyncToken and resend
+        const remoteInvoice = await qbo.read<QBOInvoice>('Invoice', payload.Id);
+
+        const conflicts = findConflicts ? await findConflicts(remoteInvoice) : [];
+        if (conflicts.length > 0) {
+            throw new SyncConflictError(label, conflicts);
+        }
+
+        console.log(`🔄 Stale SyncToken for invoice ${label}, retrying with SyncToken ${remoteInvoice.SyncToken}`);
+
+        payload.SyncToken = remoteInvoice.SyncToken;
+        return await send();
+    }
+};
+
+/**
+ * Count synced payments that are still linked to an invoice in QuickBooks
+ * A cancelled payment only stops counting once its delete has reached QuickBooks
+ */
+const countLinkedSyncedPayments = async (invoiceId: string): Promise<number> => {
+    return prisma.payment.count({
+        where: {
+            invoiceId,
+            qboPaymentId: { not: null },
+            NOT: { status: 'CANCELLED', syncStatus: 'SUCCESS' }
+        }
+    });
+};
+
+/**
+ * Void or delete an already synced invoice in QuickBooks after it was voided/cancelled locally
+ * Logged as a DELETE sync operation; a stale SyncToken is resolved by re-reading the invoice
+ */
+const voidOrDeleteInvoiceInQBO = async (
+    invoice: Invoice,
+    qboConnectionId: string,
+    accessToken: string,
+    realmId: string
+): Promise<InvoiceSyncResult> => {
+    const qboInvoiceId = invoice.qboInvoiceId!;
+    const operation = QBO_STATUS_OPERATIONS[invoice.status]!;
+
+    try {
+        const linkedPayments = await countLinkedSyncedPayments(invoice.id);
+        if (linkedPayments > 0) {
+            return {
+                success: false,
+                message: `Invoice ${invoice.docNumber} cannot be ${operation === 'void' ? 'voided' : 'deleted'} in QuickBooks while ${linkedPayments} synced payment(s) are still linked to it`,
+                error: 'LINKED_PAYMENTS'
+            };
+        }
+
+        const qboPayload: QBOInvoiceStatusChangePayload = {
+            Id: qboInvoiceId,
+            SyncToken: invoice.syncToken || '0'
+        };
+
+        console.log(`Sending ${operation} for invoice ${invoice.docNumber} to QuickBooks...`);
+
+        await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { syncStatus: 'IN_PROGRESS' }
+        });
+
+        await createSyncLog({
+            transactionType: 'INVOICE',
+            systemTransactionId: invoice.id,
+            quickbooksId: qboInvoiceId,
+            status: 'IN_PROGRESS',
+            operation: 'DELETE',
+            qboConnectionId,
+            invoiceId: invoice.id,
+            requestPayload: { operation, ...qboPayload }
+        });
+
+        const qbo = createQboClient({ accessToken, realmId });
+        const { entity: qboInvoice, response: responseData } = await sendWithCurrentSyncToken(
+            qbo,
+            qboPayload,
+            invoice.docNumber || invoice.id,
+            () => operation === 'void'
+                ? qbo.voidTransaction<QBOInvoice>('Invoice', qboPayload)
+                : qbo.delete<QBOInvoice>('Invoice', qboPayload)
+        );
+
+        // A deleted invoice comes back without a SyncToken - keep the last one we had
+        const syncToken = qboInvoice.SyncToken ?? qboPayload.SyncToken;
+
+        const syncedAt = new Date();
+        await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: {
+                syncToken,
+                syncStatus: 'SUCCESS',
+                lastSyncedAt: syncedAt,
+                updatedAt: syncedAt
+            }
+        });
+
+        await createSyncLog({
+            transactionType: 'INVOICE',
+            systemTransactionId: invoice.id,
+            quickbooksId: qboInvoiceId,
+            status: 'SUCCESS',
+            operation: 'DELETE',
+            qboConnectionId,
+            invoiceId: invoice.id,
+            requestPayload: { operation, ...qboPayload },
+            responsePayload: responseData
+        });
+
+        console.log(`✅ Invoice ${invoice.docNumber} ${operation === 'void' ? 'voided' : 'deleted'} in QuickBooks`);
+
+        return {
+            success: true,
+            qboInvoiceId,
+            syncToken,
+            message: `Invoice ${invoice.docNumber} ${operation === 'void' ? 'voided' : 'deleted'} in QuickBooks`
+        };
+
+    } catch (error) {
+        console.error(`❌ Error sending ${operation} for invoice ${invoice.id}:`, error);
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR';
+
+        if (error instanceof QBOApiError && error.responseData) {
+            console.error('QuickBooks Fault Details:', JSON.stringify(error.responseData, null, 2));
+        }
+
+        try {
+            await prisma.invoice.update({
+                where: { id: invoice.id },
+                data: { syncStatus: 'FAILED' }
+            });
+
+            await createSyncLog({
+                transactionType: 'INVOICE',
+                systemTransactionId: invoice.id,
+                quickbooksId: qboInvoiceId,
+                status: 'FAILED',
+                operation: 'DELETE',
+                qboConnectionId,
+                invoiceId: invoice.id,
+                errorMessage,
+                errorCode,
+                responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+            });
+        } catch (logError) {
+            console.error('Error updating invoice status or creating error log:', logError);
+        }
+
+        return {
+            success: false,
+            message: `Failed to ${operation} invoice: ${errorMessage}`,
+            error: errorMessage
+        };
+    }
+};
+
+/**
+ * Push local changes of an already synced invoice to QuickBooks as a sparse update
+ * A stale SyncToken is resolved by re-reading the invoice from QuickBooks and sending the update once more
+ */
+const updateInvoiceInQBO = async (
+    invoice: InvoiceWithLines,
+    qboConnectionId: string,
+    accessToken: string,
+    realmId: string
+): Promise<InvoiceSyncResult> => {
+    const qboInvoiceId = invoice.qboInvoiceId!;
+
+    try {
+        const qboPayload: QBOInvoiceUpdatePayload = {
+            ...(await transformInvoiceToQBO(invoice)),
+            Id: qboInvoiceId,
+            SyncToken: invoice.syncToken || '0',
+            sparse: true
+        };
+
+        console.log(`Updating invoice ${invoice.docNumber} in QuickBooks (SyncToken: ${qboPayload.SyncToken})...`);
+
+        await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: { syncStatus: 'IN_PROGRESS' }
+        });
+
+        await createSyncLog({
+            transactionType: 'INVOICE',
+            systemTransactionId: invoice.id,
+            quickbooksId: qboInvoiceId,
+            status: 'IN_PROGRESS',
+            operation: 'UPDATE',
+            qboConnectionId,
+            invoiceId: invoice.id,
+            requestPayload: qboPayload
+        });
+
+        const qbo = createQboClient({ accessToken, realmId });
+        const { entity: qboInvoice, response: responseData } = await sendWithCurrentSyncToken(
+            qbo,
+            qboPayload,
+            invoice.docNumber || invoice.id,
+            () => qbo.update<QBOInvoice>('Invoice', qboPayload),
+            remoteInvoice => findConflictingFields(invoice.id, qboConnectionId, qboPayload, remoteInvoice)
+        );
+
+        const syncedAt = new Date();
+        const updatedInvoice = await prisma.invoice.update({
+            where: { id: invoice.id },
+            data: {
+                syncToken: qboInvoice.SyncToken,
+                qboTotalTax: qboInvoice.TxnTaxDetail?.TotalTax ?? null,
+                qboEmailStatus: qboInvoice.EmailStatus ?? null,
+                ...currencyFromQBO(qboInvoice),
+                sparse: true,
+                syncStatus: 'SUCCESS',
+                lastSyncedAt: syncedAt,
+                updatedAt: syncedAt
+            }
+        });
+        warnOnTaxMismatch(updatedInvoice);
+
+        await createSyncLog({
+            transactionType: 'INVOICE',
+            systemTransactionId: invoice.id,
+            quickbooksId: qboInvoice.Id,
+            status: 'SUCCESS',
+            operation: 'UPDATE',
+            qboConnectionId,
+            invoiceId: invoice.id,
+            requestPayload: qboPayload,
+            responsePayload: responseData
+        });
+
+        console.log(`✅ Invoice ${invoice.docNumber} updated successfully. SyncToken: ${qboInvoice.SyncToken}`);
+
+        return {
+            success: true,
+            qboInvoiceId: qboInvoice.Id,
+            syncToken: qboInvoice.SyncToken,
+            message: `Invoice ${invoice.docNumber} updated successfully in QuickBooks`
+        };
+
+    } catch (error) {
+        console.error(`❌ Error updating invoice ${invoice.id}:`, error);
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = error instanceof QBOApiError
+            ? error.logCode
+            : error instanceof SyncConflictError ? error.code : 'SYNC_ERROR';
+
+        if (error instanceof QBOApiError && error.responseData) {
+            console.error('QuickBooks Fault Details:', JSON.stringify(error.responseData, null, 2));
+        }
+
+        // lastSyncedAt is left untouched so the local changes are still detected on the next attempt
+        try {
+            await prisma.invoice.update({
+                where: { id: invoice.id },
+                data: { syncStatus: 'FAILED' }
+            });
+
+            await createSyncLog({
+                transactionType: 'INVOICE',
+                systemTransactionId: invoice.id,
+                quickbooksId: qboInvoiceId,
+                status: 'FAILED',
+                operation: 'UPDATE',
+                qboConnectionId,
+                invoiceId: invoice.id,
+                errorMessage,
+                errorCode,
+                responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+            });
+
+            // Retrying cannot resolve a conflict - someone has to reconcile the invoice first
+            if (error instanceof SyncConflictError) {
+                await prisma.syncLog.updateMany({
+                    where: { transactionType: 'INVOICE', systemTransactionId: invoice.id, operation: 'UPDATE', qboConnectionId },
+                    data: { nextRetryAt: null }
+                });
+            }
+        } catch (logError) {
+            console.error('Error updating invoice status or creating error log:', logError);
+        }
+
+        return {
+            success: false,
+            message: `Failed to update invoice: ${errorMessage}`,
+            error: error instanceof SyncConflictError ? error.code : errorMessage
+        };
+    }
+};
+
+/**
+ * Store the QuickBooks ID on a newly created invoice and log the successful CREATE
+ * updatedAt is pinned to lastSyncedAt so later local edits can be detected
+ */
+const markInvoiceCreated = async (
+    invoiceId: string,
+    qboConnectionId: string,
+    qboInvoice: QBOInvoice,
+    requestPayload: QBOInvoicePayload,
+    responsePayload: any
+): Promise<void> => {
+    const syncedAt = new Date();
+    const invoice = await prisma.invoice.update({
+        where: { id: invoiceId },
+        data: {
+            qboInvoiceId: qboInvoice.Id,
+            syncToken: qboInvoice.SyncToken,
+            qboTotalTax: qboInvoice.TxnTaxDetail?.TotalTax ?? null,
+            qboEmailStatus: qboInvoice.EmailStatus ?? null,
+            ...currencyFromQBO(qboInvoice),
+            syncStatus: 'SUCCESS',
+            lastSyncedAt: syncedAt,
+            updatedAt: syncedAt
+        }
+    });
+    warnOnTaxMismatch(invoice);
+
+    await createSyncLog({
+        transactionType: 'INVOICE',
+        systemTransactionId: invoiceId,
+        quickbooksId: qboInvoice.Id,
+        status: 'SUCCESS',
+        operation: 'CREATE',
+        qboConnectionId,
+        invoiceId,
+        requestPayload,
+        responsePayload
+    });
+};
+
+/**
+ * Mark an invoice as FAILED after its CREATE was rejected and log the error
+ */
+const markInvoiceCreateFailed = async (
+    invoiceId: string,
+    qboConnectionId: string,
+    failure: { errorMessage: string; errorCode: string; responsePayload?: any }
+): Promise<void> => {
+    await prisma.invoice.update({
+        where: { id: invoiceId },
+        data: {
+            syncStatus: 'FAILED',
+            lastSyncedAt: new Date()
+        }
+    });
+
+    await createSyncLog({
+        transactionType: 'INVOICE',
+        systemTransactionId: invoiceId,
+        status: 'FAILED',
+        operation: 'CREATE',
+        qboConnectionId,
+        invoiceId,
+        ...failure
+    });
+};
+
 /**
  * Sync single invoice to QuickBooks
  */
@@ -172,21 +783,30 @@ const syncInvoiceToQBO = async (
 ): Promise<InvoiceSyncResult> => {
     try {
         // Get QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
-        // Fetch invoice with customer details
-        const invoice = await prisma.invoice.findUnique({
-            where: { id: invoiceId },
-            include: {
-                customer: true
-            }
+        // Fetch invoice with customer and line item details - only invoices of the connection being synced to
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId },
+            include: INVOICE_SYNC_INCLUDE
         });
 
         if (!invoice) {
-            throw new Error(`Invoice with ID ${invoiceId} not found`);
+            return {
+                success: false,
+                message: `Invoice with ID ${invoiceId} not found`,
+                error: 'NOT_FOUND'
+            };
         }
 
         if (invoice.qboInvoiceId) {
+            // Already in QuickBooks - push local edits as a void/delete or a sparse update instead
+            if (hasLocalChanges(invoice)) {
+                return QBO_STATUS_OPERATIONS[invoice.status]
+                    ? await voidOrDeleteInvoiceInQBO(invoice, qboConnectionId, accessToken, realmId)
+                    : await updateInvoiceInQBO(invoice, qboConnectionId, accessToken, realmId);
+            }
+
             return {
                 success: false,
                 message: `Invoice ${invoice.docNumber} is already synced to QuickBooks (ID: ${invoice.qboInvoiceId})`,
@@ -217,138 +837,358 @@ const syncInvoiceToQBO = async (
         });
 
         // Make API call to QuickBooks
-        const baseUrl = getQboApiBaseUrl();
-        const response = await axios.post<QBOInvoiceResponse>(
-            `${baseUrl}/v3/company/${realmId}/invoice`,
-            qboPayload,
-            {
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                }
+        const qbo = createQboClient({ accessToken, realmId });
+        const { entity: qboInvoice, response: responseData } = await qbo.create<QBOInvoice>('Invoice', qboPayload);
+
+        await markInvoiceCreated(invoiceId, qboConnectionId, qboInvoice, qboPayload, responseData);
+
+        console.log(`✅ Invoice ${invoice.docNumber} synced successfully. QBO ID: ${qboInvoice.Id}`);
+
+        return {
+            success: true,
+            qboInvoiceId: qboInvoice.Id,
+            syncToken: qboInvoice.SyncToken,
+            message: `Invoice ${invoice.docNumber} synced successfully to QuickBooks`
+        };
+
+    } catch (error) {
+        console.error(`❌ Error syncing invoice ${invoiceId}:`, error);
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR';
+
+        // Log the QuickBooks response that caused the error
+        if (error instanceof QBOApiError && error.responseData) {
+            console.error('Full QuickBooks API Error Response:', JSON.stringify(error.responseData, null, 2));
+        }
+
+        // Update invoice sync status to FAILED
+        try {
+            // Get connection for error log
+            const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+            await markInvoiceCreateFailed(invoiceId, qboConnectionId, {
+                errorMessage,
+                errorCode,
+                responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+            });
+        } catch (logError) {
+            console.error('Error updating invoice status or creating error log:', logError);
+        }
+
+        return {
+            success: false,
+            message: `Failed to sync invoice: ${errorMessage}`,
+            error: errorMessage
+        };
+    }
+};
+
+/**
+ * Manually retry a single invoice sync
+ * The retry is recorded as a new attempt on the existing sync log before the invoice is re-pushed
+ */
+const retryInvoiceSyncToQBO = async (
+    invoiceId: string,
+    accessToken: string,
+    realmId: string
+): Promise<InvoiceSyncResult> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId }
+        });
+
+        if (!invoice) {
+            return {
+                success: false,
+                message: `Invoice with ID ${invoiceId} not found`,
+                error: 'NOT_FOUND'
+            };
+        }
+
+        // Nothing left to push - the sync below reports ALREADY_SYNCED and the log keeps its status
+        if (invoice.qboInvoiceId && !hasLocalChanges(invoice)) {
+            return await syncInvoiceToQBO(invoiceId, accessToken, realmId);
+        }
+
+        // Invoices already in QuickBooks are retried as a void/delete or a sparse update
+        let operation: SyncOperation = 'CREATE';
+        if (invoice.qboInvoiceId) {
+            operation = QBO_STATUS_OPERATIONS[invoice.status] ? 'DELETE' : 'UPDATE';
+        }
+
+        await prisma.syncLog.updateMany({
+            where: {
+                transactionType: 'INVOICE',
+                systemTransactionId: invoiceId,
+                operation,
+                qboConnectionId
+            },
+            data: {
+                status: 'RETRY',
+                retryCount: { increment: 1 },
+                nextRetryAt: null,
+                startedAt: new Date()
             }
-        );
+        });
 
-        // Check for QuickBooks errors
-        if (response.data.Fault) {
-            const error = response.data.Fault.Error[0];
-            throw new Error(`QuickBooks API Error: ${error.Detail} (Code: ${error.code})`);
+        return await syncInvoiceToQBO(invoiceId, accessToken, realmId);
+    } catch (error) {
+        throw new Error(`Failed to retry invoice sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Change the local status of an invoice
+ * Moving a synced invoice to VOID/CANCELLED voids/deletes it in QuickBooks as well
+ */
+const updateInvoiceStatus = async (
+    invoiceId: string,
+    status: InvoiceStatus,
+    accessToken: string,
+    realmId: string
+): Promise<InvoiceSyncResult> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId }
+        });
+
+        if (!invoice) {
+            throw new Error(`Invoice with ID ${invoiceId} not found`);
+        }
+
+        const propagate = !!invoice.qboInvoiceId && !!QBO_STATUS_OPERATIONS[status];
+
+        if (invoice.qboInvoiceId && QBO_STATUS_OPERATIONS[invoice.status] && invoice.status !== status) {
+            return {
+                success: false,
+                message: `Invoice ${invoice.docNumber} is ${invoice.status} in QuickBooks and cannot be moved to ${status}`,
+                error: 'INVALID_STATUS_TRANSITION'
+            };
         }
 
-        const qboInvoice = response.data.Invoice;
-        if (!qboInvoice) {
-            throw new Error('No invoice data returned from QuickBooks');
+        // Refuse the transition up front rather than leaving the invoice voided locally but not in QuickBooks
+        if (propagate) {
+            const linkedPayments = await countLinkedSyncedPayments(invoiceId);
+            if (linkedPayments > 0) {
+                return {
+                    success: false,
+                    message: `Invoice ${invoice.docNumber} cannot be set to ${status} while ${linkedPayments} synced payment(s) are still linked to it`,
+                    error: 'LINKED_PAYMENTS'
+                };
+            }
         }
 
-        // Update our invoice with QuickBooks ID
-        await prisma.invoice.update({
+        const updatedInvoice = await prisma.invoice.update({
             where: { id: invoiceId },
             data: {
-                qboInvoiceId: qboInvoice.Id,
-                syncToken: qboInvoice.SyncToken,
-                syncStatus: 'SUCCESS',
-                lastSyncedAt: new Date()
+                status,
+                ...(propagate && { syncStatus: 'PENDING' })
             }
         });
 
-        // Create success sync log
-        await createSyncLog({
-            transactionType: 'INVOICE',
-            systemTransactionId: invoiceId,
-            quickbooksId: qboInvoice.Id,
-            status: 'SUCCESS',
-            operation: 'CREATE',
-            qboConnectionId,
-            invoiceId,
-            requestPayload: qboPayload,
-            responsePayload: response.data
+        if (!propagate) {
+            return {
+                success: true,
+                qboInvoiceId: invoice.qboInvoiceId ?? undefined,
+                syncToken: invoice.syncToken ?? undefined,
+                message: `Invoice ${invoice.docNumber} status updated to ${status}`
+            };
+        }
+
+        return await voidOrDeleteInvoiceInQBO(updatedInvoice, qboConnectionId, accessToken, realmId);
+    } catch (error) {
+        throw new Error(`Failed to update invoice status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Push new invoices through the QuickBooks batch endpoint, up to 30 invoices per request
+ * Each BatchItemResponse is matched back to its invoice by bId (the invoice ID), so every invoice keeps its own sync log
+ */
+const syncInvoicesWithBatchApi = async (
+    invoices: InvoiceWithLines[],
+    qboConnectionId: string,
+    accessToken: string,
+    realmId: string,
+    options: BulkSyncOptions
+): Promise<BatchSyncResult> => {
+    let qbo = createQboClient({ accessToken, realmId });
+    const results: BatchSyncResult['results'] = [];
+    const totalBatches = Math.ceil(invoices.length / QBO_MAX_BATCH_SIZE);
+
+    const recordFailure = async (invoice: Invoice, failure: { errorMessage: string; errorCode: string; responsePayload?: any }) => {
+        try {
+            await markInvoiceCreateFailed(invoice.id, qboConnectionId, failure);
+        } catch (logError) {
+            console.error('Error updating invoice status or creating error log:', logError);
+        }
+
+        console.log(`❌ Invoice ${invoice.docNumber} failed: ${failure.errorMessage}`);
+        results.push({
+            invoiceId: invoice.id,
+            docNumber: invoice.docNumber || `Invoice-${invoice.id}`,
+            success: false,
+            message: `Failed to sync invoice: ${failure.errorMessage}`,
+            error: failure.errorMessage
         });
+    };
 
-        console.log(`✅ Invoice ${invoice.docNumber} synced successfully. QBO ID: ${qboInvoice.Id}`);
+    /**
+     * Send one batch request and record the outcome of every invoice in it
+     */
+    const sendBatch = async (batch: typeof invoices, batchNumber: number): Promise<void> => {
+        console.log(`📦 Sending batch request ${batchNumber}/${totalBatches} (${batch.length} invoices)`);
+
+        // Build one batch item per invoice; invoices that cannot be transformed fail without being sent
+        const items: QBOBatchItemRequest[] = [];
+        const payloads = new Map<string, QBOInvoicePayload>();
+
+        for (const invoice of batch) {
+            try {
+                const qboPayload = await transformInvoiceToQBO(invoice);
+
+                await prisma.invoice.update({
+                    where: { id: invoice.id },
+                    data: { syncStatus: 'IN_PROGRESS' }
+                });
+
+                await createSyncLog({
+                    transactionType: 'INVOICE',
+                    systemTransactionId: invoice.id,
+                    status: 'IN_PROGRESS',
+                    operation: 'CREATE',
+                    qboConnectionId,
+                    invoiceId: invoice.id,
+                    requestPayload: qboPayload
+                });
+
+                payloads.set(invoice.id, qboPayload);
+                items.push({ bId: invoice.id, operation: 'create', Invoice: qboPayload });
+            } catch (error) {
+                await recordFailure(invoice, {
+                    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                    errorCode: 'SYNC_ERROR'
+                });
+            }
+        }
 
-        return {
-            success: true,
-            qboInvoiceId: qboInvoice.Id,
-            syncToken: qboInvoice.SyncToken,
-            message: `Invoice ${invoice.docNumber} synced successfully to QuickBooks`
-        };
+        if (items.length === 0) {
+            return;
+        }
 
-    } catch (error) {
-        console.error(`❌ Error syncing invoice ${invoiceId}:`, error);
+        let responses: Map<string, QBOBatchItemResponse>;
+        try {
+            const batchResponse = await qbo.batch(items);
+            responses = new Map(batchResponse.map(item => [item.bId, item]));
+        } catch (error) {
+            // The batch request itself failed - none of its invoices reached QuickBooks
+            console.error(`❌ Batch request ${batchNumber} failed:`, error);
+            for (const invoice of batch.filter(invoice => payloads.has(invoice.id))) {
+                await recordFailure(invoice, {
+                    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                    errorCode: error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR',
+                    responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+                });
+            }
+            return;
+        }
 
-        let errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        let errorCode = 'SYNC_ERROR';
+        for (const invoice of batch.filter(invoice => payloads.has(invoice.id))) {
+            const itemResponse = responses.get(invoice.id);
 
-        // Handle Axios errors with QuickBooks API response
-        if (axios.isAxiosError(error)) {
-            errorCode = error.response?.status?.toString() || 'AXIOS_ERROR';
+            if (!itemResponse || itemResponse.Fault || !itemResponse.Invoice) {
+                const itemError = itemResponse?.Fault
+                    ? faultToError(itemResponse.Fault, undefined, itemResponse)
+                    : new QBOApiError('No invoice data returned from QuickBooks batch response', { responseData: itemResponse });
 
-            // Check for QuickBooks Fault in response
-            const qbError = error.response?.data;
-            if (qbError?.Fault?.Error?.[0]) {
-                const faultError = qbError.Fault.Error[0];
-                errorMessage = `QuickBooks API Error: ${faultError.Detail} (Code: ${faultError.code})`;
-                console.error('QuickBooks Fault Details:', JSON.stringify(qbError.Fault, null, 2));
+                await recordFailure(invoice, {
+                    errorMessage: itemError.message,
+                    errorCode: itemError.logCode,
+                    responsePayload: itemResponse
+                });
+                continue;
+            }
 
-                // Log the request payload that caused the error
-                console.error('Request payload that caused error:', JSON.stringify(error.config?.data, null, 2));
-            } else {
-                console.error('Full QuickBooks API Error Response:', JSON.stringify(qbError, null, 2));
+            const qboInvoice: QBOInvoice = itemResponse.Invoice;
+            try {
+                await markInvoiceCreated(invoice.id, qboConnectionId, qboInvoice, payloads.get(invoice.id)!, itemResponse);
+            } catch (error) {
+                // The invoice exists in QuickBooks even though we could not record it locally
+                console.error(`Error recording synced invoice ${invoice.docNumber}:`, error);
             }
-        }
 
-        // Update invoice sync status to FAILED
-        try {
-            await prisma.invoice.update({
-                where: { id: invoiceId },
-                data: {
-                    syncStatus: 'FAILED',
-                    lastSyncedAt: new Date()
-                }
+            console.log(`✅ Invoice ${invoice.docNumber} synced successfully. QBO ID: ${qboInvoice.Id}`);
+            results.push({
+                invoiceId: invoice.id,
+                docNumber: invoice.docNumber || `Invoice-${invoice.id}`,
+                success: true,
+                qboInvoiceId: qboInvoice.Id,
+                message: `Invoice ${invoice.docNumber} synced successfully to QuickBooks`
             });
+        }
+    };
 
-            // Get connection for error log
-            const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+    for (let i = 0; i < invoices.length; i += QBO_MAX_BATCH_SIZE) {
+        if (await options.shouldStop?.()) {
+            console.log(`⏹️  Stopping invoice sync before batch request ${Math.floor(i / QBO_MAX_BATCH_SIZE) + 1}/${totalBatches}`);
+            break;
+        }
 
-            // Create error sync log
-            await createSyncLog({
-                transactionType: 'INVOICE',
-                systemTransactionId: invoiceId,
-                status: 'FAILED',
-                operation: 'CREATE',
-                qboConnectionId,
-                invoiceId,
-                errorMessage,
-                errorCode,
-                responsePayload: axios.isAxiosError(error) ? error.response?.data : undefined
-            });
-        } catch (logError) {
-            console.error('Error updating invoice status or creating error log:', logError);
+        const batch = invoices.slice(i, i + QBO_MAX_BATCH_SIZE);
+        const batchNumber = Math.floor(i / QBO_MAX_BATCH_SIZE) + 1;
+        const resultsBefore = results.length;
+
+        if (options.getAccessToken) {
+            qbo = createQboClient({ accessToken: await options.getAccessToken(), realmId });
         }
 
-        return {
-            success: false,
-            message: `Failed to sync invoice: ${errorMessage}`,
-            error: errorMessage
-        };
+        await sendBatch(batch, batchNumber);
+
+        const batchResults = results.slice(resultsBefore);
+        await options.onBatchComplete?.({
+            batchNumber,
+            totalBatches,
+            processed: batchResults.length,
+            succeeded: batchResults.filter(result => result.success).length,
+            failed: batchResults.filter(result => !result.success).length,
+            failures: batchResults
+                .filter(result => !result.success)
+                .map(result => ({ id: result.invoiceId, label: result.docNumber, error: result.error }))
+        });
     }
+
+    const successCount = results.filter(result => result.success).length;
+    const failureCount = results.length - successCount;
+    const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${results.length} invoices (sent in ${Math.ceil(results.length / QBO_MAX_BATCH_SIZE)} batch request(s))`;
+    console.log(`📊 ${message}`);
+
+    return {
+        success: true,
+        totalProcessed: results.length,
+        successCount,
+        failureCount,
+        results,
+        message
+    };
 };
 
 /**
  * Sync all pending invoices to QuickBooks
+ * With useBatchApi the invoices are sent through the QuickBooks batch endpoint instead of one request each
  */
 const syncAllInvoicesToQBO = async (
     accessToken: string,
-    realmId: string
+    realmId: string,
+    options: BulkSyncOptions = {}
 ): Promise<BatchSyncResult> => {
     try {
-        // Import p-limit for concurrency control
-
-        const limit = pLimit(3); // Allow maximum 3 concurrent requests to avoid rate limiting
-
         // Get QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // Fetch ALL pending invoices for this connection (we'll process in batches)
         const pendingInvoices = await prisma.invoice.findMany({
@@ -357,9 +1197,7 @@ const syncAllInvoicesToQBO = async (
                 syncStatus: 'PENDING',
                 qboInvoiceId: null // Only sync invoices that haven't been synced yet
             },
-            include: {
-                customer: true
-            },
+            include: INVOICE_SYNC_INCLUDE,
             orderBy: {
                 createdAt: 'asc' // Sync oldest first
             }
@@ -376,6 +1214,11 @@ const syncAllInvoicesToQBO = async (
             };
         }
 
+        if (options.useBatchApi) {
+            console.log(`📋 Found ${pendingInvoices.length} pending invoices to sync through the batch API`);
+            return await syncInvoicesWithBatchApi(pendingInvoices, qboConnectionId, accessToken, realmId, options);
+        }
+
         console.log(`📋 Found ${pendingInvoices.length} pending invoices to sync in batches of 10`);
 
         const results = [];
@@ -384,64 +1227,75 @@ const syncAllInvoicesToQBO = async (
         const BATCH_SIZE = 10;
 
         // Process invoices in batches of 10
+        const totalBatches = Math.ceil(pendingInvoices.length / BATCH_SIZE);
+
         for (let i = 0; i < pendingInvoices.length; i += BATCH_SIZE) {
-            const batch = pendingInvoices.slice(i, i + BATCH_SIZE);
             const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-            const totalBatches = Math.ceil(pendingInvoices.length / BATCH_SIZE);
+
+            if (await options.shouldStop?.()) {
+                console.log(`⏹️  Stopping invoice sync before batch ${batchNumber}/${totalBatches}`);
+                break;
+            }
+
+            const batch = pendingInvoices.slice(i, i + BATCH_SIZE);
+            const batchAccessToken = options.getAccessToken ? await options.getAccessToken() : accessToken;
 
             console.log(`📦 Processing batch ${batchNumber}/${totalBatches} (${batch.length} invoices)`);
 
-            // Process batch with concurrency control
-            const batchPromises = batch.map(invoice => 
-                limit(async () => {
-                    console.log(`📄 Processing invoice ${invoice.docNumber}...`);
-                    
-                    const syncResult = await syncInvoiceToQBO(invoice.id, accessToken, realmId);
-                    
-                    const result = {
-                        invoiceId: invoice.id,
-                        docNumber: invoice.docNumber || `Invoice-${invoice.id}`,
-                        success: syncResult.success,
-                        qboInvoiceId: syncResult.qboInvoiceId,
-                        message: syncResult.message,
-                        error: syncResult.error,
-                        batchNumber
-                    };
-
-                    if (syncResult.success) {
-                        successCount++;
-                        console.log(`✅ Invoice ${invoice.docNumber} synced successfully`);
-                    } else {
-                        failureCount++;
-                        console.log(`❌ Invoice ${invoice.docNumber} failed: ${syncResult.error}`);
-                    }
+            // Requests for the whole batch are throttled by the per-realm QuickBooks scheduler
+            const batchPromises = batch.map(async (invoice) => {
+                console.log(`📄 Processing invoice ${invoice.docNumber}...`);
+                
+                const syncResult = await syncInvoiceToQBO(invoice.id, batchAccessToken, realmId);
+                
+                const result = {
+                    invoiceId: invoice.id,
+                    docNumber: invoice.docNumber || `Invoice-${invoice.id}`,
+                    success: syncResult.success,
+                    qboInvoiceId: syncResult.qboInvoiceId,
+                    message: syncResult.message,
+                    error: syncResult.error,
+                    batchNumber
+                };
+
+                if (syncResult.success) {
+                    successCount++;
+                    console.log(`✅ Invoice ${invoice.docNumber} synced successfully`);
+                } else {
+                    failureCount++;
+                    console.log(`❌ Invoice ${invoice.docNumber} failed: ${syncResult.error}`);
+                }
 
-                    return result;
-                })
-            );
+                return result;
+            });
 
             // Wait for current batch to complete
             const batchResults = await Promise.all(batchPromises);
             results.push(...batchResults);
 
-            // Add delay between batches to respect rate limits
-            if (i + BATCH_SIZE < pendingInvoices.length) {
-                console.log(`⏱️  Waiting 2 seconds before next batch...`);
-                await new Promise(resolve => setTimeout(resolve, 2000));
-            }
-
             // Log batch completion
             const batchSuccessCount = batchResults.filter(r => r.success).length;
             const batchFailureCount = batchResults.filter(r => !r.success).length;
             console.log(`📊 Batch ${batchNumber} completed: ${batchSuccessCount} success, ${batchFailureCount} failed`);
+
+            await options.onBatchComplete?.({
+                batchNumber,
+                totalBatches,
+                processed: batchResults.length,
+                succeeded: batchSuccessCount,
+                failed: batchFailureCount,
+                failures: batchResults
+                    .filter(r => !r.success)
+                    .map(r => ({ id: r.invoiceId, label: r.docNumber, error: r.error }))
+            });
         }
 
-        const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${pendingInvoices.length} invoices (processed in ${Math.ceil(pendingInvoices.length / BATCH_SIZE)} batches)`;
+        const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${results.length} invoices (processed in ${Math.ceil(results.length / BATCH_SIZE)} batches)`;
         console.log(`📊 ${message}`);
 
         return {
             success: true,
-            totalProcessed: pendingInvoices.length,
+            totalProcessed: results.length,
             successCount,
             failureCount,
             results,
@@ -458,10 +1312,12 @@ const syncAllInvoicesToQBO = async (
 /**
  * Get invoice sync status
  */
-const getInvoiceSyncStatus = async (invoiceId: string): Promise<InvoiceSyncStatusResult> => {
+const getInvoiceSyncStatus = async (invoiceId: string, realmId: string): Promise<InvoiceSyncStatusResult> => {
     try {
-        const invoice = await prisma.invoice.findUnique({
-            where: { id: invoiceId },
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId },
             include: {
                 customer: {
                     select: {
@@ -480,7 +1336,8 @@ const getInvoiceSyncStatus = async (invoiceId: string): Promise<InvoiceSyncStatu
         const syncLogs = await prisma.syncLog.findMany({
             where: {
                 transactionType: 'INVOICE',
-                systemTransactionId: invoiceId
+                systemTransactionId: invoiceId,
+                qboConnectionId
             },
             orderBy: {
                 timestamp: 'desc'
@@ -800,6 +1657,9 @@ const getInvoices = async (options: {
                         email: true,
                         phone: true
                     }
+                },
+                lines: {
+                    orderBy: { lineNum: 'asc' }
                 }
             },
             orderBy: { createdAt: 'desc' },
@@ -846,12 +1706,14 @@ const getInvoices = async (options: {
                 billingAddress: invoice.billingAddress,
                 subtotal: invoice.subtotal,
                 total: invoice.total,
+                currency: invoice.currency,
+                exchangeRate: invoice.exchangeRate,
                 status: invoice.status,
                 syncStatus: invoice.syncStatus,
                 qboInvoiceId: invoice.qboInvoiceId,
                 syncToken: invoice.syncToken,
                 lastSyncedAt: invoice.lastSyncedAt,
-                lineItems: invoice.lineItems,
+                lines: invoice.lines,
                 createdAt: invoice.createdAt,
                 updatedAt: invoice.updatedAt,
                 isSynced: !!invoice.qboInvoiceId
@@ -900,6 +1762,20 @@ const getInvoiceById = async (invoiceId: string, realmId: string): Promise<any>
                         country: true
                     }
                 },
+                lines: {
+                    include: {
+                        item: {
+                            select: {
+                                id: true,
+                                qboItemId: true,
+                                name: true,
+                                type: true,
+                                active: true
+                            }
+                        }
+                    },
+                    orderBy: { lineNum: 'asc' }
+                },
                 payments: {
                     select: {
                         id: true,
@@ -929,15 +1805,514 @@ const getInvoiceById = async (invoiceId: string, realmId: string): Promise<any>
     }
 };
 
+/**
+ * Transform QuickBooks invoice lines to our line item format
+ * itemIds maps QuickBooks item ids to our internal item ids
+ */
+const transformLineItemsFromQBO = (
+    lines: QBOInvoice['Line'],
+    itemIds: Map<string, string>
+): Prisma.InvoiceLineUncheckedCreateWithoutInvoiceInput[] => {
+    return lines
+        .filter(line => (line.DetailType === 'SalesItemLineDetail' && line.SalesItemLineDetail) || line.DetailType === 'DescriptionOnly')
+        .map((line, index) => ({
+            lineNum: index + 1,
+            detailType: line.DetailType,
+            itemId: line.SalesItemLineDetail ? itemIds.get(line.SalesItemLineDetail.ItemRef.value) : null,
+            description: line.Description ?? null,
+            quantity: line.SalesItemLineDetail?.Qty ?? null,
+            unitPrice: line.SalesItemLineDetail?.UnitPrice ?? null,
+            amount: line.Amount ?? 0,
+            taxCode: line.SalesItemLineDetail?.TaxCodeRef?.value ?? null
+        }));
+};
+
+/**
+ * Derive the local invoice status from the QuickBooks balance
+ */
+const resolveStatusFromQBO = (qboInvoice: QBOInvoice, currentStatus?: InvoiceStatus): InvoiceStatus => {
+    // Voided/cancelled locally - the remote balance does not change that
+    if (currentStatus && QBO_STATUS_OPERATIONS[currentStatus]) {
+        return currentStatus;
+    }
+    if (qboInvoice.TotalAmt > 0 && qboInvoice.Balance === 0) {
+        return 'PAID';
+    }
+    if (qboInvoice.DueDate && new Date(qboInvoice.DueDate) < new Date()) {
+        return 'OVERDUE';
+    }
+    return currentStatus && currentStatus !== 'PAID' && currentStatus !== 'OVERDUE' ? currentStatus : 'SENT';
+};
+
+/**
+ * Match a page of QuickBooks invoices to local ones, creating the ones made directly in QuickBooks
+ */
+const saveInvoicesFromQBO = async (qboInvoices: QBOInvoice[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    let oldestDeferredAt: Date | undefined;
+
+    // Sequential so two remote invoices can never race for the same docNumber
+    for (const qboInvoice of qboInvoices) {
+        const existingInvoice = await prisma.invoice.findUnique({
+            where: { qboConnectionId_qboInvoiceId: { qboConnectionId, qboInvoiceId: qboInvoice.Id } }
+        }) ?? (qboInvoice.DocNumber
+            ? await prisma.invoice.findUnique({
+                where: { qboConnectionId_docNumber: { qboConnectionId, docNumber: qboInvoice.DocNumber } }
+            })
+            : null);
+
+        const updatedAtQB = qboInvoice.MetaData?.LastUpdatedTime
+            ? new Date(qboInvoice.MetaData.LastUpdatedTime)
+            : null;
+
+        if (existingInvoice) {
+            if (existingInvoice.qboInvoiceId && existingInvoice.qboInvoiceId !== qboInvoice.Id) {
+                console.warn(`⚠️ Skipping QBO invoice ${qboInvoice.Id}: docNumber ${qboInvoice.DocNumber} already belongs to QBO invoice ${existingInvoice.qboInvoiceId}`);
+                skipped++;
+                continue;
+            }
+
+            // Only remote-owned fields are pulled; local edits that are still pending keep being detected
+            // and keep the SyncToken they were made against until they are pushed
+            const syncedAt = new Date();
+            const pendingLocalChanges = !!existingInvoice.qboInvoiceId && hasLocalChanges(existingInvoice);
+
+            await prisma.invoice.update({
+                where: { id: existingInvoice.id },
+                data: {
+                    qboInvoiceId: qboInvoice.Id,
+                    ...(!pendingLocalChanges && { syncToken: qboInvoice.SyncToken }),
+                    balance: qboInvoice.Balance,
+                    qboTotalTax: qboInvoice.TxnTaxDetail?.TotalTax ?? null,
+                    qboEmailStatus: qboInvoice.EmailStatus ?? null,
+                    ...currencyFromQBO(qboInvoice),
+                    status: resolveStatusFromQBO(qboInvoice, existingInvoice.status),
+                    updatedAtQB,
+                    ...(!pendingLocalChanges && {
+                        syncStatus: 'SUCCESS',
+                        lastSyncedAt: syncedAt,
+                        updatedAt: syncedAt
+                    })
+                }
+            });
+            updated++;
+            continue;
+        }
+
+        // Created directly in QuickBooks - the customer must already be pulled
+        const customer = await prisma.customer.findUnique({
+            where: { qboConnectionId_qboCustomerId: { qboConnectionId, qboCustomerId: qboInvoice.CustomerRef.value } }
+        });
+
+        if (!customer) {
+            console.warn(`⚠️ Skipping QBO invoice ${qboInvoice.Id}: customer ${qboInvoice.CustomerRef.value} has not been synced yet`);
+            skipped++;
+            oldestDeferredAt = earliestOf(oldestDeferredAt, updatedAtQB);
+            continue;
+        }
+
+        // Every line item must point at an item we have already pulled for this connection
+        const itemRefs = Array.from(new Set(qboInvoice.Line
+            .filter(line => line.DetailType === 'SalesItemLineDetail' && line.SalesItemLineDetail)
+            .map(line => line.SalesItemLineDetail!.ItemRef.value)));
+        const items = await prisma.item.findMany({
+            where: { qboConnectionId, qboItemId: { in: itemRefs } },
+            select: { id: true, qboItemId: true }
+        });
+
+        if (items.length < itemRefs.length) {
+            const missing = itemRefs.filter(itemRef => !items.some(item => item.qboItemId === itemRef));
+            console.warn(`⚠️ Skipping QBO invoice ${qboInvoice.Id}: item(s) ${missing.join(', ')} have not been synced yet`);
+            skipped++;
+            oldestDeferredAt = earliestOf(oldestDeferredAt, updatedAtQB);
+            continue;
+        }
+
+        const lineItems = transformLineItemsFromQBO(qboInvoice.Line, new Map(items.map(item => [item.qboItemId, item.id])));
+        const subtotalLine = qboInvoice.Line.find(line => line.DetailType === 'SubTotalLineDetail');
+        const syncedAt = new Date();
+
+        await prisma.invoice.create({
+            data: {
+                qboInvoiceId: qboInvoice.Id,
+                customerId: customer.id,
+                invoiceDate: new Date(qboInvoice.TxnDate),
+                dueDate: new Date(qboInvoice.DueDate || qboInvoice.TxnDate),
+                docNumber: qboInvoice.DocNumber || null,
+                billingAddress: qboInvoice.BillAddr?.Line1 || null,
+                salesTermRef: qboInvoice.SalesTermRef?.value || null,
+                privateNote: qboInvoice.PrivateNote || null,
+                sendLater: qboInvoice.EmailStatus === 'NeedToSend',
+                qboEmailStatus: qboInvoice.EmailStatus ?? null,
+                subtotal: subtotalLine?.Amount ?? lineItems.reduce((sum, item) => sum + item.amount, 0),
+                total: qboInvoice.TotalAmt,
+                balance: qboInvoice.Balance,
+                txnTaxCodeRef: qboInvoice.TxnTaxDetail?.TxnTaxCodeRef?.value || null,
+                qboTotalTax: qboInvoice.TxnTaxDetail?.TotalTax ?? null,
+                ...currencyFromQBO(qboInvoice),
+                syncToken: qboInvoice.SyncToken,
+                status: resolveStatusFromQBO(qboInvoice),
+                lines: { create: lineItems },
+                qboConnectionId,
+                syncStatus: 'SUCCESS',
+                lastSyncedAt: syncedAt,
+                updatedAtQB,
+                updatedAt: syncedAt
+            }
+        });
+        created++;
+    }
+
+    return { created, updated, skipped, oldestDeferredAt };
+};
+
+/**
+ * Mark invoices deleted in QuickBooks as cancelled
+ * The QuickBooks Id is kept, so a deleted invoice is never posted again
+ */
+const markInvoicesDeletedInQBO = async (qboInvoiceIds: string[], qboConnectionId: string): Promise<number> => {
+    const syncedAt = new Date();
+    const result = await prisma.invoice.updateMany({
+        where: { qboConnectionId, qboInvoiceId: { in: qboInvoiceIds }, status: { not: 'CANCELLED' } },
+        data: {
+            status: 'CANCELLED',
+            syncStatus: 'SUCCESS',
+            lastSyncedAt: syncedAt,
+            updatedAt: syncedAt
+        }
+    });
+
+    return result.count;
+};
+
+/**
+ * Import invoices from QuickBooks to database
+ * Uses incremental sync based on the last QuickBooks update we pulled
+ */
+const importInvoicesFromQBO = async (accessToken: string, realmId: string, options: QBOPullOptions = {}): Promise<InvoiceImportResult> => {
+    try {
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        // 1. Find where the last import of this connection left off
+        const watermark = await prisma.syncWatermark.findUnique({
+            where: { qboConnectionId_entityName: { qboConnectionId, entityName: INVOICE_IMPORT_WATERMARK } }
+        });
+
+        // 2. Build dynamic query for incremental sync - a targeted refresh only reads the given records
+        // Inclusive, so records updated in the same instant as the watermark are never missed
+        const query = options.ids
+            ? `SELECT * FROM Invoice WHERE ${buildIdFilter(options.ids)}`
+            : watermark
+                ? `SELECT * FROM Invoice WHERE MetaData.LastUpdatedTime >= '${watermark.changedSince.toISOString()}'`
+                : `SELECT * FROM Invoice`;
+
+        console.log('Executing QuickBooks Invoice query:', query);
+
+        // 3. Fetch every page from QuickBooks and match each remote invoice to a local one as it arrives
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+        let latestUpdatedAt: Date | undefined;
+        let oldestDeferredAt: Date | undefined;
+
+        const qbo = createQboClient({ accessToken, realmId });
+        const { totalRecords, pages } = await qbo.queryAllPages<QBOInvoice>(
+            query,
+            'Invoice',
+            async (qboInvoices) => {
+                const saved = await saveInvoicesFromQBO(qboInvoices, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
+                skipped += saved.skipped;
+                oldestDeferredAt = earliestOf(oldestDeferredAt, saved.oldestDeferredAt);
+
+                for (const qboInvoice of qboInvoices) {
+                    const updatedAt = qboInvoice.MetaData?.LastUpdatedTime ? new Date(qboInvoice.MetaData.LastUpdatedTime) : undefined;
+                    if (updatedAt && (!latestUpdatedAt || updatedAt > latestUpdatedAt)) {
+                        latestUpdatedAt = updatedAt;
+                    }
+                }
+            }
+        );
+
+        // 4. Move the watermark - never past a record skipped for a missing reference, so it is read again next time
+        const nextWatermark = oldestDeferredAt ?? latestUpdatedAt;
+        if (!options.ids && nextWatermark) {
+            await prisma.syncWatermark.upsert({
+                where: { qboConnectionId_entityName: { qboConnectionId, entityName: INVOICE_IMPORT_WATERMARK } },
+                create: { qboConnectionId, entityName: INVOICE_IMPORT_WATERMARK, changedSince: nextWatermark },
+                update: { changedSince: nextWatermark, lastRunAt: new Date() }
+            });
+        }
+
+        console.log(`Fetched ${totalRecords} invoices from QuickBooks in ${pages} page(s)`);
+
+        if (totalRecords === 0) {
+            return {
+                success: true,
+                totalInvoices: 0,
+                created: 0,
+                updated: 0,
+                skipped: 0,
+                pages,
+                message: 'No new or updated invoices found in QuickBooks'
+            };
+        }
+
+        // Update connection's last sync timestamp
+        await prisma.qBOConnection.update({
+            where: { id: qboConnectionId },
+            data: { lastSyncAt: new Date() }
+        });
+
+        const message = `${totalRecords} invoice(s) imported: ${created} created, ${updated} updated, ${skipped} skipped`;
+        console.log(message);
+
+        return {
+            success: true,
+            totalInvoices: totalRecords,
+            pages,
+            created,
+            updated,
+            skipped,
+            message
+        };
+
+    } catch (error) {
+        console.error('Error importing Invoices:', error);
+
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
+        }
+
+        throw new Error(`Invoice import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Find invoices still waiting to reach QuickBooks whose customer or items are inactive
+ * QuickBooks rejects those invoices, so they need attention before the next sync
+ */
+const findPendingInvoicesWithInactiveReferences = async (qboConnectionId: string): Promise<InactiveReferenceWarning[]> => {
+    const invoices = await prisma.invoice.findMany({
+        where: {
+            qboConnectionId,
+            syncStatus: { in: ['PENDING', 'FAILED', 'RETRY'] },
+            status: { notIn: ['VOID', 'CANCELLED'] }
+        },
+        select: {
+            id: true,
+            docNumber: true,
+            customer: { select: { qboCustomerId: true, displayName: true, active: true } },
+            lines: {
+                where: { item: { active: false } },
+                select: { item: { select: { qboItemId: true, name: true } } }
+            }
+        }
+    });
+
+    const warnings: InactiveReferenceWarning[] = [];
+    for (const invoice of invoices) {
+        const label = invoice.docNumber || invoice.id;
+
+        if (!invoice.customer.active) {
+            warnings.push({
+                invoiceId: invoice.id,
+                docNumber: invoice.docNumber,
+                reason: 'INACTIVE_CUSTOMER',
+                referenceId: invoice.customer.qboCustomerId,
+                referenceName: invoice.customer.displayName,
+                message: `Invoice ${label} is pending but customer ${invoice.customer.displayName} is inactive in QuickBooks`
+            });
+        }
+
+        const inactiveItems = new Map(invoice.lines.map(line => [line.item!.qboItemId, line.item!.name]));
+        for (const [qboItemId, itemName] of inactiveItems) {
+            warnings.push({
+                invoiceId: invoice.id,
+                docNumber: invoice.docNumber,
+                reason: 'INACTIVE_ITEM',
+                referenceId: qboItemId,
+                referenceName: itemName,
+                message: `Invoice ${label} is pending but item ${itemName} is inactive in QuickBooks`
+            });
+        }
+    }
+
+    warnings.forEach(warning => console.warn(`⚠️ ${warning.message}`));
+    return warnings;
+};
+
+/**
+ * Get the lines of an invoice, in the order they are sent to QuickBooks
+ */
+const getInvoiceLines = async (invoiceId: string, realmId: string): Promise<InvoiceLine[]> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId },
+            select: {
+                lines: {
+                    include: { item: { select: { id: true, qboItemId: true, name: true, active: true } } },
+                    orderBy: { lineNum: 'asc' }
+                }
+            }
+        });
+
+        if (!invoice) {
+            throw new Error(`Invoice with ID ${invoiceId} not found`);
+        }
+
+        return invoice.lines;
+    } catch (error) {
+        throw new Error(`Failed to get invoice lines: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Replace all lines of an invoice and recalculate its subtotal
+ * Anything on the total beyond the old subtotal (e.g. tax) is kept; a synced invoice is marked for update
+ */
+const replaceInvoiceLines = async (
+    invoiceId: string,
+    lines: InvoiceLineInput[],
+    realmId: string
+): Promise<InvoiceLinesResult> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoice = await prisma.invoice.findFirst({
+            where: { id: invoiceId, qboConnectionId }
+        });
+
+        if (!invoice) {
+            throw new Error(`Invoice with ID ${invoiceId} not found`);
+        }
+
+        if (CLOSED_INVOICE_STATUSES.includes(invoice.status)) {
+            return {
+                success: false,
+                message: `Invoice ${invoice.docNumber} is ${invoice.status} and its lines cannot be changed`,
+                error: 'INVOICE_CLOSED'
+            };
+        }
+
+        // Items must exist on this invoice's connection
+        const itemIds = Array.from(new Set(lines.map(line => line.itemId).filter((itemId): itemId is string => !!itemId)));
+        const items = await prisma.item.findMany({
+            where: { id: { in: itemIds }, qboConnectionId },
+            select: { id: true }
+        });
+        const knownItemIds = new Set(items.map(item => item.id));
+
+        const lineData: Prisma.InvoiceLineUncheckedCreateWithoutInvoiceInput[] = [];
+        for (const [index, line] of lines.entries()) {
+            const lineNum = index + 1;
+            const detailType = line.detailType ?? 'SalesItemLineDetail';
+
+            if (detailType === 'SalesItemLineDetail' && !line.itemId) {
+                throw new Error(`Invalid line ${lineNum}: itemId is required on sales lines`);
+            }
+            if (line.itemId && !knownItemIds.has(line.itemId)) {
+                throw new Error(`Invalid line ${lineNum}: item ${line.itemId} not found for this company`);
+            }
+
+            const amount = line.amount ?? (
+                line.quantity != null && line.unitPrice != null ? line.quantity * line.unitPrice : null
+            );
+            if (amount === null) {
+                throw new Error(`Invalid line ${lineNum}: amount or quantity and unitPrice are required`);
+            }
+
+            lineData.push({
+                lineNum,
+                detailType,
+                itemId: line.itemId || null,
+                description: line.description ?? null,
+                quantity: line.quantity ?? null,
+                unitPrice: line.unitPrice ?? null,
+                amount,
+                taxCode: line.taxCode ?? null
+            });
+        }
+
+        const subtotal = lineData.reduce((sum, line) => sum + line.amount, 0);
+        const total = subtotal + (invoice.total - invoice.subtotal);
+
+        const [, updatedInvoice] = await prisma.$transaction([
+            prisma.invoiceLine.deleteMany({ where: { invoiceId } }),
+            prisma.invoice.update({
+                where: { id: invoiceId },
+                data: {
+                    subtotal,
+                    total,
+                    lines: { create: lineData },
+                    ...(invoice.qboInvoiceId && { syncStatus: 'PENDING' })
+                },
+                include: { lines: { orderBy: { lineNum: 'asc' } } }
+            })
+        ]);
+
+        return {
+            success: true,
+            lines: updatedInvoice.lines,
+            subtotal,
+            total,
+            message: `${lineData.length} line(s) saved on invoice ${invoice.docNumber}`
+        };
+    } catch (error) {
+        throw new Error(`Failed to update invoice lines: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Find synced invoices whose tax differs from the tax QuickBooks computed for them
+ */
+const findInvoicesWithTaxMismatch = async (realmId: string): Promise<TaxMismatch[]> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const invoices = await prisma.invoice.findMany({
+            where: {
+                qboConnectionId,
+                qboTotalTax: { not: null },
+                status: { notIn: CLOSED_INVOICE_STATUSES }
+            },
+            select: { id: true, docNumber: true, subtotal: true, total: true, qboTotalTax: true },
+            orderBy: { invoiceDate: 'desc' }
+        });
+
+        return invoices
+            .map(getTaxMismatch)
+            .filter((mismatch): mismatch is TaxMismatch => mismatch !== null);
+    } catch (error) {
+        throw new Error(`Failed to check invoice tax: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
 // Export all service functions
 const invoiceSyncService = {
     syncInvoiceToQBO,
+    retryInvoiceSyncToQBO,
+    updateInvoiceStatus,
     syncAllInvoicesToQBO,
     getInvoiceSyncStatus,
     getAllInvoicesSyncStatus,
     getSyncStatistics,
     getInvoices,
-    getInvoiceById
+    getInvoiceById,
+    getInvoiceLines,
+    replaceInvoiceLines,
+    importInvoicesFromQBO,
+    saveInvoicesFromQBO,
+    markInvoicesDeletedInQBO,
+    findPendingInvoicesWithInactiveReferences,
+    findInvoicesWithTaxMismatch
 };
 
 export default invoiceSyncService;
\ No newline at end of file
@@ -1,61 +1,12 @@
 // services/itemService.ts
 
-import axios from 'axios';
 import { prisma } from '../config/db';
+import connectionResolver from './connectionResolver';
 import { Item, ItemType } from '@prisma/client';
-import { QBOItem, QBOQueryResponse } from '../types/item';
-
-// Helper function to get API base URL
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://quickbooks.api.intuit.com'
-        : 'https://sandbox-quickbooks.api.intuit.com';
-};
-
-
-/**
- * Find or create QBO connection based on realmId
- */
-const findOrCreateConnection = async (realmId: string, accessToken: string): Promise<string> => {
-    try {
-        // First, try to find existing connection by realmId
-        let connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
-        });
-
-        if (!connection) {
-            // Create new connection if not found
-            console.log(`Creating new QBO connection for realmId: ${realmId}`);
-            connection = await prisma.qBOConnection.create({
-                data: {
-                    realmId,
-                    accessToken,
-                    refreshToken: '', // You might want to get this from somewhere
-                    expiresAt: new Date(Date.now() + 3600 * 1000), // 1 hour from now
-                    refreshExpiresAt: new Date(Date.now() + 101 * 24 * 3600 * 1000), // 101 days from now
-                    isConnected: true,
-                    companyName: `Company-${realmId}`, // You can fetch this from QB API
-                    connectedAt: new Date()
-                }
-            });
-        } else if (!connection.isConnected) {
-            // Reactivate connection if it was disconnected
-            connection = await prisma.qBOConnection.update({
-                where: { id: connection.id },
-                data: {
-                    accessToken,
-                    isConnected: true,
-                    connectedAt: new Date()
-                }
-            });
-        }
-
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding/creating QBO connection:', error);
-        throw new Error(`Failed to find or create QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-};
+import { QBOItem } from '../types/item';
+import { buildIdFilter, createQboClient, QBOApiError } from './qboClient';
+import { QBOPullOptions, QBOReconcileResult, QBOSaveResult } from '../types/quickbooks';
+import invoiceSyncService from './invoiceSyncService';
 
 /**
  * Map QuickBooks item type to our ItemType enum
@@ -74,21 +25,109 @@ const mapQBOItemType = (qboType: string): ItemType => {
     }
 };
 
+/**
+ * Save a page of QuickBooks items, creating the ones we do not have yet
+ * Items that fail to save are counted as skipped
+ */
+const saveItemsFromQBO = async (items: QBOItem[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    const upsertPromises = items.map(async (item: QBOItem) => {
+        try {
+            const existingItem = await prisma.item.findUnique({
+                where: { qboConnectionId_qboItemId: { qboConnectionId, qboItemId: item.Id } }
+            });
+
+            const itemData = {
+                name: item.Name,
+                fullyQualifiedName: item.FullyQualifiedName || null,
+                type: mapQBOItemType(item.Type),
+                description: item.Description || null,
+                unitPrice: item.UnitPrice || null,
+                purchaseCost: item.PurchaseCost || null,
+                quantityOnHand: item.QtyOnHand || null,
+                invStartDate: item.InvStartDate ? new Date(item.InvStartDate) : null,
+                incomeAccountRef: item.IncomeAccountRef?.value || null,
+                incomeAccountName: item.IncomeAccountRef?.name || null,
+                expenseAccountRef: item.ExpenseAccountRef?.value || null,
+                expenseAccountName: item.ExpenseAccountRef?.name || null,
+                assetAccountRef: item.AssetAccountRef?.value || null,
+                assetAccountName: item.AssetAccountRef?.name || null,
+                trackQtyOnHand: item.Type === 'Inventory' ? true : false, // Inventory items typically track quantity
+                taxable: item.Taxable || false,
+                salesTaxCodeRef: item.SalesTaxCodeRef?.value || null,
+                active: item.Active ?? true,
+                syncToken: item.SyncToken,
+                domain: item.domain,
+                createTime: item.MetaData?.CreateTime ? new Date(item.MetaData.CreateTime) : null,
+                lastUpdatedTime: item.MetaData?.LastUpdatedTime ? new Date(item.MetaData.LastUpdatedTime) : null,
+                qboConnectionId // Use the resolved connection ID
+            };
+
+            if (existingItem) {
+                // Update existing item
+                await prisma.item.update({
+                    where: { id: existingItem.id },
+                    data: {
+                        ...itemData,
+                        updatedAt: new Date()
+                    }
+                });
+                updated++;
+            } else {
+                // Create new item
+                await prisma.item.create({
+                    data: {
+                        qboItemId: item.Id,
+                        ...itemData,
+                        createdAt: new Date(),
+                        updatedAt: new Date()
+                    }
+                });
+                created++;
+            }
+        } catch (error) {
+            console.error(`Error processing item ${item.Id}:`, error);
+            skipped++;
+        }
+    });
+
+    await Promise.all(upsertPromises);
+
+    return { created, updated, skipped };
+};
+
+/**
+ * Mark items deleted in QuickBooks as inactive - existing documents may still point at them
+ */
+const markItemsDeletedInQBO = async (ids: string[], qboConnectionId: string): Promise<number> => {
+    const result = await prisma.item.updateMany({
+        where: { qboItemId: { in: ids }, qboConnectionId },
+        data: { active: false }
+    });
+
+    return result.count;
+};
+
 /**
  * Sync Items from QuickBooks to database
  * Uses incremental sync based on last updated timestamp
  */
-const syncItems = async (accessToken: string, realmId: string): Promise<{
+const syncItems = async (accessToken: string, realmId: string, options: QBOPullOptions = {}): Promise<{
     success: boolean;
     totalItems: number;
+    pages: number;
     created: number;
     updated: number;
     skipped: number;
     message: string;
+    reconciliation?: QBOReconcileResult;
 }> => {
     try {
-        // Find or create QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // 1. Find the most recently updated item in DB for this connection
         const latest = await prisma.item.findFirst({
@@ -97,137 +136,110 @@ const syncItems = async (accessToken: string, realmId: string): Promise<{
             select: { lastUpdatedTime: true },
         });
 
-        // 2. Build dynamic query for incremental sync
-        const query = latest?.lastUpdatedTime
+        // 2. Build dynamic query for incremental sync - a targeted refresh only reads the given records,
+        //    reconciliation reads every record, inactive ones included
+        let query = latest?.lastUpdatedTime
             ? `SELECT * FROM Item WHERE MetaData.LastUpdatedTime > '${latest.lastUpdatedTime.toISOString()}'`
             : `SELECT * FROM Item`;
 
+        if (options.ids) {
+            query = `SELECT * FROM Item WHERE ${buildIdFilter(options.ids)} AND Active IN (true, false)`;
+        } else if (options.reconcile) {
+            query = `SELECT * FROM Item WHERE Active IN (true, false)`;
+        }
+
         console.log('Executing QuickBooks Item query:', query);
 
-        // 3. Make API request to QuickBooks
-        const baseUrl = getQboApiBaseUrl();
-        const response = await axios.get<QBOQueryResponse>(
-            `${baseUrl}/v3/company/${realmId}/query?query=${encodeURIComponent(query)}`,
-            {
-                headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    Accept: 'application/json',
-                },
+        // 3. Fetch every page from QuickBooks and save each one as it arrives
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+
+        const seenIds = new Set<string>();
+        let inactive = 0;
+
+        const qbo = createQboClient({ accessToken, realmId });
+
+        // Reconciliation needs every record - count them up front so a short read is noticed
+        const expectedCount = options.reconcile ? await qbo.count(query, 'Item') : 0;
+
+        const { totalRecords, pages } = await qbo.queryAllPages<QBOItem>(
+            query,
+            'Item',
+            async (items) => {
+                if (options.reconcile) {
+                    items.forEach(record => seenIds.add(record.Id));
+                    inactive += items.filter(record => record.Active === false).length;
+                }
+
+                const saved = await saveItemsFromQBO(items, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
+                skipped += saved.skipped;
             }
         );
 
-        const items = response.data.QueryResponse.Item || [];
-        console.log(`Fetched ${items.length} items from QuickBooks`);
+        console.log(`Fetched ${totalRecords} items from QuickBooks in ${pages} page(s)`);
+
+        // 4. Reconciliation - records QuickBooks no longer returns at all were deleted there
+        let reconciliation: QBOReconcileResult | undefined;
+        if (options.reconcile) {
+            // Records that were only missed by the read must not be deactivated -
+            // a company QuickBooks counts none for has had every record deleted
+            if (seenIds.size < expectedCount) {
+                throw new Error(`Reconciliation aborted: QuickBooks returned ${seenIds.size} of ${expectedCount} item(s)`);
+            }
+
+            const vanished = await prisma.item.updateMany({
+                where: { qboConnectionId, active: true, qboItemId: { notIn: Array.from(seenIds) } },
+                data: { active: false }
+            });
+            const warnings = (await invoiceSyncService.findPendingInvoicesWithInactiveReferences(qboConnectionId))
+                .filter(warning => warning.reason === 'INACTIVE_ITEM');
+
+            reconciliation = { inactive, vanished: vanished.count, warnings };
+            console.log(`Item reconciliation: ${inactive} inactive in QuickBooks, ${vanished.count} no longer in QuickBooks`);
+        }
 
-        if (items.length === 0) {
+        if (totalRecords === 0) {
             return {
                 success: true,
                 totalItems: 0,
                 created: 0,
                 updated: 0,
                 skipped: 0,
-                message: 'No new or updated items found in QuickBooks'
+                pages,
+                message: 'No new or updated items found in QuickBooks',
+                ...(reconciliation && { reconciliation })
             };
         }
 
-        // 4. Save or update the records in the database
-        let created = 0;
-        let updated = 0;
-        let skipped = 0;
-
-        const upsertPromises = items.map(async (item: QBOItem) => {
-            try {
-                const existingItem = await prisma.item.findUnique({
-                    where: { id: item.Id }
-                });
-
-                const itemData = {
-                    name: item.Name,
-                    fullyQualifiedName: item.FullyQualifiedName || null,
-                    type: mapQBOItemType(item.Type),
-                    description: item.Description || null,
-                    unitPrice: item.UnitPrice || null,
-                    purchaseCost: item.PurchaseCost || null,
-                    quantityOnHand: item.QtyOnHand || null,
-                    invStartDate: item.InvStartDate ? new Date(item.InvStartDate) : null,
-                    incomeAccountRef: item.IncomeAccountRef?.value || null,
-                    incomeAccountName: item.IncomeAccountRef?.name || null,
-                    expenseAccountRef: item.ExpenseAccountRef?.value || null,
-                    expenseAccountName: item.ExpenseAccountRef?.name || null,
-                    assetAccountRef: item.AssetAccountRef?.value || null,
-                    assetAccountName: item.AssetAccountRef?.name || null,
-                    trackQtyOnHand: item.Type === 'Inventory' ? true : false, // Inventory items typically track quantity
-                    taxable: item.Taxable || false,
-                    active: item.Active ?? true,
-                    syncToken: item.SyncToken,
-                    domain: item.domain,
-                    createTime: item.MetaData?.CreateTime ? new Date(item.MetaData.CreateTime) : null,
-                    lastUpdatedTime: item.MetaData?.LastUpdatedTime ? new Date(item.MetaData.LastUpdatedTime) : null,
-                    qboConnectionId // Use the found/created connection ID
-                };
-
-                if (existingItem) {
-                    // Update existing item
-                    await prisma.item.update({
-                        where: { id: item.Id },
-                        data: {
-                            ...itemData,
-                            updatedAt: new Date()
-                        }
-                    });
-                    updated++;
-                } else {
-                    // Create new item
-                    await prisma.item.create({
-                        data: {
-                            id: item.Id,
-                            ...itemData,
-                            createdAt: new Date(),
-                            updatedAt: new Date()
-                        }
-                    });
-                    created++;
-                }
-            } catch (error) {
-                console.error(`Error processing item ${item.Id}:`, error);
-                skipped++;
-            }
-        });
-
-        await Promise.all(upsertPromises);
-
         // Update connection's last sync timestamp
         await prisma.qBOConnection.update({
             where: { id: qboConnectionId },
             data: { lastSyncAt: new Date() }
         });
 
-        const message = `${items.length} item(s) processed: ${created} created, ${updated} updated${skipped > 0 ? `, ${skipped} skipped` : ''}`;
+        const message = `${totalRecords} item(s) processed: ${created} created, ${updated} updated${skipped > 0 ? `, ${skipped} skipped` : ''}`;
         console.log(message);
 
         return {
             success: true,
-            totalItems: items.length,
+            totalItems: totalRecords,
+            pages,
             created,
             updated,
             skipped,
-            message
+            message,
+            ...(reconciliation && { reconciliation })
         };
 
     } catch (error) {
         console.error('Error syncing Items:', error);
         
-        if (axios.isAxiosError(error)) {
-            const qbError = error.response?.data;
-            console.error('QuickBooks API Error:', JSON.stringify(qbError, null, 2));
-            
-            if (error.response?.status === 401) {
-                throw new Error('Authentication failed - token may be expired or invalid');
-            }
-            if (error.response?.status === 403) {
-                throw new Error('Access forbidden - insufficient permissions');
-            }
-            throw new Error(`QuickBooks API error: ${qbError?.Fault?.Error?.[0]?.Detail || error.message}`);
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
         }
 
         throw new Error(`Item sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -538,6 +550,8 @@ const getItemTypes = async (realmId?: string): Promise<string[]> => {
 // Export service functions
 const itemService = {
     syncItems,
+    saveItemsFromQBO,
+    markItemsDeletedInQBO,
     getItems,
     getItemStats,
     getItemById,
@@ -1,16 +1,19 @@
 // services/paymentSyncService.ts
 
-import axios from 'axios';
 import { prisma } from '../config/db';
-import { Payment, SyncStatus, SyncOperation, TransactionType } from '@prisma/client';
+import connectionResolver from './connectionResolver';
+import { Payment, PaymentStatus, SyncStatus, SyncOperation, TransactionType } from '@prisma/client';
 import pLimit from 'p-limit';
+import { syncRetryConfig } from '../config/syncRetry';
+import { resolveNextRetryAt } from '../utils/retryBackoff';
+import { earliestOf } from '../utils/importWatermark';
+import { buildIdFilter, createQboClient, faultToError, QBO_MAX_BATCH_SIZE, QBOApiError } from './qboClient';
+import { QBOBatchItemRequest, QBOBatchItemResponse, QBOPullOptions, QBOSaveResult } from '../types/quickbooks';
+import { BulkSyncOptions } from '../types/syncJobs';
+import { PaymentImportResult, QBOPayment } from '../types/payment';
 
-// Helper function to get API base URL
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://quickbooks.api.intuit.com'
-        : 'https://sandbox-quickbooks.api.intuit.com';
-};
+// SyncWatermark entity the incremental payment import continues from
+const PAYMENT_IMPORT_WATERMARK = 'PaymentImport';
 
 // QuickBooks Payment Payload interface
 interface QBOPaymentPayload {
@@ -27,34 +30,20 @@ interface QBOPaymentPayload {
     PaymentRefNum?: string;
     TxnDate?: string;
     PrivateNote?: string;
+    CurrencyRef?: {
+        value: string;
+    };
+    ExchangeRate?: number;
     LinkedTxn?: Array<{
         TxnId: string;
         TxnType: string;
     }>;
 }
 
-// QuickBooks Payment Response interface
-interface QBOPaymentResponse {
-    QueryResponse?: any;
-    Payment?: {
-        Id: string;
-        SyncToken: string;
-        MetaData: {
-            CreateTime: string;
-            LastUpdatedTime: string;
-        };
-        TotalAmt: number;
-        UnappliedAmt: number;
-        [key: string]: any;
-    };
-    Fault?: {
-        Error: Array<{
-            Detail: string;
-            code: string;
-            element?: string;
-        }>;
-        type: string;
-    };
+// QuickBooks delete payload - QBO only needs the Id and current SyncToken
+interface QBOPaymentDeletePayload {
+    Id: string;
+    SyncToken: string;
 }
 
 // Response interfaces for service methods
@@ -102,38 +91,6 @@ interface PaymentsSyncStatusResult {
     };
 }
 
-/**
- * Find or create QBO connection based on realmId
- */
-const findOrCreateConnection = async (realmId: string, accessToken: string): Promise<string> => {
-    try {
-        let connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
-        });
-
-        if (!connection) {
-            console.log(`Creating new QBO connection for realmId: ${realmId}`);
-            connection = await prisma.qBOConnection.create({
-                data: {
-                    realmId,
-                    accessToken,
-                    refreshToken: '',
-                    expiresAt: new Date(Date.now() + 3600 * 1000),
-                    refreshExpiresAt: new Date(Date.now() + 101 * 24 * 3600 * 1000),
-                    isConnected: true,
-                    companyName: `Company-${realmId}`,
-                    connectedAt: new Date()
-                }
-            });
-        }
-
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding/creating QBO connection:', error);
-        throw new Error(`Failed to find or create QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-};
-
 /**
  * Create sync log entry
  */
@@ -172,7 +129,12 @@ const createSyncLog = async (data: {
                     responsePayload: data.responsePayload,
                     errorMessage: data.errorMessage,
                     errorCode: data.errorCode,
-                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined
+                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined,
+                    // Schedule the next automatic retry (cleared on success or once retries are exhausted) -
+                    // while a claimed retry is in flight the retry worker's lease is left in place
+                    nextRetryAt: data.status === 'IN_PROGRESS' && existingSyncLog.status === 'RETRY'
+                        ? undefined
+                        : resolveNextRetryAt(data.status, existingSyncLog.retryCount, existingSyncLog.maxRetries)
                 }
             });
         } else {
@@ -191,7 +153,9 @@ const createSyncLog = async (data: {
                     errorMessage: data.errorMessage,
                     errorCode: data.errorCode,
                     startedAt: new Date(),
-                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined
+                    completedAt: data.status !== 'IN_PROGRESS' ? new Date() : undefined,
+                    maxRetries: syncRetryConfig.maxRetries,
+                    nextRetryAt: resolveNextRetryAt(data.status, 0, syncRetryConfig.maxRetries)
                 }
             });
         }
@@ -200,10 +164,49 @@ const createSyncLog = async (data: {
     }
 };
 
+/**
+ * Resolve the currency of a payment and check it against its invoice and deposit account
+ * A payment without a currency of its own takes its invoice's, which defaults to the customer's
+ */
+const resolvePaymentCurrency = async (payment: Payment): Promise<string | null> => {
+    const invoice = await prisma.invoice.findUnique({
+        where: { id: payment.invoiceId },
+        select: { docNumber: true, currency: true, customer: { select: { currency: true } } }
+    });
+
+    const invoiceCurrency = invoice?.currency ?? invoice?.customer.currency ?? null;
+    const currency = payment.currency ?? invoiceCurrency;
+
+    if (payment.currency && invoiceCurrency && payment.currency !== invoiceCurrency) {
+        throw new Error(`Invalid currency: payment is in ${payment.currency} but invoice ${invoice?.docNumber} is in ${invoiceCurrency}`);
+    }
+
+    if (currency && payment.depositToAccountRef) {
+        const account = await prisma.chartOfAccount.findUnique({
+            where: {
+                qboConnectionId_qboAccountId: {
+                    qboConnectionId: payment.qboConnectionId,
+                    qboAccountId: payment.depositToAccountRef
+                }
+            },
+            select: { name: true, currency: true }
+        });
+
+        if (account?.currency && account.currency !== currency) {
+            throw new Error(`Invalid currency: payment is in ${currency} but deposit account ${account.name} is in ${account.currency}`);
+        }
+    }
+
+    return currency;
+};
+
 /**
  * Transform our payment to QuickBooks format
+ * Payments whose currency does not match their invoice or deposit account are rejected before reaching QuickBooks
  */
 const transformPaymentToQBO = async (payment: Payment & { invoice?: any }): Promise<QBOPaymentPayload> => {
+    const currency = await resolvePaymentCurrency(payment);
+
     let customerRef = '1'; // Default customer ID
     let qboInvoiceId: string | null = null;
 
@@ -212,10 +215,10 @@ const transformPaymentToQBO = async (payment: Payment & { invoice?: any }): Prom
         try {
             const invoice = await prisma.invoice.findUnique({
                 where: { id: payment.invoiceId },
-                select: { customerId: true, qboInvoiceId: true }
+                select: { qboInvoiceId: true, customer: { select: { qboCustomerId: true } } }
             });
-            if (invoice?.customerId) {
-                customerRef = invoice.customerId;
+            if (invoice?.customer) {
+                customerRef = invoice.customer.qboCustomerId;
             }
             if (invoice?.qboInvoiceId) {
                 qboInvoiceId = invoice.qboInvoiceId;
@@ -252,6 +255,14 @@ const transformPaymentToQBO = async (payment: Payment & { invoice?: any }): Prom
         qboPayload.PrivateNote = payment.notes;
     }
 
+    if (currency) {
+        qboPayload.CurrencyRef = { value: currency };
+    }
+
+    if (payment.exchangeRate) {
+        qboPayload.ExchangeRate = payment.exchangeRate;
+    }
+
     // Handle linked transactions - prioritize QBO invoice ID over stored linkedTransactions
     if (qboInvoiceId) {
         // Use the QBO invoice ID from the related invoice
@@ -278,6 +289,235 @@ const transformPaymentToQBO = async (payment: Payment & { invoice?: any }): Prom
     return qboPayload;
 };
 
+/**
+ * Currency and exchange rate QuickBooks recorded on a payment
+ * Left out when QuickBooks has none (multicurrency off), so local values are kept
+ */
+const currencyFromQBO = (qboPayment: QBOPayment): { currency?: string; exchangeRate?: number } => ({
+    ...(qboPayment.CurrencyRef?.value && { currency: qboPayment.CurrencyRef.value }),
+    ...(qboPayment.ExchangeRate !== undefined && { exchangeRate: qboPayment.ExchangeRate })
+});
+
+/**
+ * Check whether a cancelled payment still has to be deleted in QuickBooks
+ */
+const needsQBODelete = (payment: Payment): boolean => {
+    return !!payment.qboPaymentId && payment.status === 'CANCELLED' && payment.syncStatus !== 'SUCCESS';
+};
+
+/**
+ * Delete an already synced payment in QuickBooks after it was cancelled locally
+ * Logged as a DELETE sync operation; a stale SyncToken is resolved by re-reading the payment
+ */
+const deletePaymentInQBO = async (
+    payment: Payment,
+    qboConnectionId: string,
+    accessToken: string,
+    realmId: string
+): Promise<PaymentSyncResult> => {
+    const qboPaymentId = payment.qboPaymentId!;
+    const paymentLabel = payment.referenceNumber || payment.id;
+
+    try {
+        const qboPayload: QBOPaymentDeletePayload = {
+            Id: qboPaymentId,
+            SyncToken: payment.syncToken || '0'
+        };
+
+        console.log(`Deleting payment ${paymentLabel} in QuickBooks...`);
+
+        await prisma.payment.update({
+            where: { id: payment.id },
+            data: { syncStatus: 'IN_PROGRESS' }
+        });
+
+        await createSyncLog({
+            transactionType: 'PAYMENT',
+            systemTransactionId: payment.id,
+            quickbooksId: qboPaymentId,
+            status: 'IN_PROGRESS',
+            operation: 'DELETE',
+            qboConnectionId,
+            paymentId: payment.id,
+            requestPayload: qboPayload
+        });
+
+        const qbo = createQboClient({ accessToken, realmId });
+        let responseData: any;
+        try {
+            ({ response: responseData } = await qbo.delete<QBOPayment>('Payment', qboPayload));
+        } catch (error) {
+            if (!(error instanceof QBOApiError) || !error.isStaleObject) {
+                throw error;
+            }
+
+            // Someone changed the payment in QuickBooks since our last sync - pick up the current SyncToken and resend
+            const remotePayment = await qbo.read<QBOPayment>('Payment', qboPaymentId);
+            console.log(`🔄 Stale SyncToken for payment ${paymentLabel}, retrying delete with SyncToken ${remotePayment.SyncToken}`);
+
+            qboPayload.SyncToken = remotePayment.SyncToken;
+            ({ response: responseData } = await qbo.delete<QBOPayment>('Payment', qboPayload));
+        }
+
+        await prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+                syncToken: qboPayload.SyncToken,
+                syncStatus: 'SUCCESS',
+                lastSyncedAt: new Date()
+            }
+        });
+
+        await createSyncLog({
+            transactionType: 'PAYMENT',
+            systemTransactionId: payment.id,
+            quickbooksId: qboPaymentId,
+            status: 'SUCCESS',
+            operation: 'DELETE',
+            qboConnectionId,
+            paymentId: payment.id,
+            requestPayload: qboPayload,
+            responsePayload: responseData
+        });
+
+        console.log(`✅ Payment ${paymentLabel} deleted in QuickBooks`);
+
+        return {
+            success: true,
+            qboPaymentId,
+            syncToken: qboPayload.SyncToken,
+            message: `Payment ${paymentLabel} deleted in QuickBooks`
+        };
+
+    } catch (error) {
+        console.error(`❌ Error deleting payment ${payment.id}:`, error);
+
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR';
+
+        if (error instanceof QBOApiError && error.responseData) {
+            console.error('QuickBooks Fault Details:', JSON.stringify(error.responseData, null, 2));
+        }
+
+        try {
+            await prisma.payment.update({
+                where: { id: payment.id },
+                data: { syncStatus: 'FAILED' }
+            });
+
+            await createSyncLog({
+                transactionType: 'PAYMENT',
+                systemTransactionId: payment.id,
+                quickbooksId: qboPaymentId,
+                status: 'FAILED',
+                operation: 'DELETE',
+                qboConnectionId,
+                paymentId: payment.id,
+                errorMessage,
+                errorCode,
+                responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+            });
+        } catch (logError) {
+            console.error('Error updating payment status or creating error log:', logError);
+        }
+
+        return {
+            success: false,
+            message: `Failed to delete payment: ${errorMessage}`,
+            error: errorMessage
+        };
+    }
+};
+
+/**
+ * Store the QuickBooks ID on a newly created payment and log the successful CREATE
+ * The payment is re-pointed at the QuickBooks ID of its invoice when we know it
+ */
+const markPaymentCreated = async (
+    payment: Payment,
+    qboConnectionId: string,
+    qboPayment: QBOPayment,
+    requestPayload: QBOPaymentPayload,
+    responsePayload: any
+): Promise<void> => {
+    // Get the QBO invoice ID from the related invoice to update payment record
+    let qboInvoiceIdForUpdate: string | null = null;
+    let updatedLinkedTransactions: any = null;
+
+    if (payment.invoiceId) {
+        try {
+            const invoice = await prisma.invoice.findUnique({
+                where: { id: payment.invoiceId },
+                select: { qboInvoiceId: true }
+            });
+            if (invoice?.qboInvoiceId) {
+                qboInvoiceIdForUpdate = invoice.qboInvoiceId;
+                // Update linkedTransactions to use the correct QBO invoice ID
+                updatedLinkedTransactions = [{
+                    TxnId: invoice.qboInvoiceId,
+                    TxnType: 'Invoice'
+                }];
+            }
+        } catch (error) {
+            console.warn('Could not fetch QBO invoice ID for payment update:', error);
+        }
+    }
+
+    // Update our payment with QuickBooks ID and correct invoice mapping
+    await prisma.payment.update({
+        where: { id: payment.id },
+        data: {
+            qboPaymentId: qboPayment.Id,
+            syncToken: qboPayment.SyncToken,
+            syncStatus: 'SUCCESS',
+            lastSyncedAt: new Date(),
+            unappliedAmount: qboPayment.UnappliedAmt,
+            ...currencyFromQBO(qboPayment),
+            ...(qboInvoiceIdForUpdate && { qboInvoiceId: qboInvoiceIdForUpdate }),
+            ...(updatedLinkedTransactions && { linkedTransactions: updatedLinkedTransactions })
+        }
+    });
+
+    await createSyncLog({
+        transactionType: 'PAYMENT',
+        systemTransactionId: payment.id,
+        quickbooksId: qboPayment.Id,
+        status: 'SUCCESS',
+        operation: 'CREATE',
+        qboConnectionId,
+        paymentId: payment.id,
+        requestPayload,
+        responsePayload
+    });
+};
+
+/**
+ * Mark a payment as FAILED after its CREATE was rejected and log the error
+ */
+const markPaymentCreateFailed = async (
+    paymentId: string,
+    qboConnectionId: string,
+    failure: { errorMessage: string; errorCode: string; responsePayload?: any }
+): Promise<void> => {
+    await prisma.payment.update({
+        where: { id: paymentId },
+        data: {
+            syncStatus: 'FAILED',
+            lastSyncedAt: new Date()
+        }
+    });
+
+    await createSyncLog({
+        transactionType: 'PAYMENT',
+        systemTransactionId: paymentId,
+        status: 'FAILED',
+        operation: 'CREATE',
+        qboConnectionId,
+        paymentId,
+        ...failure
+    });
+};
+
 /**
  * Sync single payment to QuickBooks
  */
@@ -288,15 +528,23 @@ const syncPaymentToQBO = async (
 ): Promise<PaymentSyncResult> => {
     try {
         // Get QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
-        // Fetch payment details
-        const payment = await prisma.payment.findUnique({
-            where: { id: paymentId }
+        // Fetch payment details - only payments of the connection being synced to
+        const payment = await prisma.payment.findFirst({
+            where: { id: paymentId, qboConnectionId }
         });
 
         if (!payment) {
-            throw new Error(`Payment with ID ${paymentId} not found`);
+            return {
+                success: false,
+                message: `Payment with ID ${paymentId} not found`,
+                error: 'NOT_FOUND'
+            };
+        }
+
+        if (needsQBODelete(payment)) {
+            return await deletePaymentInQBO(payment, qboConnectionId, accessToken, realmId);
         }
 
         if (payment.qboPaymentId) {
@@ -330,79 +578,10 @@ const syncPaymentToQBO = async (
         });
 
         // Make API call to QuickBooks
-        const baseUrl = getQboApiBaseUrl();
-        const response = await axios.post<QBOPaymentResponse>(
-            `${baseUrl}/v3/company/${realmId}/payment`,
-            qboPayload,
-            {
-                headers: {
-                    'Authorization': `Bearer ${accessToken}`,
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-
-        // Check for QuickBooks errors
-        if (response.data.Fault) {
-            const error = response.data.Fault.Error[0];
-            throw new Error(`QuickBooks API Error: ${error.Detail} (Code: ${error.code})`);
-        }
+        const qbo = createQboClient({ accessToken, realmId });
+        const { entity: qboPayment, response: responseData } = await qbo.create<QBOPayment>('Payment', qboPayload);
 
-        const qboPayment = response.data.Payment;
-        if (!qboPayment) {
-            throw new Error('No payment data returned from QuickBooks');
-        }
-
-        // Get the QBO invoice ID from the related invoice to update payment record
-        let qboInvoiceIdForUpdate: string | null = null;
-        let updatedLinkedTransactions: any = null;
-
-        if (payment.invoiceId) {
-            try {
-                const invoice = await prisma.invoice.findUnique({
-                    where: { id: payment.invoiceId },
-                    select: { qboInvoiceId: true }
-                });
-                if (invoice?.qboInvoiceId) {
-                    qboInvoiceIdForUpdate = invoice.qboInvoiceId;
-                    // Update linkedTransactions to use the correct QBO invoice ID
-                    updatedLinkedTransactions = [{
-                        TxnId: invoice.qboInvoiceId,
-                        TxnType: 'Invoice'
-                    }];
-                }
-            } catch (error) {
-                console.warn('Could not fetch QBO invoice ID for payment update:', error);
-            }
-        }
-
-        // Update our payment with QuickBooks ID and correct invoice mapping
-        await prisma.payment.update({
-            where: { id: paymentId },
-            data: {
-                qboPaymentId: qboPayment.Id,
-                syncToken: qboPayment.SyncToken,
-                syncStatus: 'SUCCESS',
-                lastSyncedAt: new Date(),
-                unappliedAmount: qboPayment.UnappliedAmt,
-                ...(qboInvoiceIdForUpdate && { qboInvoiceId: qboInvoiceIdForUpdate }),
-                ...(updatedLinkedTransactions && { linkedTransactions: updatedLinkedTransactions })
-            }
-        });
-
-        // Create success sync log
-        await createSyncLog({
-            transactionType: 'PAYMENT',
-            systemTransactionId: paymentId,
-            quickbooksId: qboPayment.Id,
-            status: 'SUCCESS',
-            operation: 'CREATE',
-            qboConnectionId,
-            paymentId,
-            requestPayload: qboPayload,
-            responsePayload: response.data
-        });
+        await markPaymentCreated(payment, qboConnectionId, qboPayment, qboPayload, responseData);
 
         console.log(`✅ Payment ${payment.referenceNumber || paymentId} synced successfully. QBO ID: ${qboPayment.Id}`);
 
@@ -416,51 +595,23 @@ const syncPaymentToQBO = async (
     } catch (error) {
         console.error(`❌ Error syncing payment ${paymentId}:`, error);
 
-        let errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        let errorCode = 'SYNC_ERROR';
-
-        // Handle Axios errors with QuickBooks API response
-        if (axios.isAxiosError(error)) {
-            errorCode = error.response?.status?.toString() || 'AXIOS_ERROR';
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        const errorCode = error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR';
 
-            // Check for QuickBooks Fault in response
-            const qbError = error.response?.data;
-            if (qbError?.Fault?.Error?.[0]) {
-                const faultError = qbError.Fault.Error[0];
-                errorMessage = `QuickBooks API Error: ${faultError.Detail} (Code: ${faultError.code})`;
-                console.error('QuickBooks Fault Details:', JSON.stringify(qbError.Fault, null, 2));
-
-                // Log the request payload that caused the error
-                console.error('Request payload that caused error:', JSON.stringify(error.config?.data, null, 2));
-            } else {
-                console.error('Full QuickBooks API Error Response:', JSON.stringify(qbError, null, 2));
-            }
+        // Log the QuickBooks response that caused the error
+        if (error instanceof QBOApiError && error.responseData) {
+            console.error('Full QuickBooks API Error Response:', JSON.stringify(error.responseData, null, 2));
         }
 
         // Update payment sync status to FAILED
         try {
-            await prisma.payment.update({
-                where: { id: paymentId },
-                data: {
-                    syncStatus: 'FAILED',
-                    lastSyncedAt: new Date()
-                }
-            });
-
             // Get connection for error log
-            const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+            const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
-            // Create error sync log
-            await createSyncLog({
-                transactionType: 'PAYMENT',
-                systemTransactionId: paymentId,
-                status: 'FAILED',
-                operation: 'CREATE',
-                qboConnectionId,
-                paymentId,
+            await markPaymentCreateFailed(paymentId, qboConnectionId, {
                 errorMessage,
                 errorCode,
-                responsePayload: axios.isAxiosError(error) ? error.response?.data : undefined
+                responsePayload: error instanceof QBOApiError ? error.responseData : undefined
             });
         } catch (logError) {
             console.error('Error updating payment status or creating error log:', logError);
@@ -474,19 +625,294 @@ const syncPaymentToQBO = async (
     }
 };
 
+/**
+ * Manually retry a single payment sync
+ * The retry is recorded as a new attempt on the existing sync log before the payment is re-pushed
+ */
+const retryPaymentSyncToQBO = async (
+    paymentId: string,
+    accessToken: string,
+    realmId: string
+): Promise<PaymentSyncResult> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const payment = await prisma.payment.findFirst({
+            where: { id: paymentId, qboConnectionId }
+        });
+
+        if (!payment) {
+            return {
+                success: false,
+                message: `Payment with ID ${paymentId} not found`,
+                error: 'NOT_FOUND'
+            };
+        }
+
+        // Nothing left to push - the sync below reports ALREADY_SYNCED and the log keeps its status
+        if (payment.qboPaymentId && !needsQBODelete(payment)) {
+            return await syncPaymentToQBO(paymentId, accessToken, realmId);
+        }
+
+        await prisma.syncLog.updateMany({
+            where: {
+                transactionType: 'PAYMENT',
+                systemTransactionId: paymentId,
+                // Cancelled payments already in QuickBooks are retried as a delete
+                operation: needsQBODelete(payment) ? 'DELETE' : 'CREATE',
+                qboConnectionId
+            },
+            data: {
+                status: 'RETRY',
+                retryCount: { increment: 1 },
+                nextRetryAt: null,
+                startedAt: new Date()
+            }
+        });
+
+        return await syncPaymentToQBO(paymentId, accessToken, realmId);
+    } catch (error) {
+        throw new Error(`Failed to retry payment sync: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Change the local status of a payment
+ * Cancelling a synced payment deletes it in QuickBooks as well
+ */
+const updatePaymentStatus = async (
+    paymentId: string,
+    status: PaymentStatus,
+    accessToken: string,
+    realmId: string
+): Promise<PaymentSyncResult> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const payment = await prisma.payment.findFirst({
+            where: { id: paymentId, qboConnectionId }
+        });
+
+        if (!payment) {
+            throw new Error(`Payment with ID ${paymentId} not found`);
+        }
+
+        if (payment.qboPaymentId && payment.status === 'CANCELLED' && status !== 'CANCELLED') {
+            return {
+                success: false,
+                message: `Payment ${payment.referenceNumber || paymentId} is cancelled in QuickBooks and cannot be moved to ${status}`,
+                error: 'INVALID_STATUS_TRANSITION'
+            };
+        }
+
+        const propagate = !!payment.qboPaymentId && status === 'CANCELLED';
+
+        const updatedPayment = await prisma.payment.update({
+            where: { id: paymentId },
+            data: {
+                status,
+                ...(propagate && payment.status !== 'CANCELLED' && { syncStatus: 'PENDING' })
+            }
+        });
+
+        if (!propagate || !needsQBODelete(updatedPayment)) {
+            return {
+                success: true,
+                qboPaymentId: payment.qboPaymentId ?? undefined,
+                syncToken: payment.syncToken ?? undefined,
+                message: `Payment ${payment.referenceNumber || paymentId} status updated to ${status}`
+            };
+        }
+
+        return await deletePaymentInQBO(updatedPayment, qboConnectionId, accessToken, realmId);
+    } catch (error) {
+        throw new Error(`Failed to update payment status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Push new payments through the QuickBooks batch endpoint, up to 30 payments per request
+ * Each BatchItemResponse is matched back to its payment by bId (the payment ID), so every payment keeps its own sync log
+ */
+const syncPaymentsWithBatchApi = async (
+    payments: Array<Payment & { invoice?: any }>,
+    qboConnectionId: string,
+    accessToken: string,
+    realmId: string,
+    options: BulkSyncOptions
+): Promise<BatchSyncResult> => {
+    let qbo = createQboClient({ accessToken, realmId });
+    const results: BatchSyncResult['results'] = [];
+    const totalBatches = Math.ceil(payments.length / QBO_MAX_BATCH_SIZE);
+
+    const recordFailure = async (payment: Payment, failure: { errorMessage: string; errorCode: string; responsePayload?: any }) => {
+        try {
+            await markPaymentCreateFailed(payment.id, qboConnectionId, failure);
+        } catch (logError) {
+            console.error('Error updating payment status or creating error log:', logError);
+        }
+
+        console.log(`❌ Payment ${payment.referenceNumber || payment.id} failed: ${failure.errorMessage}`);
+        results.push({
+            paymentId: payment.id,
+            referenceNumber: payment.referenceNumber || `Payment-${payment.id}`,
+            success: false,
+            message: `Failed to sync payment: ${failure.errorMessage}`,
+            error: failure.errorMessage
+        });
+    };
+
+    /**
+     * Send one batch request and record the outcome of every payment in it
+     */
+    const sendBatch = async (batch: typeof payments, batchNumber: number): Promise<void> => {
+        console.log(`📦 Sending batch request ${batchNumber}/${totalBatches} (${batch.length} payments)`);
+
+        // Build one batch item per payment; payments that cannot be transformed fail without being sent
+        const items: QBOBatchItemRequest[] = [];
+        const payloads = new Map<string, QBOPaymentPayload>();
+
+        for (const payment of batch) {
+            try {
+                const qboPayload = await transformPaymentToQBO(payment);
+
+                await prisma.payment.update({
+                    where: { id: payment.id },
+                    data: { syncStatus: 'IN_PROGRESS' }
+                });
+
+                await createSyncLog({
+                    transactionType: 'PAYMENT',
+                    systemTransactionId: payment.id,
+                    status: 'IN_PROGRESS',
+                    operation: 'CREATE',
+                    qboConnectionId,
+                    paymentId: payment.id,
+                    requestPayload: qboPayload
+                });
+
+                payloads.set(payment.id, qboPayload);
+                items.push({ bId: payment.id, operation: 'create', Payment: qboPayload });
+            } catch (error) {
+                await recordFailure(payment, {
+                    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                    errorCode: 'SYNC_ERROR'
+                });
+            }
+        }
+
+        if (items.length === 0) {
+            return;
+        }
+
+        let responses: Map<string, QBOBatchItemResponse>;
+        try {
+            const batchResponse = await qbo.batch(items);
+            responses = new Map(batchResponse.map(item => [item.bId, item]));
+        } catch (error) {
+            // The batch request itself failed - none of its payments reached QuickBooks
+            console.error(`❌ Batch request ${batchNumber} failed:`, error);
+            for (const payment of batch.filter(payment => payloads.has(payment.id))) {
+                await recordFailure(payment, {
+                    errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                    errorCode: error instanceof QBOApiError ? error.logCode : 'SYNC_ERROR',
+                    responsePayload: error instanceof QBOApiError ? error.responseData : undefined
+                });
+            }
+            return;
+        }
+
+        for (const payment of batch.filter(payment => payloads.has(payment.id))) {
+            const itemResponse = responses.get(payment.id);
+
+            if (!itemResponse || itemResponse.Fault || !itemResponse.Payment) {
+                const itemError = itemResponse?.Fault
+                    ? faultToError(itemResponse.Fault, undefined, itemResponse)
+                    : new QBOApiError('No payment data returned from QuickBooks batch response', { responseData: itemResponse });
+
+                await recordFailure(payment, {
+                    errorMessage: itemError.message,
+                    errorCode: itemError.logCode,
+                    responsePayload: itemResponse
+                });
+                continue;
+            }
+
+            const qboPayment: QBOPayment = itemResponse.Payment;
+            try {
+                await markPaymentCreated(payment, qboConnectionId, qboPayment, payloads.get(payment.id)!, itemResponse);
+            } catch (error) {
+                // The payment exists in QuickBooks even though we could not record it locally
+                console.error(`Error recording synced payment ${payment.referenceNumber || payment.id}:`, error);
+            }
+
+            console.log(`✅ Payment ${payment.referenceNumber || payment.id} synced successfully. QBO ID: ${qboPayment.Id}`);
+            results.push({
+                paymentId: payment.id,
+                referenceNumber: payment.referenceNumber || `Payment-${payment.id}`,
+                success: true,
+                qboPaymentId: qboPayment.Id,
+                message: `Payment ${payment.referenceNumber || payment.id} synced successfully to QuickBooks`
+            });
+        }
+    };
+
+    for (let i = 0; i < payments.length; i += QBO_MAX_BATCH_SIZE) {
+        if (await options.shouldStop?.()) {
+            console.log(`⏹️  Stopping payment sync before batch request ${Math.floor(i / QBO_MAX_BATCH_SIZE) + 1}/${totalBatches}`);
+            break;
+        }
+
+        const batch = payments.slice(i, i + QBO_MAX_BATCH_SIZE);
+        const batchNumber = Math.floor(i / QBO_MAX_BATCH_SIZE) + 1;
+        const resultsBefore = results.length;
+
+        if (options.getAccessToken) {
+            qbo = createQboClient({ accessToken: await options.getAccessToken(), realmId });
+        }
+
+        await sendBatch(batch, batchNumber);
+
+        const batchResults = results.slice(resultsBefore);
+        await options.onBatchComplete?.({
+            batchNumber,
+            totalBatches,
+            processed: batchResults.length,
+            succeeded: batchResults.filter(result => result.success).length,
+            failed: batchResults.filter(result => !result.success).length,
+            failures: batchResults
+                .filter(result => !result.success)
+                .map(result => ({ id: result.paymentId, label: result.referenceNumber, error: result.error }))
+        });
+    }
+
+    const successCount = results.filter(result => result.success).length;
+    const failureCount = results.length - successCount;
+    const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${results.length} payments (sent in ${Math.ceil(results.length / QBO_MAX_BATCH_SIZE)} batch request(s))`;
+    console.log(`📊 ${message}`);
+
+    return {
+        success: true,
+        totalProcessed: results.length,
+        successCount,
+        failureCount,
+        results,
+        message
+    };
+};
+
 /**
  * Sync all pending payments to QuickBooks with concurrency limiting
+ * With useBatchApi the payments are sent through the QuickBooks batch endpoint instead of one request each
  */
 const syncAllPaymentsToQBO = async (
     accessToken: string,
-    realmId: string
+    realmId: string,
+    options: BulkSyncOptions = {}
 ): Promise<BatchSyncResult> => {
     try {
-        // Import p-limit for concurrency control
-        const limit = pLimit(3); // Allow maximum 3 concurrent requests to avoid rate limiting
-
         // Get QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // Fetch ALL pending payments for this connection (we'll process in batches)
         const pendingPayments = await prisma.payment.findMany({
@@ -520,6 +946,11 @@ const syncAllPaymentsToQBO = async (
             };
         }
 
+        if (options.useBatchApi) {
+            console.log(`📋 Found ${pendingPayments.length} pending payments to sync through the batch API`);
+            return await syncPaymentsWithBatchApi(pendingPayments, qboConnectionId, accessToken, realmId, options);
+        }
+
         console.log(`📋 Found ${pendingPayments.length} pending payments to sync in batches of 10`);
 
         const results = [];
@@ -528,65 +959,76 @@ const syncAllPaymentsToQBO = async (
         const BATCH_SIZE = 10;
 
         // Process payments in batches of 10
+        const totalBatches = Math.ceil(pendingPayments.length / BATCH_SIZE);
+
         for (let i = 0; i < pendingPayments.length; i += BATCH_SIZE) {
-            const batch = pendingPayments.slice(i, i + BATCH_SIZE);
             const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-            const totalBatches = Math.ceil(pendingPayments.length / BATCH_SIZE);
+
+            if (await options.shouldStop?.()) {
+                console.log(`⏹️  Stopping payment sync before batch ${batchNumber}/${totalBatches}`);
+                break;
+            }
+
+            const batch = pendingPayments.slice(i, i + BATCH_SIZE);
+            const batchAccessToken = options.getAccessToken ? await options.getAccessToken() : accessToken;
 
             console.log(`📦 Processing batch ${batchNumber}/${totalBatches} (${batch.length} payments)`);
 
-            // Process batch with concurrency control
-            const batchPromises = batch.map(payment => 
-                limit(async () => {
-                    console.log(`💰 Processing payment ${payment.referenceNumber || payment.id}...`);
-                    
-                    const syncResult = await syncPaymentToQBO(payment.id, accessToken, realmId);
-                    
-                    const result = {
-                        paymentId: payment.id,
-                        referenceNumber: payment.referenceNumber || `Payment-${payment.id}`,
-                        invoiceId: payment.invoiceId,
-                        success: syncResult.success,
-                        qboPaymentId: syncResult.qboPaymentId,
-                        message: syncResult.message,
-                        error: syncResult.error,
-                        batchNumber
-                    };
-
-                    if (syncResult.success) {
-                        successCount++;
-                        console.log(`✅ Payment ${payment.referenceNumber || payment.id} synced successfully`);
-                    } else {
-                        failureCount++;
-                        console.log(`❌ Payment ${payment.referenceNumber || payment.id} failed: ${syncResult.error}`);
-                    }
+            // Requests for the whole batch are throttled by the per-realm QuickBooks scheduler
+            const batchPromises = batch.map(async (payment) => {
+                console.log(`💰 Processing payment ${payment.referenceNumber || payment.id}...`);
+                
+                const syncResult = await syncPaymentToQBO(payment.id, batchAccessToken, realmId);
+                
+                const result = {
+                    paymentId: payment.id,
+                    referenceNumber: payment.referenceNumber || `Payment-${payment.id}`,
+                    invoiceId: payment.invoiceId,
+                    success: syncResult.success,
+                    qboPaymentId: syncResult.qboPaymentId,
+                    message: syncResult.message,
+                    error: syncResult.error,
+                    batchNumber
+                };
+
+                if (syncResult.success) {
+                    successCount++;
+                    console.log(`✅ Payment ${payment.referenceNumber || payment.id} synced successfully`);
+                } else {
+                    failureCount++;
+                    console.log(`❌ Payment ${payment.referenceNumber || payment.id} failed: ${syncResult.error}`);
+                }
 
-                    return result;
-                })
-            );
+                return result;
+            });
 
             // Wait for current batch to complete
             const batchResults = await Promise.all(batchPromises);
             results.push(...batchResults);
 
-            // Add delay between batches to respect rate limits
-            if (i + BATCH_SIZE < pendingPayments.length) {
-                console.log(`⏱️  Waiting 2 seconds before next batch...`);
-                await new Promise(resolve => setTimeout(resolve, 2000));
-            }
-
             // Log batch completion
             const batchSuccessCount = batchResults.filter(r => r.success).length;
             const batchFailureCount = batchResults.filter(r => !r.success).length;
             console.log(`📊 Batch ${batchNumber} completed: ${batchSuccessCount} success, ${batchFailureCount} failed`);
+
+            await options.onBatchComplete?.({
+                batchNumber,
+                totalBatches,
+                processed: batchResults.length,
+                succeeded: batchSuccessCount,
+                failed: batchFailureCount,
+                failures: batchResults
+                    .filter(r => !r.success)
+                    .map(r => ({ id: r.paymentId, label: r.referenceNumber, error: r.error }))
+            });
         }
 
-        const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${pendingPayments.length} payments (processed in ${Math.ceil(pendingPayments.length / BATCH_SIZE)} batches)`;
+        const message = `Batch sync completed: ${successCount} successful, ${failureCount} failed out of ${results.length} payments (processed in ${Math.ceil(results.length / BATCH_SIZE)} batches)`;
         console.log(`📊 ${message}`);
 
         return {
             success: true,
-            totalProcessed: pendingPayments.length,
+            totalProcessed: results.length,
             successCount,
             failureCount,
             results,
@@ -602,10 +1044,12 @@ const syncAllPaymentsToQBO = async (
 /**
  * Get payment sync status
  */
-const getPaymentSyncStatus = async (paymentId: string): Promise<PaymentSyncStatusResult> => {
+const getPaymentSyncStatus = async (paymentId: string, realmId: string): Promise<PaymentSyncStatusResult> => {
     try {
-        const payment = await prisma.payment.findUnique({
-            where: { id: paymentId }
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const payment = await prisma.payment.findFirst({
+            where: { id: paymentId, qboConnectionId }
         });
 
         if (!payment) {
@@ -615,7 +1059,8 @@ const getPaymentSyncStatus = async (paymentId: string): Promise<PaymentSyncStatu
         const syncLogs = await prisma.syncLog.findMany({
             where: {
                 transactionType: 'PAYMENT',
-                systemTransactionId: paymentId
+                systemTransactionId: paymentId,
+                qboConnectionId
             },
             orderBy: {
                 timestamp: 'desc'
@@ -980,6 +1425,8 @@ const getPayments = async (options: {
                 qboInvoiceId: payment.qboInvoiceId,
                 invoice: payment.invoice,
                 amount: payment.amount,
+                currency: payment.currency,
+                exchangeRate: payment.exchangeRate,
                 paymentDate: payment.paymentDate,
                 paymentMethod: payment.paymentMethod,
                 referenceNumber: payment.referenceNumber,
@@ -1089,7 +1536,7 @@ const updatePaymentInvoiceMappings = async (accessToken: string, realmId: string
 }> => {
     try {
         // Get QBO connection
-        const qboConnectionId = await findOrCreateConnection(realmId, accessToken);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // Find payments that have null qboInvoiceId but have a related invoice with qboInvoiceId
         const paymentsToUpdate = await prisma.payment.findMany({
@@ -1177,16 +1624,245 @@ const updatePaymentInvoiceMappings = async (accessToken: string, realmId: string
     }
 };
 
+/**
+ * Find the QBO invoice a remote payment is applied to
+ */
+const getLinkedQBOInvoiceId = (qboPayment: QBOPayment): string | undefined => {
+    const linked = [
+        ...(qboPayment.LinkedTxn || []),
+        ...(qboPayment.Line || []).flatMap(line => line.LinkedTxn || [])
+    ];
+    return linked.find(txn => txn.TxnType === 'Invoice')?.TxnId;
+};
+
+/**
+ * Match a page of QuickBooks payments to local ones, creating the ones made directly in QuickBooks
+ */
+const savePaymentsFromQBO = async (qboPayments: QBOPayment[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+    let skipped = 0;
+    let oldestDeferredAt: Date | undefined;
+
+    for (const qboPayment of qboPayments) {
+        const existingPayment = await prisma.payment.findUnique({
+            where: { qboConnectionId_qboPaymentId: { qboConnectionId, qboPaymentId: qboPayment.Id } }
+        }) ?? (qboPayment.PaymentRefNum
+            ? await prisma.payment.findFirst({
+                where: { qboConnectionId, referenceNumber: qboPayment.PaymentRefNum, qboPaymentId: null }
+            })
+            : null);
+
+        const updatedAtQB = qboPayment.MetaData?.LastUpdatedTime
+            ? new Date(qboPayment.MetaData.LastUpdatedTime)
+            : null;
+
+        const qboInvoiceId = getLinkedQBOInvoiceId(qboPayment);
+
+        if (existingPayment) {
+            // A cancellation that has not reached QuickBooks yet must not be overwritten,
+            // and keeps the SyncToken it was made against until it is pushed
+            const pendingDelete = needsQBODelete(existingPayment);
+
+            await prisma.payment.update({
+                where: { id: existingPayment.id },
+                data: {
+                    qboPaymentId: qboPayment.Id,
+                    ...(!pendingDelete && { syncToken: qboPayment.SyncToken }),
+                    totalAmount: qboPayment.TotalAmt,
+                    unappliedAmount: qboPayment.UnappliedAmt,
+                    ...currencyFromQBO(qboPayment),
+                    updatedAtQB,
+                    ...(qboInvoiceId && { qboInvoiceId }),
+                    ...(!pendingDelete && {
+                        syncStatus: 'SUCCESS',
+                        lastSyncedAt: new Date()
+                    })
+                }
+            });
+            updated++;
+            continue;
+        }
+
+        // Created directly in QuickBooks - it has to be applied to an invoice we know about
+        const invoice = qboInvoiceId
+            ? await prisma.invoice.findUnique({ where: { qboConnectionId_qboInvoiceId: { qboConnectionId, qboInvoiceId } } })
+            : null;
+
+        if (!invoice) {
+            console.warn(`⚠️ Skipping QBO payment ${qboPayment.Id}: it is not applied to an invoice that exists locally`);
+            skipped++;
+            oldestDeferredAt = earliestOf(oldestDeferredAt, updatedAtQB);
+            continue;
+        }
+
+        await prisma.payment.create({
+            data: {
+                qboPaymentId: qboPayment.Id,
+                invoiceId: invoice.id,
+                qboInvoiceId,
+                amount: qboPayment.TotalAmt,
+                ...currencyFromQBO(qboPayment),
+                paymentDate: new Date(qboPayment.TxnDate),
+                referenceNumber: qboPayment.PaymentRefNum || null,
+                notes: qboPayment.PrivateNote || null,
+                status: 'COMPLETED',
+                depositToAccountRef: qboPayment.DepositToAccountRef?.value || null,
+                unappliedAmount: qboPayment.UnappliedAmt,
+                totalAmount: qboPayment.TotalAmt,
+                processPayment: qboPayment.ProcessPayment ?? false,
+                linkedTransactions: [{ TxnId: qboInvoiceId, TxnType: 'Invoice' }],
+                qboConnectionId,
+                syncStatus: 'SUCCESS',
+                syncToken: qboPayment.SyncToken,
+                lastSyncedAt: new Date(),
+                updatedAtQB
+            }
+        });
+        created++;
+    }
+
+    return { created, updated, skipped, oldestDeferredAt };
+};
+
+/**
+ * Mark payments deleted in QuickBooks as cancelled
+ * The QuickBooks Id is kept, so a deleted payment is never posted again
+ */
+const markPaymentsDeletedInQBO = async (qboPaymentIds: string[], qboConnectionId: string): Promise<number> => {
+    const result = await prisma.payment.updateMany({
+        where: { qboConnectionId, qboPaymentId: { in: qboPaymentIds }, status: { not: 'CANCELLED' } },
+        data: {
+            status: 'CANCELLED',
+            syncStatus: 'SUCCESS',
+            lastSyncedAt: new Date()
+        }
+    });
+
+    return result.count;
+};
+
+/**
+ * Import payments from QuickBooks to database
+ * Uses incremental sync based on the last QuickBooks update we pulled
+ */
+const importPaymentsFromQBO = async (accessToken: string, realmId: string, options: QBOPullOptions = {}): Promise<PaymentImportResult> => {
+    try {
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        // 1. Find where the last import of this connection left off
+        const watermark = await prisma.syncWatermark.findUnique({
+            where: { qboConnectionId_entityName: { qboConnectionId, entityName: PAYMENT_IMPORT_WATERMARK } }
+        });
+
+        // 2. Build dynamic query for incremental sync - a targeted refresh only reads the given records
+        // Inclusive, so records updated in the same instant as the watermark are never missed
+        const query = options.ids
+            ? `SELECT * FROM Payment WHERE ${buildIdFilter(options.ids)}`
+            : watermark
+                ? `SELECT * FROM Payment WHERE MetaData.LastUpdatedTime >= '${watermark.changedSince.toISOString()}'`
+                : `SELECT * FROM Payment`;
+
+        console.log('Executing QuickBooks Payment query:', query);
+
+        // 3. Fetch every page from QuickBooks and match each remote payment to a local one as it arrives
+        let created = 0;
+        let updated = 0;
+        let skipped = 0;
+        let latestUpdatedAt: Date | undefined;
+        let oldestDeferredAt: Date | undefined;
+
+        const qbo = createQboClient({ accessToken, realmId });
+        const { totalRecords, pages } = await qbo.queryAllPages<QBOPayment>(
+            query,
+            'Payment',
+            async (qboPayments) => {
+                const saved = await savePaymentsFromQBO(qboPayments, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
+                skipped += saved.skipped;
+                oldestDeferredAt = earliestOf(oldestDeferredAt, saved.oldestDeferredAt);
+
+                for (const qboPayment of qboPayments) {
+                    const updatedAt = qboPayment.MetaData?.LastUpdatedTime ? new Date(qboPayment.MetaData.LastUpdatedTime) : undefined;
+                    if (updatedAt && (!latestUpdatedAt || updatedAt > latestUpdatedAt)) {
+                        latestUpdatedAt = updatedAt;
+                    }
+                }
+            }
+        );
+
+        // 4. Move the watermark - never past a record skipped for a missing reference, so it is read again next time
+        const nextWatermark = oldestDeferredAt ?? latestUpdatedAt;
+        if (!options.ids && nextWatermark) {
+            await prisma.syncWatermark.upsert({
+                where: { qboConnectionId_entityName: { qboConnectionId, entityName: PAYMENT_IMPORT_WATERMARK } },
+                create: { qboConnectionId, entityName: PAYMENT_IMPORT_WATERMARK, changedSince: nextWatermark },
+                update: { changedSince: nextWatermark, lastRunAt: new Date() }
+            });
+        }
+
+        console.log(`Fetched ${totalRecords} payments from QuickBooks in ${pages} page(s)`);
+
+        if (totalRecords === 0) {
+            return {
+                success: true,
+                totalPayments: 0,
+                created: 0,
+                updated: 0,
+                skipped: 0,
+                pages,
+                message: 'No new or updated payments found in QuickBooks'
+            };
+        }
+
+        // Update connection's last sync timestamp
+        await prisma.qBOConnection.update({
+            where: { id: qboConnectionId },
+            data: { lastSyncAt: new Date() }
+        });
+
+        const message = `${totalRecords} payment(s) imported: ${created} created, ${updated} updated, ${skipped} skipped`;
+        console.log(message);
+
+        return {
+            success: true,
+            totalPayments: totalRecords,
+            pages,
+            created,
+            updated,
+            skipped,
+            message
+        };
+
+    } catch (error) {
+        console.error('Error importing Payments:', error);
+
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
+        }
+
+        throw new Error(`Payment import failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
 // Export all service functions
 const paymentSyncService = {
     syncPaymentToQBO,
+    retryPaymentSyncToQBO,
+    updatePaymentStatus,
     syncAllPaymentsToQBO,
     getPaymentSyncStatus,
     getAllPaymentsSyncStatus,
     getSyncStatistics,
     getPayments,
     getPaymentById,
-    updatePaymentInvoiceMappings
+    updatePaymentInvoiceMappings,
+    importPaymentsFromQBO,
+    savePaymentsFromQBO,
+    markPaymentsDeletedInQBO
 };
 
 export default paymentSyncService;
@@ -0,0 +1,414 @@
+// services/qboClient.ts
+
+import axios, { AxiosRequestConfig } from 'axios';
+import { QBOEnvironment } from '@prisma/client';
+import { prisma } from '../config/db';
+import { quickbooksConfig } from '../config/quickbooks';
+import qboScheduler from './qboScheduler';
+import {
+    QBOBatchItemRequest,
+    QBOBatchItemResponse,
+    QBOChangeDataCaptureResult,
+    QBOClientHooks,
+    QBOFault,
+    QBOOperation,
+    QBOQueryResult,
+    QBORequestContext
+} from '../types/quickbooks';
+
+// QuickBooks never returns more than 1000 rows for a single query
+export const QBO_MAX_PAGE_SIZE = 1000;
+
+// QuickBooks accepts at most 30 operations in a single batch request
+export const QBO_MAX_BATCH_SIZE = 30;
+
+// QuickBooks only keeps change data capture history for the last 30 days
+export const QBO_CDC_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Fault code returned when the SyncToken we send is out of date
+export const QBO_STALE_OBJECT_ERROR = '5010';
+
+/**
+ * Error thrown for every failed QuickBooks API call
+ * The message keeps the wording getStatusCode relies on; the Fault details are kept on the error
+ */
+export class QBOApiError extends Error {
+    statusCode?: number;
+    code?: string;
+    detail?: string;
+    element?: string;
+    faultType?: string;
+    responseData?: any;
+
+    constructor(message: string, details: {
+        statusCode?: number;
+        code?: string;
+        detail?: string;
+        element?: string;
+        faultType?: string;
+        responseData?: any;
+    } = {}) {
+        super(message);
+        this.name = 'QBOApiError';
+        Object.assign(this, details);
+    }
+
+    get isStaleObject(): boolean {
+        return this.code === QBO_STALE_OBJECT_ERROR;
+    }
+
+    /**
+     * Error code stored on sync logs - HTTP status when we got one, otherwise the Fault code
+     */
+    get logCode(): string {
+        return this.statusCode?.toString() || this.code || 'QBO_ERROR';
+    }
+}
+
+/**
+ * Build a query condition matching the given entity Ids
+ * QuickBooks Ids are numeric - anything else is dropped so it can never end up in the query
+ */
+export const buildIdFilter = (ids: string[]): string => {
+    const validIds = ids.filter(id => /^\d+$/.test(id));
+    if (validIds.length === 0) {
+        throw new QBOApiError('At least one valid QuickBooks Id is required');
+    }
+    return `Id IN (${validIds.map(id => `'${id}'`).join(', ')})`;
+};
+
+/**
+ * Map a QuickBooks Fault to a typed error
+ */
+export const faultToError = (fault: QBOFault, statusCode?: number, responseData?: any): QBOApiError => {
+    const first = fault.Error?.[0];
+    const detail = first?.Detail || first?.Message || 'Unknown QuickBooks error';
+    const details = {
+        statusCode,
+        code: first?.code,
+        detail,
+        element: first?.element,
+        faultType: fault.type,
+        responseData
+    };
+
+    if (statusCode === 401 || fault.type === 'AUTHENTICATION') {
+        return new QBOApiError('Authentication failed - token may be expired or invalid', details);
+    }
+    if (statusCode === 403 || fault.type === 'AuthorizationFault') {
+        return new QBOApiError('Access forbidden - insufficient permissions', details);
+    }
+    return new QBOApiError(`QuickBooks API Error: ${detail} (Code: ${first?.code})`, details);
+};
+
+/**
+ * Map any error thrown while talking to QuickBooks to a QBOApiError
+ */
+const toQBOApiError = (error: unknown): QBOApiError => {
+    if (error instanceof QBOApiError) {
+        return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+        const statusCode = error.response?.status;
+        const data = error.response?.data;
+
+        // QuickBooks sends the Fault with either casing depending on the endpoint
+        const fault: QBOFault | undefined = data?.Fault || data?.fault;
+        if (fault) {
+            return faultToError(fault, statusCode, data);
+        }
+        if (statusCode === 401) {
+            return new QBOApiError('Authentication failed - token may be expired or invalid', { statusCode, responseData: data });
+        }
+        if (statusCode === 403) {
+            return new QBOApiError('Access forbidden - insufficient permissions', { statusCode, responseData: data });
+        }
+        if (statusCode === 429) {
+            return new QBOApiError('QuickBooks rate limit exceeded - please try again later', { statusCode, responseData: data });
+        }
+        return new QBOApiError(`QuickBooks API request failed: ${error.message}`, { statusCode, responseData: data });
+    }
+
+    return new QBOApiError(`QuickBooks API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+};
+
+/**
+ * Get the credentials and API base URL for a QuickBooks environment
+ * Connections made before the environment was stored use the configured default
+ */
+export const getEnvironmentSettings = (environment?: QBOEnvironment | null) => {
+    return quickbooksConfig.environments[environment ?? quickbooksConfig.defaultEnvironment];
+};
+
+/**
+ * Look up which environment a realm was connected in
+ */
+const resolveRealmEnvironment = async (realmId: string): Promise<QBOEnvironment | null> => {
+    const connection = await prisma.qBOConnection.findUnique({
+        where: { realmId },
+        select: { environment: true }
+    });
+    return connection?.environment ?? null;
+};
+
+// Hooks applied to every client, e.g. for logging or rate limiting
+const globalHooks: QBOClientHooks[] = [];
+
+/**
+ * Register hooks that run for every QuickBooks request made through any client
+ */
+export const registerQboClientHooks = (hooks: QBOClientHooks): void => {
+    globalHooks.push(hooks);
+};
+
+/**
+ * Create a QuickBooks API client for one company (realm)
+ * Requests go to the API of the environment the realm was connected in, unless one is given
+ */
+export const createQboClient = (options: {
+    accessToken: string;
+    realmId: string;
+    environment?: QBOEnvironment;
+    minorVersion?: string;
+    hooks?: QBOClientHooks;
+}) => {
+    const { accessToken, realmId } = options;
+    const minorVersion = options.minorVersion || quickbooksConfig.minorVersion;
+    const hooks = options.hooks ? [...globalHooks, options.hooks] : globalHooks;
+
+    // Resolved on the first request and reused for the lifetime of the client
+    let companyUrl: Promise<string> | null = null;
+    const getCompanyUrl = (): Promise<string> => {
+        companyUrl ??= (options.environment ? Promise.resolve(options.environment) : resolveRealmEnvironment(realmId))
+            .then(environment => `${getEnvironmentSettings(environment).apiBaseUrl}/v3/company/${realmId}`)
+            .catch(error => {
+                // Let the next request retry the lookup
+                companyUrl = null;
+                throw error;
+            });
+        return companyUrl;
+    };
+
+    const request = async <T>(
+        context: Omit<QBORequestContext, 'realmId' | 'url'> & { path: string; params?: Record<string, string> }
+    ): Promise<T> => {
+        const { path, params, ...rest } = context;
+        const requestContext: QBORequestContext = { ...rest, realmId, url: `${await getCompanyUrl()}${path}` };
+
+        for (const hook of hooks) {
+            await hook.onRequest?.(requestContext);
+        }
+
+        const config: AxiosRequestConfig = {
+            method: requestContext.method,
+            url: requestContext.url,
+            params: { ...params, minorversion: minorVersion },
+            data: requestContext.payload,
+            headers: {
+                'Authorization': `Bearer ${accessToken}`,
+                'Accept': 'application/json',
+                ...(requestContext.method === 'POST' && { 'Content-Type': 'application/json' })
+            }
+        };
+
+        const startedAt = Date.now();
+        try {
+            // Every call waits for the realm's rate limits; 429s are retried by the scheduler
+            const response = await qboScheduler.schedule(realmId, () => axios.request(config));
+
+            // QuickBooks can report a Fault with a 200 status
+            if (response.data?.Fault) {
+                throw faultToError(response.data.Fault, response.status, response.data);
+            }
+
+            for (const hook of hooks) {
+                await hook.onResponse?.(requestContext, {
+                    status: response.status,
+                    data: response.data,
+                    durationMs: Date.now() - startedAt
+                });
+            }
+
+            return response.data as T;
+        } catch (error) {
+            const qboError = toQBOApiError(error);
+            for (const hook of hooks) {
+                await hook.onError?.(requestContext, qboError);
+            }
+            throw qboError;
+        }
+    };
+
+    /**
+     * Run a query and return one page of results
+     */
+    const query = async <T>(statement: string, entity: string): Promise<QBOQueryResult<T>> => {
+        const data = await request<{ QueryResponse: any }>({
+            operation: 'query',
+            entity,
+            method: 'GET',
+            path: '/query',
+            params: { query: statement }
+        });
+
+        return {
+            records: data.QueryResponse?.[entity] || [],
+            startPosition: data.QueryResponse?.startPosition,
+            maxResults: data.QueryResponse?.maxResults,
+            totalCount: data.QueryResponse?.totalCount
+        };
+    };
+
+    /**
+     * Count the rows a SELECT * query matches
+     */
+    const count = async (statement: string, entity: string): Promise<number> => {
+        const { totalCount } = await query(statement.replace(/^SELECT \* FROM/i, 'SELECT COUNT(*) FROM'), entity);
+        return totalCount ?? 0;
+    };
+
+    /**
+     * Run a query page by page using STARTPOSITION/MAXRESULTS until all rows are read
+     * Each page is handed to onPage before the next one is requested, so large companies are never held in memory at once
+     * Pages are ordered by Id - without a stable order QuickBooks can skip or repeat rows between pages
+     */
+    const queryAllPages = async <T>(
+        statement: string,
+        entity: string,
+        onPage: (records: T[], pageNumber: number) => Promise<void>,
+        pageSize: number = QBO_MAX_PAGE_SIZE
+    ): Promise<{ totalRecords: number; pages: number }> => {
+        const size = Math.min(pageSize, QBO_MAX_PAGE_SIZE);
+        const orderedStatement = /\bORDERBY\b/i.test(statement) ? statement : `${statement} ORDERBY Id`;
+        let startPosition = 1;
+        let totalRecords = 0;
+        let pages = 0;
+
+        while (true) {
+            const { records } = await query<T>(`${orderedStatement} STARTPOSITION ${startPosition} MAXRESULTS ${size}`, entity);
+            pages++;
+
+            if (records.length > 0) {
+                await onPage(records, pages);
+                totalRecords += records.length;
+                console.log(`📄 ${entity} page ${pages}: ${records.length} record(s)`);
+            }
+
+            // A short page means QuickBooks has nothing left after it
+            if (records.length < size) {
+                break;
+            }
+
+            startPosition += size;
+        }
+
+        return { totalRecords, pages };
+    };
+
+    /**
+     * Read a single entity by its QuickBooks Id
+     */
+    const read = async <T>(entity: string, id: string): Promise<T> => {
+        const data = await request<Record<string, T>>({
+            operation: 'read',
+            entity,
+            method: 'GET',
+            path: `/${entity.toLowerCase()}/${id}`
+        });
+
+        if (!data[entity]) {
+            throw new QBOApiError(`${entity} ${id} not found in QuickBooks`);
+        }
+        return data[entity];
+    };
+
+    /**
+     * Send an entity write (create/update/delete/void) and return the entity from the response
+     */
+    const write = async <T>(operation: QBOOperation, entity: string, payload: unknown): Promise<{ entity: T; response: any }> => {
+        const data = await request<Record<string, any>>({
+            operation,
+            entity,
+            method: 'POST',
+            path: `/${entity.toLowerCase()}`,
+            payload,
+            ...(operation === 'delete' || operation === 'void' ? { params: { operation } } : {})
+        });
+
+        if (!data[entity]) {
+            throw new QBOApiError(`No ${entity.toLowerCase()} data returned from QuickBooks`, { responseData: data });
+        }
+        return { entity: data[entity] as T, response: data };
+    };
+
+    const create = <T>(entity: string, payload: unknown) => write<T>('create', entity, payload);
+
+    // Payload must carry Id and SyncToken; set sparse: true to only change the fields sent
+    const update = <T>(entity: string, payload: { Id: string; SyncToken: string; sparse?: boolean; [key: string]: any }) =>
+        write<T>('update', entity, payload);
+
+    const remove = <T>(entity: string, payload: { Id: string; SyncToken: string }) => write<T>('delete', entity, payload);
+
+    const voidTransaction = <T>(entity: string, payload: { Id: string; SyncToken: string }) => write<T>('void', entity, payload);
+
+    /**
+     * Send up to 30 operations in one batch request
+     * Individual items can fail with their own Fault while the batch itself succeeds
+     */
+    const batch = async (items: QBOBatchItemRequest[]): Promise<QBOBatchItemResponse[]> => {
+        if (items.length > QBO_MAX_BATCH_SIZE) {
+            throw new QBOApiError(`A QuickBooks batch request must not contain more than ${QBO_MAX_BATCH_SIZE} items`);
+        }
+
+        const data = await request<{ BatchItemResponse?: QBOBatchItemResponse[] }>({
+            operation: 'batch',
+            method: 'POST',
+            path: '/batch',
+            payload: { BatchItemRequest: items }
+        });
+
+        return data.BatchItemResponse || [];
+    };
+
+    /**
+     * Read every change to the given entities since a point in time
+     * QuickBooks returns at most 1000 changes per entity - callers have to ask again from the last change they saw
+     */
+    const changeDataCapture = async (entities: string[], changedSince: Date): Promise<QBOChangeDataCaptureResult> => {
+        const data = await request<{ CDCResponse?: Array<{ QueryResponse?: Array<Record<string, any>> }>; time: string }>({
+            operation: 'cdc',
+            method: 'GET',
+            path: '/cdc',
+            params: { entities: entities.join(','), changedSince: changedSince.toISOString() }
+        });
+
+        // Each QueryResponse holds the changes for a single entity
+        const changes: Record<string, any[]> = {};
+        for (const queryResponse of data.CDCResponse?.[0]?.QueryResponse ?? []) {
+            for (const entity of entities) {
+                if (Array.isArray(queryResponse[entity])) {
+                    changes[entity] = [...(changes[entity] ?? []), ...queryResponse[entity]];
+                }
+            }
+        }
+
+        return { changes, time: data.time };
+    };
+
+    return {
+        realmId,
+        query,
+        count,
+        queryAllPages,
+        read,
+        create,
+        update,
+        delete: remove,
+        voidTransaction,
+        batch,
+        changeDataCapture
+    };
+};
+
+export type QBOClient = ReturnType<typeof createQboClient>;
@@ -0,0 +1,181 @@
+// services/qboScheduler.ts
+
+import axios from 'axios';
+import { qboRateLimitConfig } from '../config/qboRateLimit';
+import { QBORealmQueueStatus } from '../types/quickbooks';
+
+interface RealmState {
+    tokens: number;
+    lastRefillAt: number;
+    active: number;
+    queue: Array<() => void>;
+    pausedUntil: number;
+    timer: NodeJS.Timeout | null;
+}
+
+// One token bucket per realm, shared by every request made in this process
+const realms = new Map<string, RealmState>();
+
+const getRealmState = (realmId: string): RealmState => {
+    let state = realms.get(realmId);
+    if (!state) {
+        state = {
+            tokens: qboRateLimitConfig.burstSize,
+            lastRefillAt: Date.now(),
+            active: 0,
+            queue: [],
+            pausedUntil: 0,
+            timer: null
+        };
+        realms.set(realmId, state);
+    }
+    return state;
+};
+
+/**
+ * Add the tokens earned since the last refill, never going above the burst size
+ */
+const refill = (state: RealmState): void => {
+    const now = Date.now();
+    const tokensPerMs = qboRateLimitConfig.requestsPerMinute / 60000;
+
+    state.tokens = Math.min(
+        qboRateLimitConfig.burstSize,
+        state.tokens + (now - state.lastRefillAt) * tokensPerMs
+    );
+    state.lastRefillAt = now;
+};
+
+/**
+ * Start as many queued requests as the bucket, the concurrency limit and any 429 pause allow
+ * If requests are still waiting for a token or for a pause to end, a timer wakes the queue up again
+ */
+const drain = (realmId: string): void => {
+    const state = getRealmState(realmId);
+    refill(state);
+
+    const now = Date.now();
+    while (
+        state.queue.length > 0 &&
+        state.active < qboRateLimitConfig.maxConcurrent &&
+        state.tokens >= 1 &&
+        now >= state.pausedUntil
+    ) {
+        state.tokens -= 1;
+        state.active++;
+        state.queue.shift()!();
+    }
+
+    // Waiting on a free slot is handled by release(); only tokens and pauses need a timer
+    if (state.queue.length === 0 || state.active >= qboRateLimitConfig.maxConcurrent || state.timer) {
+        return;
+    }
+
+    const tokenWaitMs = state.tokens >= 1
+        ? 0
+        : Math.ceil((1 - state.tokens) / (qboRateLimitConfig.requestsPerMinute / 60000));
+    const waitMs = Math.max(tokenWaitMs, state.pausedUntil - now, 1);
+
+    state.timer = setTimeout(() => {
+        state.timer = null;
+        drain(realmId);
+    }, waitMs);
+};
+
+const acquire = (realmId: string): Promise<void> => {
+    return new Promise(resolve => {
+        getRealmState(realmId).queue.push(resolve);
+        drain(realmId);
+    });
+};
+
+const release = (realmId: string): void => {
+    const state = getRealmState(realmId);
+    state.active--;
+    drain(realmId);
+};
+
+/**
+ * Stop sending requests for a realm until the given time has passed
+ */
+const pauseRealm = (realmId: string, delayMs: number): void => {
+    const state = getRealmState(realmId);
+    state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delayMs);
+    console.log(`⏳ QuickBooks rate limit hit for realm ${realmId}, pausing requests for ${Math.ceil(delayMs / 1000)}s`);
+};
+
+/**
+ * Read how long QuickBooks wants us to wait from a 429 response
+ * Returns null when the error is not a rate limit error
+ */
+const getRetryAfterMs = (error: unknown): number | null => {
+    if (!axios.isAxiosError(error) || error.response?.status !== 429) {
+        return null;
+    }
+
+    // Retry-After is either a number of seconds or an HTTP date
+    const retryAfter = error.response.headers?.['retry-after'];
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+
+        const retryAt = Date.parse(retryAfter);
+        if (!isNaN(retryAt)) {
+            return Math.max(retryAt - Date.now(), 0);
+        }
+    }
+
+    return qboRateLimitConfig.defaultRetryAfterMs;
+};
+
+/**
+ * Run a QuickBooks request for a realm once the realm's rate limits allow it
+ * A 429 pauses the whole realm for the Retry-After period and the request is queued again
+ */
+const schedule = async <T>(realmId: string, task: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        await acquire(realmId);
+
+        try {
+            return await task();
+        } catch (error) {
+            const retryAfterMs = getRetryAfterMs(error);
+            if (retryAfterMs === null || attempt >= qboRateLimitConfig.maxRateLimitRetries) {
+                throw error;
+            }
+
+            pauseRealm(realmId, retryAfterMs);
+        } finally {
+            release(realmId);
+        }
+    }
+};
+
+/**
+ * Get the queue depth for one realm, or for every realm that has made requests
+ */
+const getQueueStatus = (realmId?: string): QBORealmQueueStatus[] => {
+    const realmIds = realmId ? [realmId] : Array.from(realms.keys());
+
+    return realmIds.map(id => {
+        const state = getRealmState(id);
+        refill(state);
+
+        return {
+            realmId: id,
+            queued: state.queue.length,
+            active: state.active,
+            availableTokens: Math.floor(state.tokens),
+            pausedUntil: state.pausedUntil > Date.now() ? new Date(state.pausedUntil) : null
+        };
+    });
+};
+
+const qboScheduler = {
+    schedule,
+    getQueueStatus
+};
+
+export default qboScheduler;
@@ -1,6 +1,8 @@
 // services/quickbooksAuthService.ts
 
 import axios from 'axios';
+import crypto from 'crypto';
+import { QBOConnection, QBOEnvironment } from '@prisma/client';
 import { prisma } from '../config/db';
 import { quickbooksConfig } from '../config/quickbooks';
 import {
@@ -9,9 +11,12 @@ import {
     QBOAuthRequest,
     QBOConnectionData,
     QBOCompanyInfo,
-    AuthState,
     QBOAuthUrl
 } from '../types/quickbooks';
+import { createQboClient, getEnvironmentSettings } from './qboClient';
+import sessionService from './sessionService';
+import { hasRole } from './userService';
+import { tokenRefreshConfig } from '../config/tokenRefresh';
 
 // Input validation helpers
 const validateRealmId = (realmId: string): string => {
@@ -28,25 +33,39 @@ const validateAuthCode = (code: string): string => {
     return code;
 };
 
-const validateState = (state: string): AuthState => {
+/**
+ * Check the state was issued by us to this session, and consume it so it cannot be replayed
+ * Returns the return URL and environment stored with the state
+ */
+const validateState = async (state: string, sessionId: string): Promise<{ returnUrl?: string; environment: QBOEnvironment }> => {
     if (!state) {
         throw new Error('State parameter is required');
     }
 
-    try {
-        const parsed = JSON.parse(Buffer.from(state, 'base64url').toString());
-        const now = Date.now();
-        const stateAge = now - parsed.timestamp;
+    const now = new Date();
 
-        // State should not be older than 10 minutes
-        if (stateAge > 10 * 60 * 1000) {
-            throw new Error('State parameter has expired');
-        }
+    // Consuming in a single conditional update means two callbacks racing with the same state can't both win
+    const consumed = await prisma.oAuthState.updateMany({
+        where: { nonce: state, sessionId, consumedAt: null, expiresAt: { gt: now } },
+        data: { consumedAt: now }
+    });
 
-        return parsed;
-    } catch (error) {
-        throw new Error('Invalid state parameter format');
+    const issued = await prisma.oAuthState.findUnique({ where: { nonce: state } });
+
+    if (consumed.count === 0) {
+        if (!issued) {
+            throw new Error('Invalid state parameter - it was not issued by this server');
+        }
+        if (issued.sessionId !== sessionId) {
+            throw new Error('Invalid state parameter - it was issued to a different session');
+        }
+        if (issued.consumedAt) {
+            throw new Error('Invalid state parameter - it has already been used');
+        }
+        throw new Error('State parameter has expired');
     }
+
+    return { returnUrl: issued?.returnUrl || undefined, environment: issued!.environment };
 };
 
 const validateConnectionId = (connectionId: string): string => {
@@ -56,33 +75,46 @@ const validateConnectionId = (connectionId: string): string => {
     return connectionId;
 };
 
+const toConnectionData = (connection: QBOConnection): QBOConnectionData => ({
+    id: connection.id,
+    accessToken: connection.accessToken,
+    refreshToken: connection.refreshToken,
+    realmId: connection.realmId,
+    environment: connection.environment ?? quickbooksConfig.defaultEnvironment,
+    expiresAt: connection.expiresAt,
+    refreshExpiresAt: connection.refreshExpiresAt,
+    isConnected: connection.isConnected,
+    companyName: connection.companyName || undefined,
+    connectedAt: connection.connectedAt,
+    lastSyncAt: connection.lastSyncAt || undefined,
+    reauthRequiredAt: connection.reauthRequiredAt || undefined
+});
+
 // Environment variables
-const clientId = quickbooksConfig.clientId;
-const clientSecret = quickbooksConfig.clientSecret;
 const redirectUri = quickbooksConfig.redirectUri;
 const tokenUrl = quickbooksConfig.tokenUrl;
 const authUrl = quickbooksConfig.authUrl;
 
-// Helper functions for environment-based URLs
-const getQboApiBaseUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? process.env.QBO_API_BASE_URL_PRODUCTION || process.env.API_BASE_URL || ''
-        : process.env.QBO_API_BASE_URL_SANDBOX || process.env.API_BASE_URL || '';
-};
-
-const getRevokeUrl = (): string => {
-    return process.env.ENVIRONMENT === 'production'
-        ? 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke'
-        : 'https://developer.api.intuit.com/v2/oauth2/tokens/revoke';
+/**
+ * Basic auth header for Intuit's OAuth endpoints, using the app keys of the given environment
+ */
+const getBasicAuthHeader = (environment?: QBOEnvironment | null): string => {
+    const { clientId, clientSecret } = getEnvironmentSettings(environment);
+    return `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
 };
 
 /**
  * Generate QuickBooks OAuth authorization URL
  */
-const getAuthorizationUrl = (returnUrl?: string): QBOAuthUrl => {
+const getAuthorizationUrl = async (
+    sessionId: string,
+    returnUrl?: string,
+    environment: QBOEnvironment = quickbooksConfig.defaultEnvironment
+): Promise<QBOAuthUrl> => {
     try {
-        const state = generateState(returnUrl);
+        const state = await generateState(sessionId, environment, returnUrl);
         const scopes = quickbooksConfig.scopes.join(' ');
+        const { clientId } = getEnvironmentSettings(environment);
 
         const authorizationUrl = `${authUrl}?` +
             `client_id=${clientId}&` +
@@ -92,7 +124,7 @@ const getAuthorizationUrl = (returnUrl?: string): QBOAuthUrl => {
             `access_type=offline&` +
             `state=${state}`;
 
-        return { authUrl: authorizationUrl, state };
+        return { authUrl: authorizationUrl, state, environment };
     } catch (error) {
         throw new Error(`Failed to generate authorization URL: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -101,7 +133,7 @@ const getAuthorizationUrl = (returnUrl?: string): QBOAuthUrl => {
 /**
  * Exchange authorization code for access and refresh tokens
  */
-const exchangeCodeForTokens = async (code: string): Promise<QBOAuthTokenResponse> => {
+const exchangeCodeForTokens = async (code: string, environment: QBOEnvironment): Promise<QBOAuthTokenResponse> => {
     try {
         const validCode = validateAuthCode(code);
 
@@ -111,11 +143,9 @@ const exchangeCodeForTokens = async (code: string): Promise<QBOAuthTokenResponse
             redirect_uri: redirectUri
         });
 
-        const authHeader = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-
         const response = await axios.post<QBOAuthTokenResponse>(tokenUrl, tokenPayload, {
             headers: {
-                'Authorization': `Basic ${authHeader}`,
+                'Authorization': getBasicAuthHeader(environment),
                 'Content-Type': 'application/x-www-form-urlencoded',
                 'Accept': 'application/json'
             }
@@ -153,19 +183,12 @@ const exchangeCodeForTokens = async (code: string): Promise<QBOAuthTokenResponse
 /**
  * Get company information from QuickBooks
  */
-const getCompanyInfo = async (accessToken: string, realmId: string): Promise<QBOCompanyInfo> => {
+const getCompanyInfo = async (accessToken: string, realmId: string, environment?: QBOEnvironment): Promise<QBOCompanyInfo> => {
     try {
-        const baseUrl = getQboApiBaseUrl();
-        const url = `${baseUrl}${realmId}/query?query=select * from CompanyInfo`;
+        const qbo = createQboClient({ accessToken, realmId, environment });
+        const { records } = await qbo.query<QBOCompanyInfo['QueryResponse']['CompanyInfo'][0]>('select * from CompanyInfo', 'CompanyInfo');
 
-        const response = await axios.get<QBOCompanyInfo>(url, {
-            headers: {
-                'Authorization': `Bearer ${accessToken}`,
-                'Accept': 'application/json'
-            }
-        });
-
-        return response.data;
+        return { QueryResponse: { CompanyInfo: [records[0]] } };
     } catch (error) {
         console.error('Failed to fetch company info:', error);
         throw new Error(`Failed to fetch company information: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -174,8 +197,9 @@ const getCompanyInfo = async (accessToken: string, realmId: string): Promise<QBO
 
 /**
  * Validate integration constraints before saving connection
+ * A connected realm can only be authorized again by one of its admins, e.g. when it is flagged for reauth
  */
-const validateIntegrationConstraints = async (realmId: string): Promise<{ valid: boolean }> => {
+const validateIntegrationConstraints = async (realmId: string, userId: string): Promise<{ valid: boolean }> => {
     try {
         const validRealmId = validateRealmId(realmId);
 
@@ -184,10 +208,15 @@ const validateIntegrationConstraints = async (realmId: string): Promise<{ valid:
             where: { 
                 realmId: validRealmId,
                 isConnected: true 
+            },
+            include: {
+                memberships: { where: { userId } }
             }
         });
 
-        if (existingConnection) {
+        const isAdminReconnect = !!existingConnection?.memberships.some(membership => hasRole(membership.role, 'ADMIN'));
+
+        if (existingConnection && !isAdminReconnect) {
             const error = new Error('This QuickBooks account is already connected.');
             error.name = 'REALM_ID_CONFLICT';
             throw error;
@@ -205,25 +234,31 @@ const validateIntegrationConstraints = async (realmId: string): Promise<{ valid:
 /**
  * Handle OAuth callback and exchange code for tokens
  */
-const processCallback = async (code: string, realmId: string, state: string): Promise<QBOConnectionData> => {
+const processCallback = async (
+    code: string,
+    realmId: string,
+    state: string,
+    sessionId: string,
+    userId: string
+): Promise<{ connection: QBOConnectionData; returnUrl?: string }> => {
     try {
         const validCode = validateAuthCode(code);
         const validRealmId = validateRealmId(realmId);
-        const validatedState = validateState(state);
+        const { returnUrl, environment } = await validateState(state, sessionId);
 
         // Validate business constraints first
-        await validateIntegrationConstraints(validRealmId);
+        await validateIntegrationConstraints(validRealmId, userId);
 
         // Exchange code for tokens
-        const tokenData = await exchangeCodeForTokens(validCode);
+        const tokenData = await exchangeCodeForTokens(validCode, environment);
 
         // Get company information
-        const companyInfo = await getCompanyInfo(tokenData.access_token, validRealmId);
+        const companyInfo = await getCompanyInfo(tokenData.access_token, validRealmId, environment);
 
         // Save connection
-        const connection = await saveConnection(tokenData, validRealmId, companyInfo);
+        const connection = await saveConnection(tokenData, validRealmId, companyInfo, environment);
 
-        return connection;
+        return { connection, returnUrl };
     } catch (error) {
         console.error('Error processing callback:', error);
         throw new Error(error instanceof Error ? error.message : 'Callback processing failed');
@@ -236,7 +271,8 @@ const processCallback = async (code: string, realmId: string, state: string): Pr
 const saveConnection = async (
     tokenData: QBOAuthTokenResponse,
     realmId: string,
-    companyInfo: QBOCompanyInfo
+    companyInfo: QBOCompanyInfo,
+    environment: QBOEnvironment
 ): Promise<QBOConnectionData> => {
     try {
         const validRealmId = validateRealmId(realmId);
@@ -258,17 +294,21 @@ const saveConnection = async (
             update: {
                 accessToken: tokenData.access_token,
                 refreshToken: tokenData.refresh_token,
+                environment,
                 expiresAt,
                 refreshExpiresAt,
                 isConnected: true,
                 companyName,
                 connectedAt: now,
-                disconnectedAt: null
+                disconnectedAt: null,
+                lastRefreshError: null,
+                reauthRequiredAt: null
             },
             create: {
                 accessToken: tokenData.access_token,
                 refreshToken: tokenData.refresh_token,
                 realmId: validRealmId,
+                environment,
                 expiresAt,
                 refreshExpiresAt,
                 isConnected: true,
@@ -277,32 +317,80 @@ const saveConnection = async (
             }
         });
 
-        return {
-            id: connection.id,
-            accessToken: connection.accessToken,
-            refreshToken: connection.refreshToken,
-            realmId: connection.realmId,
-            expiresAt: connection.expiresAt,
-            refreshExpiresAt: connection.refreshExpiresAt,
-            isConnected: connection.isConnected,
-            companyName: connection.companyName || undefined,
-            connectedAt: connection.connectedAt,
-            lastSyncAt: connection.lastSyncAt || undefined
-        };
+        return toConnectionData(connection);
     } catch (error) {
         throw new Error(`Failed to save connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
 };
 
+const CLAIM_POLL_INTERVAL_MS = 250;
+
 /**
- * Refresh access token using refresh token
+ * Claim the right to refresh a connection's token with a conditional update on its row
+ * Returns the lease expiry when the claim was won, or null while another process holds an unexpired claim
  */
+const claimTokenRefresh = async (connectionId: string): Promise<Date | null> => {
+    const now = new Date();
+    const claimedUntil = new Date(now.getTime() + tokenRefreshConfig.claimTtlMs);
+
+    const claimed = await prisma.qBOConnection.updateMany({
+        where: {
+            id: connectionId,
+            OR: [{ refreshClaimedUntil: null }, { refreshClaimedUntil: { lte: now } }]
+        },
+        data: { refreshClaimedUntil: claimedUntil }
+    });
+
+    return claimed.count === 1 ? claimedUntil : null;
+};
+
+/**
+ * Give up a refresh claim - only if it is still ours, a claim that ran out may belong to another process by now
+ */
+const releaseTokenRefresh = async (connectionId: string, claimedUntil: Date): Promise<void> => {
+    await prisma.qBOConnection.updateMany({
+        where: { id: connectionId, refreshClaimedUntil: claimedUntil },
+        data: { refreshClaimedUntil: null }
+    });
+};
+
 /**
  * Refresh access token using refresh token
+ * Intuit rotates the refresh token on every refresh, so refreshes of one connection are serialized across all
+ * processes by claiming the connection row. Callers that lose the race wait without holding a database connection,
+ * then claim it themselves and re-read the connection; with onlyIfExpiringWithinMs a token another caller has just
+ * refreshed is returned as-is instead of being refreshed twice.
  */
-export const refreshToken = async (connectionId: string): Promise<QBOConnectionData> => {
+export const refreshToken = async (
+    connectionId: string,
+    options: { onlyIfExpiringWithinMs?: number } = {}
+): Promise<QBOConnectionData> => {
+    const validConnectionId = validateConnectionId(connectionId);
+    const deadline = Date.now() + tokenRefreshConfig.lockTimeoutMs;
+
+    let claimedUntil = await claimTokenRefresh(validConnectionId);
+    while (!claimedUntil) {
+        if (Date.now() >= deadline) {
+            throw new Error('Token refresh failed: another process is still refreshing this connection');
+        }
+        await new Promise(resolve => setTimeout(resolve, CLAIM_POLL_INTERVAL_MS));
+        claimedUntil = await claimTokenRefresh(validConnectionId);
+    }
+
     try {
-        const validConnectionId = validateConnectionId(connectionId);
+        return await refreshTokenClaimed(validConnectionId, options);
+    } finally {
+        await releaseTokenRefresh(validConnectionId, claimedUntil)
+            .catch(error => console.error(`Failed to release token refresh claim for connection ${validConnectionId}:`, error));
+    }
+};
+
+const refreshTokenClaimed = async (
+    connectionId: string,
+    options: { onlyIfExpiringWithinMs?: number }
+): Promise<QBOConnectionData> => {
+    try {
+        const validConnectionId = connectionId;
 
         const connection = await prisma.qBOConnection.findUnique({
             where: { id: validConnectionId }
@@ -316,19 +404,27 @@ export const refreshToken = async (connectionId: string): Promise<QBOConnectionD
             throw new Error('Connection is not active');
         }
 
+        if (
+            options.onlyIfExpiringWithinMs !== undefined &&
+            connection.expiresAt.getTime() - Date.now() > options.onlyIfExpiringWithinMs
+        ) {
+            return toConnectionData(connection);
+        }
+
         const tokenPayload = new URLSearchParams({
             grant_type: 'refresh_token',
             refresh_token: connection.refreshToken
         });
 
-        const authHeader = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-
+        // Refresh tokens are only accepted with the keys of the environment the company was connected in
+        // The request times out well before the refresh claim runs out, so no other process can refresh meanwhile
         const response = await axios.post<QBOTokenRefreshResponse>(tokenUrl, tokenPayload, {
             headers: {
-                'Authorization': `Basic ${authHeader}`,
+                'Authorization': getBasicAuthHeader(connection.environment),
                 'Content-Type': 'application/x-www-form-urlencoded',
                 'Accept': 'application/json'
-            }
+            },
+            timeout: tokenRefreshConfig.requestTimeoutMs
         });
 
         const now = new Date();
@@ -372,22 +468,13 @@ export const refreshToken = async (connectionId: string): Promise<QBOConnectionD
                 accessToken: response.data.access_token,
                 refreshToken: response.data.refresh_token,
                 expiresAt,
-                refreshExpiresAt
+                refreshExpiresAt,
+                lastRefreshedAt: now,
+                lastRefreshError: null
             }
         });
 
-        return {
-            id: updatedConnection.id,
-            accessToken: updatedConnection.accessToken,
-            refreshToken: updatedConnection.refreshToken,
-            realmId: updatedConnection.realmId,
-            expiresAt: updatedConnection.expiresAt,
-            refreshExpiresAt: updatedConnection.refreshExpiresAt,
-            isConnected: updatedConnection.isConnected,
-            companyName: updatedConnection.companyName || undefined,
-            connectedAt: updatedConnection.connectedAt,
-            lastSyncAt: updatedConnection.lastSyncAt || undefined
-        };
+        return toConnectionData(updatedConnection);
     } catch (error) {
         if (axios.isAxiosError(error)) {
             if (error.response?.status === 400) {
@@ -404,22 +491,19 @@ export const refreshToken = async (connectionId: string): Promise<QBOConnectionD
 /**
  * Revoke tokens and disconnect from QuickBooks
  */
-const revokeToken = async (refreshToken: string): Promise<void> => {
+const revokeToken = async (refreshToken: string, environment?: QBOEnvironment | null): Promise<void> => {
     try {
         if (!refreshToken || typeof refreshToken !== 'string') {
             throw new Error('Valid refresh token is required');
         }
 
-        const revokeUrl = getRevokeUrl();
         const revokePayload = new URLSearchParams({
             token: refreshToken
         });
 
-        const authHeader = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-
-        await axios.post(revokeUrl, revokePayload, {
+        await axios.post(quickbooksConfig.revokeUrl, revokePayload, {
             headers: {
-                'Authorization': `Basic ${authHeader}`,
+                'Authorization': getBasicAuthHeader(environment),
                 'Content-Type': 'application/x-www-form-urlencoded'
             }
         });
@@ -454,7 +538,7 @@ const disconnectIntegration = async (connectionId: string): Promise<void> => {
         // Revoke refresh token if it exists
         if (connection.refreshToken) {
             try {
-                await revokeToken(connection.refreshToken);
+                await revokeToken(connection.refreshToken, connection.environment);
             } catch (err) {
                 // Log but don't block disconnection if revocation fails
                 console.warn(`Failed to revoke token for connection ${connectionId}:`, err);
@@ -471,6 +555,9 @@ const disconnectIntegration = async (connectionId: string): Promise<void> => {
                 refreshToken: '' // Clear refresh token
             }
         });
+
+        // Sessions working in this company have to pick another one
+        await sessionService.clearActiveConnection(validConnectionId);
     } catch (error) {
         throw new Error(`Failed to disconnect integration: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -491,18 +578,7 @@ const getConnectionStatus = async (connectionId: string): Promise<QBOConnectionD
             return null;
         }
 
-        return {
-            id: connection.id,
-            accessToken: connection.accessToken,
-            refreshToken: connection.refreshToken,
-            realmId: connection.realmId,
-            expiresAt: connection.expiresAt,
-            refreshExpiresAt: connection.refreshExpiresAt,
-            isConnected: connection.isConnected,
-            companyName: connection.companyName || undefined,
-            connectedAt: connection.connectedAt,
-            lastSyncAt: connection.lastSyncAt || undefined
-        };
+        return toConnectionData(connection);
     } catch (error) {
         throw new Error(`Failed to get connection status: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -517,18 +593,7 @@ const getActiveConnections = async (): Promise<QBOConnectionData[]> => {
             where: { isConnected: true }
         });
 
-        return connections.map(connection => ({
-            id: connection.id,
-            accessToken: connection.accessToken,
-            refreshToken: connection.refreshToken,
-            realmId: connection.realmId,
-            expiresAt: connection.expiresAt,
-            refreshExpiresAt: connection.refreshExpiresAt,
-            isConnected: connection.isConnected,
-            companyName: connection.companyName || undefined,
-            connectedAt: connection.connectedAt,
-            lastSyncAt: connection.lastSyncAt || undefined
-        }));
+        return connections.map(toConnectionData);
     } catch (error) {
         throw new Error(`Failed to get active connections: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -558,8 +623,8 @@ const getValidAccessToken = async (connectionId: string): Promise<string> => {
             return connection.accessToken;
         }
 
-        // Refresh token if expired
-        const refreshedConnection = await refreshToken(validConnectionId);
+        // Refresh token if expired - skipped if another caller refreshed it while we waited for the lock
+        const refreshedConnection = await refreshToken(validConnectionId, { onlyIfExpiringWithinMs: 0 });
         return refreshedConnection.accessToken;
     } catch (error) {
         throw new Error(`Failed to get valid access token: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -579,7 +644,7 @@ const testConnection = async (connectionId: string): Promise<{ isValid: boolean;
         }
 
         // Test with a simple CompanyInfo query
-        const companyInfo = await getCompanyInfo(accessToken, connection.realmId);
+        const companyInfo = await getCompanyInfo(accessToken, connection.realmId, connection.environment);
         const companyName = companyInfo.QueryResponse?.CompanyInfo?.[0]?.CompanyName;
 
         return {
@@ -596,13 +661,33 @@ const testConnection = async (connectionId: string): Promise<{ isValid: boolean;
 
 /**
  * Generate state parameter for OAuth
+ * The state is a random nonce stored with the session that started the flow, the chosen environment and the return URL
  */
-const generateState = (returnUrl?: string): string => {
-    const state: AuthState = {
-        timestamp: Date.now(),
-        returnUrl
-    };
-    return Buffer.from(JSON.stringify(state)).toString('base64url');
+const generateState = async (sessionId: string, environment: QBOEnvironment, returnUrl?: string): Promise<string> => {
+    // Only same-site paths, so the callback can't be turned into an open redirect
+    if (returnUrl && (!returnUrl.startsWith('/') || returnUrl.startsWith('//'))) {
+        throw new Error('Invalid return URL - it must be a path on this site');
+    }
+
+    const nonce = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+
+    await prisma.oAuthState.create({
+        data: {
+            nonce,
+            returnUrl,
+            sessionId,
+            environment,
+            expiresAt: new Date(now + quickbooksConfig.oauthStateTtlMs)
+        }
+    });
+
+    // Drop states that can no longer be used
+    await prisma.oAuthState.deleteMany({
+        where: { expiresAt: { lt: new Date(now - 24 * 60 * 60 * 1000) } }
+    });
+
+    return nonce;
 };
 
 // Main service object
@@ -0,0 +1,130 @@
+// services/sessionService.ts
+
+import crypto from 'crypto';
+import { prisma } from '../config/db';
+import { sessionConfig } from '../config/session';
+import { Session, User } from '@prisma/client';
+import { QBOConnectionWithoutTokens } from '../types/quickbooks';
+
+// lastUsedAt is only written when it is older than this, so every request doesn't cost a write
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export type SessionWithContext = Session & { user: User; qboConnection: QBOConnectionWithoutTokens | null };
+
+/**
+ * Start a session for a user, optionally already working in one of their companies
+ * Returns the raw token for the cookie; only its hash is stored
+ */
+const createSession = async (
+    userId: string,
+    qboConnectionId: string | null,
+    meta: { userAgent?: string; ipAddress?: string } = {}
+): Promise<{ token: string; session: Session }> => {
+    try {
+        const token = crypto.randomBytes(32).toString('base64url');
+
+        const session = await prisma.session.create({
+            data: {
+                tokenHash: hashToken(token),
+                userId,
+                qboConnectionId,
+                expiresAt: new Date(Date.now() + sessionConfig.ttlMs),
+                userAgent: meta.userAgent,
+                ipAddress: meta.ipAddress
+            }
+        });
+
+        return { token, session };
+    } catch (error) {
+        throw new Error(`Failed to create session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Look up the session for a cookie value along with its user and current connection
+ * The connection comes without its tokens; use quickbooksAuthService.getValidAccessToken for those
+ * Returns null for unknown, expired or revoked sessions
+ */
+const getSession = async (token: string): Promise<SessionWithContext | null> => {
+    try {
+        const session = await prisma.session.findUnique({
+            where: { tokenHash: hashToken(token) },
+            include: {
+                user: true,
+                qboConnection: { omit: { accessToken: true, refreshToken: true } }
+            }
+        });
+
+        if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+            return null;
+        }
+
+        if (Date.now() - session.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+            await prisma.session.update({
+                where: { id: session.id },
+                data: { lastUsedAt: new Date() }
+            });
+        }
+
+        return session;
+    } catch (error) {
+        throw new Error(`Failed to fetch session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * End a single session (logout)
+ */
+const revokeSession = async (token: string): Promise<void> => {
+    try {
+        await prisma.session.updateMany({
+            where: { tokenHash: hashToken(token), revokedAt: null },
+            data: { revokedAt: new Date() }
+        });
+    } catch (error) {
+        throw new Error(`Failed to revoke session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Switch the company a session is working in
+ */
+const setActiveConnection = async (sessionId: string, qboConnectionId: string): Promise<Session> => {
+    try {
+        return await prisma.session.update({
+            where: { id: sessionId },
+            data: { qboConnectionId }
+        });
+    } catch (error) {
+        throw new Error(`Failed to switch session connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Take a connection out of every session working in it, e.g. when it is disconnected
+ * Users stay logged in and can pick another company
+ */
+const clearActiveConnection = async (qboConnectionId: string): Promise<number> => {
+    try {
+        const result = await prisma.session.updateMany({
+            where: { qboConnectionId },
+            data: { qboConnectionId: null }
+        });
+
+        return result.count;
+    } catch (error) {
+        throw new Error(`Failed to clear session connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+const sessionService = {
+    createSession,
+    getSession,
+    revokeSession,
+    setActiveConnection,
+    clearActiveConnection
+};
+
+export default sessionService;
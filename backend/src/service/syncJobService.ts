@@ -0,0 +1,341 @@
+// services/syncJobService.ts
+
+import { randomUUID } from 'crypto';
+import { prisma } from '../config/db';
+import { syncJobConfig } from '../config/syncJobs';
+import connectionResolver from './connectionResolver';
+import { Prisma, SyncJob, SyncJobStatus } from '@prisma/client';
+import { SyncBatchProgress, SyncJobBatch } from '../types/syncJobs';
+import invoiceSyncService from './invoiceSyncService';
+import paymentSyncService from './paymentSyncService';
+import quickbooksAuthService from './quickbooksAuthService';
+
+type SyncJobType = 'INVOICE' | 'PAYMENT';
+
+const FINISHED_STATUSES = ['COMPLETED', 'FAILED', 'CANCELLED'];
+
+const ACTIVE_STATUSES: SyncJobStatus[] = ['QUEUED', 'RUNNING'];
+
+// Identifies this process as the owner of the jobs it runs
+const INSTANCE_ID = randomUUID();
+
+/**
+ * Count the documents a sync-all would pick up - the same filter the sync services use
+ */
+const countPendingDocuments = async (transactionType: SyncJobType, qboConnectionId: string): Promise<number> => {
+    return transactionType === 'INVOICE'
+        ? prisma.invoice.count({ where: { qboConnectionId, syncStatus: 'PENDING', qboInvoiceId: null } })
+        : prisma.payment.count({ where: { qboConnectionId, syncStatus: 'PENDING', qboPaymentId: null } });
+};
+
+/**
+ * Record a finished batch on the job
+ */
+const recordBatchProgress = async (jobId: string, progress: SyncBatchProgress): Promise<void> => {
+    const job = await prisma.syncJob.findUnique({
+        where: { id: jobId },
+        select: { batches: true, failures: true }
+    });
+
+    const batches = (job?.batches as unknown as SyncJobBatch[] | null) ?? [];
+    const failures = (job?.failures as unknown as SyncBatchProgress['failures'] | null) ?? [];
+
+    await prisma.syncJob.update({
+        where: { id: jobId },
+        data: {
+            processedCount: { increment: progress.processed },
+            successCount: { increment: progress.succeeded },
+            failureCount: { increment: progress.failed },
+            completedBatches: { increment: 1 },
+            totalBatches: progress.totalBatches,
+            batches: [...batches, {
+                batchNumber: progress.batchNumber,
+                processed: progress.processed,
+                succeeded: progress.succeeded,
+                failed: progress.failed,
+                completedAt: new Date().toISOString()
+            }] as unknown as Prisma.InputJsonValue,
+            failures: [...failures, ...progress.failures] as unknown as Prisma.InputJsonValue
+        }
+    });
+};
+
+/**
+ * Run a queued job to completion in the background
+ * Cancellation is checked before every batch, so a cancelled job stops once its current batch finishes
+ * The job only holds the connection - a current access token is fetched before every batch
+ */
+const runSyncJob = async (jobId: string, realmId: string): Promise<void> => {
+    // Claim the job - a job cancelled while still queued is never started
+    const claimed = await prisma.syncJob.updateMany({
+        where: { id: jobId, status: 'QUEUED' },
+        data: { status: 'RUNNING', ownerId: INSTANCE_ID, heartbeatAt: new Date(), startedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+        return;
+    }
+
+    // Keep the job from looking abandoned to other processes for as long as it runs here
+    const heartbeat = setInterval(() => {
+        prisma.syncJob.updateMany({
+            where: { id: jobId, ownerId: INSTANCE_ID, status: 'RUNNING' },
+            data: { heartbeatAt: new Date() }
+        }).catch(error => console.error(`Error recording heartbeat for sync job ${jobId}:`, error));
+    }, syncJobConfig.heartbeatIntervalMs);
+
+    const job = await prisma.syncJob.findUniqueOrThrow({ where: { id: jobId } });
+    console.log(`🚀 Sync job ${jobId} started (${job.transactionType}, ${job.totalCount} pending)`);
+
+    let cancelled = false;
+    const getAccessToken = () => quickbooksAuthService.getValidAccessToken(job.qboConnectionId);
+    const options = {
+        useBatchApi: job.useBatchApi,
+        getAccessToken,
+        onBatchComplete: (progress: SyncBatchProgress) => recordBatchProgress(jobId, progress),
+        shouldStop: async () => {
+            const current = await prisma.syncJob.findUnique({
+                where: { id: jobId },
+                select: { cancelRequestedAt: true }
+            });
+            cancelled = !!current?.cancelRequestedAt;
+            return cancelled;
+        }
+    };
+
+    try {
+        const accessToken = await getAccessToken();
+        const result = job.transactionType === 'INVOICE'
+            ? await invoiceSyncService.syncAllInvoicesToQBO(accessToken, realmId, options)
+            : await paymentSyncService.syncAllPaymentsToQBO(accessToken, realmId, options);
+
+        await prisma.syncJob.update({
+            where: { id: jobId },
+            data: {
+                status: cancelled ? 'CANCELLED' : 'COMPLETED',
+                completedAt: new Date()
+            }
+        });
+
+        console.log(`${cancelled ? '⏹️' : '✅'} Sync job ${jobId} ${cancelled ? 'cancelled' : 'completed'}: ${result.message}`);
+    } catch (error) {
+        console.error(`❌ Sync job ${jobId} failed:`, error);
+
+        await prisma.syncJob.update({
+            where: { id: jobId },
+            data: {
+                status: 'FAILED',
+                errorMessage: error instanceof Error ? error.message : 'Unknown error',
+                completedAt: new Date()
+            }
+        }).catch(updateError => console.error('Error marking sync job as failed:', updateError));
+    } finally {
+        clearInterval(heartbeat);
+    }
+};
+
+/**
+ * Find the queued or running job of a type for a connection, if there is one
+ */
+const findActiveSyncJob = async (transactionType: SyncJobType, qboConnectionId: string): Promise<SyncJob | null> => {
+    return prisma.syncJob.findFirst({
+        where: { qboConnectionId, transactionType, status: { in: ACTIVE_STATUSES } }
+    });
+};
+
+/**
+ * Enqueue a sync of every pending invoice or payment and start it in the background
+ * Only one job per connection and type is active at a time - while one is, it is returned instead of starting another
+ */
+const createSyncJob = async (
+    transactionType: SyncJobType,
+    realmId: string,
+    options: { useBatchApi?: boolean } = {}
+): Promise<{
+    success: boolean;
+    job: SyncJob;
+    message: string;
+    error?: string;
+}> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        // A job abandoned by a dead process would otherwise block new ones until the next restart
+        await failStaleSyncJobs({ qboConnectionId, transactionType });
+
+        const alreadyActive = (job: SyncJob) => ({
+            success: false,
+            job,
+            message: `A ${transactionType.toLowerCase()} sync job is already ${job.status.toLowerCase()} for this company`,
+            error: 'JOB_ACTIVE'
+        });
+
+        const activeJob = await findActiveSyncJob(transactionType, qboConnectionId);
+        if (activeJob) {
+            return alreadyActive(activeJob);
+        }
+
+        const totalCount = await countPendingDocuments(transactionType, qboConnectionId);
+
+        let job: SyncJob;
+        try {
+            job = await prisma.syncJob.create({
+                data: {
+                    transactionType,
+                    useBatchApi: options.useBatchApi ?? false,
+                    qboConnectionId,
+                    totalCount,
+                    ownerId: INSTANCE_ID,
+                    heartbeatAt: new Date()
+                }
+            });
+        } catch (error) {
+            // Lost the race against a concurrent request - the partial unique index only admits one active job
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                const racingJob = await findActiveSyncJob(transactionType, qboConnectionId);
+                if (racingJob) {
+                    return alreadyActive(racingJob);
+                }
+            }
+            throw error;
+        }
+
+        // Run after the response has been sent; the job row carries all progress and errors
+        setImmediate(() => {
+            void runSyncJob(job.id, realmId);
+        });
+
+        return {
+            success: true,
+            job,
+            message: `${transactionType === 'INVOICE' ? 'Invoice' : 'Payment'} sync job queued for ${totalCount} pending document(s)`
+        };
+    } catch (error) {
+        throw new Error(`Failed to create sync job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get a sync job, scoped to the realm that created it
+ */
+const getSyncJob = async (jobId: string, realmId: string): Promise<SyncJob> => {
+    try {
+        const job = await prisma.syncJob.findFirst({
+            where: {
+                id: jobId,
+                qboConnection: { realmId }
+            }
+        });
+
+        if (!job) {
+            throw new Error(`Sync job ${jobId} not found`);
+        }
+
+        return job;
+    } catch (error) {
+        throw new Error(`Failed to fetch sync job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get the most recent sync jobs for a realm
+ */
+const getSyncJobs = async (realmId: string, options: { limit?: number; transactionType?: SyncJobType } = {}): Promise<SyncJob[]> => {
+    try {
+        return await prisma.syncJob.findMany({
+            where: {
+                qboConnection: { realmId },
+                ...(options.transactionType && { transactionType: options.transactionType })
+            },
+            orderBy: { createdAt: 'desc' },
+            take: Math.min(options.limit || 20, 100)
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch sync jobs: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Cancel a sync job
+ * A queued job is cancelled straight away; a running job stops before its next batch
+ */
+const cancelSyncJob = async (jobId: string, realmId: string): Promise<{
+    success: boolean;
+    job: SyncJob;
+    message: string;
+    error?: string;
+}> => {
+    try {
+        const job = await getSyncJob(jobId, realmId);
+
+        if (FINISHED_STATUSES.includes(job.status)) {
+            return {
+                success: false,
+                job,
+                message: `Sync job ${jobId} is already ${job.status} and cannot be cancelled`,
+                error: 'JOB_FINISHED'
+            };
+        }
+
+        const updatedJob = await prisma.syncJob.update({
+            where: { id: jobId },
+            data: job.status === 'QUEUED'
+                ? { status: 'CANCELLED', cancelRequestedAt: new Date(), completedAt: new Date() }
+                : { cancelRequestedAt: new Date() }
+        });
+
+        return {
+            success: true,
+            job: updatedJob,
+            message: job.status === 'QUEUED'
+                ? `Sync job ${jobId} cancelled`
+                : `Sync job ${jobId} will stop after its current batch`
+        };
+    } catch (error) {
+        throw new Error(`Failed to cancel sync job: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Mark QUEUED/RUNNING jobs whose process has stopped sending heartbeats as failed
+ * Jobs run in memory, so nothing will ever pick up a job whose owner died; live jobs of other processes are left alone
+ */
+const failStaleSyncJobs = async (
+    scope: { qboConnectionId?: string; transactionType?: SyncJobType } = {}
+): Promise<number> => {
+    try {
+        const staleBefore = new Date(Date.now() - syncJobConfig.staleAfterMs);
+
+        const result = await prisma.syncJob.updateMany({
+            where: {
+                ...scope,
+                status: { in: ACTIVE_STATUSES },
+                OR: [{ heartbeatAt: null }, { heartbeatAt: { lt: staleBefore } }]
+            },
+            data: {
+                status: 'FAILED',
+                errorMessage: 'Sync job was interrupted - the process running it stopped responding',
+                completedAt: new Date()
+            }
+        });
+
+        if (result.count > 0) {
+            console.log(`⚠️  Marked ${result.count} interrupted sync job(s) as failed`);
+        }
+
+        return result.count;
+    } catch (error) {
+        console.error('Error failing interrupted sync jobs:', error);
+        return 0;
+    }
+};
+
+const syncJobService = {
+    createSyncJob,
+    getSyncJob,
+    getSyncJobs,
+    cancelSyncJob,
+    failStaleSyncJobs
+};
+
+export default syncJobService;
@@ -1,23 +1,7 @@
 import { prisma } from '../config/db'; 
+import connectionResolver from './connectionResolver';
 import { SyncLogsResult } from '../types/syncLogs';
 
-const findConnection = async (realmId: string): Promise<string> => {
-    try {
-        const connection = await prisma.qBOConnection.findUnique({
-            where: { realmId }
-        });
-
-        if (!connection) {
-            throw new Error(`QuickBooks connection not found for realm: ${realmId}`);
-        }
-
-        return connection.id;
-    } catch (error) {
-        console.error('Error finding QBO connection:', error);
-        throw new Error(`Failed to find QBO connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-};
-
 /**
  * Get all sync logs with pagination and filtering
  */
@@ -55,7 +39,7 @@ const getSyncLogs = async (options: {
         const skip = (page - 1) * limit;
 
         // Get QBO connection for this realm
-        const qboConnectionId = await findConnection(realmId);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         // Build where clause
         const where: any = {
@@ -309,7 +293,7 @@ const getSyncLogs = async (options: {
 const getSyncLogById = async (syncLogId: string, realmId: string) => {
     try {
         // Get QBO connection for this realm
-        const qboConnectionId = await findConnection(realmId);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         const syncLog = await prisma.syncLog.findFirst({
             where: {
@@ -350,7 +334,7 @@ const getSyncLogById = async (syncLogId: string, realmId: string) => {
 const getSyncLogsByTransactionId = async (transactionId: string, realmId: string) => {
     try {
         // Get QBO connection for this realm
-        const qboConnectionId = await findConnection(realmId);
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
 
         const syncLogs = await prisma.syncLog.findMany({
             where: {
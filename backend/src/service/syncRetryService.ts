@@ -0,0 +1,211 @@
+// services/syncRetryService.ts
+
+import { prisma } from '../config/db';
+import { SyncLog } from '@prisma/client';
+import { syncRetryConfig } from '../config/syncRetry';
+import { resolveNextRetryAt } from '../utils/retryBackoff';
+import invoiceSyncService from './invoiceSyncService';
+import paymentSyncService from './paymentSyncService';
+import quickbooksAuthService from './quickbooksAuthService';
+
+let retryTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Claim a due sync log so that no other worker (or process) retries it at the same time.
+ * The claim only succeeds if the log is still in the state we read it in, and is a lease -
+ * if this process dies mid-retry the log becomes due again once the lease runs out.
+ */
+const claimSyncLog = async (syncLog: SyncLog): Promise<boolean> => {
+    const result = await prisma.syncLog.updateMany({
+        where: {
+            id: syncLog.id,
+            status: syncLog.status,
+            nextRetryAt: syncLog.nextRetryAt
+        },
+        data: {
+            status: 'RETRY',
+            retryCount: { increment: 1 },
+            nextRetryAt: new Date(Date.now() + syncRetryConfig.leaseMs),
+            startedAt: new Date()
+        }
+    });
+
+    return result.count === 1;
+};
+
+/**
+ * Mark a claimed sync log as failed when the retry could not even be attempted,
+ * scheduling another retry if any remain
+ */
+const releaseSyncLog = async (syncLogId: string, errorMessage: string, errorCode: string): Promise<void> => {
+    const syncLog = await prisma.syncLog.findUnique({ where: { id: syncLogId } });
+    if (!syncLog) {
+        return;
+    }
+
+    await prisma.syncLog.update({
+        where: { id: syncLogId },
+        data: {
+            status: 'FAILED',
+            errorMessage,
+            errorCode,
+            completedAt: new Date(),
+            nextRetryAt: resolveNextRetryAt('FAILED', syncLog.retryCount, syncLog.maxRetries)
+        }
+    });
+};
+
+/**
+ * Retry a single sync log by re-running the original invoice/payment sync
+ */
+const retrySyncLog = async (syncLog: SyncLog): Promise<boolean> => {
+    const claimed = await claimSyncLog(syncLog);
+    if (!claimed) {
+        return false;
+    }
+
+    const attempt = syncLog.retryCount + 1;
+    console.log(`🔄 Retrying ${syncLog.transactionType} ${syncLog.systemTransactionId} (attempt ${attempt}/${syncLog.maxRetries})`);
+
+    try {
+        const connection = await prisma.qBOConnection.findUnique({
+            where: { id: syncLog.qboConnectionId }
+        });
+
+        if (!connection || !connection.isConnected) {
+            await releaseSyncLog(syncLog.id, 'QuickBooks connection is not active', 'CONNECTION_INACTIVE');
+            return true;
+        }
+
+        const accessToken = await quickbooksAuthService.getValidAccessToken(connection.id);
+
+        const syncResult = syncLog.transactionType === 'INVOICE'
+            ? await invoiceSyncService.syncInvoiceToQBO(syncLog.systemTransactionId, accessToken, connection.realmId)
+            : await paymentSyncService.syncPaymentToQBO(syncLog.systemTransactionId, accessToken, connection.realmId);
+
+        // The document was pushed by another path in the meantime - nothing left to retry
+        if (!syncResult.success && syncResult.error === 'ALREADY_SYNCED') {
+            await prisma.syncLog.update({
+                where: { id: syncLog.id },
+                data: {
+                    status: 'SUCCESS',
+                    completedAt: new Date(),
+                    nextRetryAt: null
+                }
+            });
+        }
+
+        // The document no longer exists for this connection - retrying can never succeed
+        if (!syncResult.success && syncResult.error === 'NOT_FOUND') {
+            await prisma.syncLog.update({
+                where: { id: syncLog.id },
+                data: {
+                    status: 'FAILED',
+                    errorMessage: syncResult.message,
+                    errorCode: 'NOT_FOUND',
+                    completedAt: new Date(),
+                    nextRetryAt: null
+                }
+            });
+        }
+
+        if (syncResult.success) {
+            console.log(`✅ Retry succeeded for ${syncLog.transactionType} ${syncLog.systemTransactionId}`);
+        } else if (attempt >= syncLog.maxRetries) {
+            console.log(`❌ ${syncLog.transactionType} ${syncLog.systemTransactionId} permanently failed after ${attempt} retries`);
+        }
+    } catch (error) {
+        console.error(`Error retrying sync log ${syncLog.id}:`, error);
+        await releaseSyncLog(
+            syncLog.id,
+            error instanceof Error ? error.message : 'Unknown error',
+            'RETRY_ERROR'
+        );
+    }
+
+    return true;
+};
+
+/**
+ * Pick up all failed invoice/payment sync logs whose nextRetryAt has passed and retry them
+ * Retries whose lease ran out (RETRY or IN_PROGRESS) are picked up too
+ */
+const processDueRetries = async (): Promise<{ processed: number }> => {
+    if (isProcessing) {
+        return { processed: 0 };
+    }
+
+    isProcessing = true;
+    let processed = 0;
+
+    try {
+        const dueLogs = await prisma.syncLog.findMany({
+            where: {
+                transactionType: { in: ['INVOICE', 'PAYMENT'] },
+                status: { in: ['FAILED', 'RETRY', 'IN_PROGRESS'] },
+                nextRetryAt: { lte: new Date() }
+            },
+            orderBy: { nextRetryAt: 'asc' },
+            take: syncRetryConfig.batchSize
+        });
+
+        // Retry sequentially to stay well inside QuickBooks rate limits
+        for (const syncLog of dueLogs) {
+            if (syncLog.retryCount >= syncLog.maxRetries) {
+                // Retries exhausted - make sure the log is never picked up again
+                await prisma.syncLog.update({
+                    where: { id: syncLog.id },
+                    data: { status: 'FAILED', nextRetryAt: null }
+                });
+                continue;
+            }
+
+            if (await retrySyncLog(syncLog)) {
+                processed++;
+            }
+        }
+
+        if (processed > 0) {
+            console.log(`📊 Retry worker processed ${processed} sync log(s)`);
+        }
+    } catch (error) {
+        console.error('Error processing sync retries:', error);
+    } finally {
+        isProcessing = false;
+    }
+
+    return { processed };
+};
+
+/**
+ * Start the background retry worker
+ */
+const startRetryWorker = (): void => {
+    if (!syncRetryConfig.enabled || retryTimer) {
+        return;
+    }
+
+    console.log(`Sync retry worker started (polling every ${syncRetryConfig.pollIntervalMs}ms)`);
+    retryTimer = setInterval(() => {
+        void processDueRetries();
+    }, syncRetryConfig.pollIntervalMs);
+};
+
+/**
+ * Stop the background retry worker
+ */
+const stopRetryWorker = (): void => {
+    if (retryTimer) {
+        clearInterval(retryTimer);
+        retryTimer = null;
+    }
+};
+
+const syncRetryService = {
+    processDueRetries,
+    startRetryWorker,
+    stopRetryWorker
+};
+
+export default syncRetryService;
@@ -0,0 +1,186 @@
+// services/taxService.ts
+
+import { prisma } from '../config/db';
+import connectionResolver from './connectionResolver';
+import { TaxCode, TaxRate } from '@prisma/client';
+import { QBOTaxCode, QBOTaxRate, TaxSyncResult } from '../types/tax';
+import { createQboClient, QBOApiError } from './qboClient';
+import { QBOSaveResult } from '../types/quickbooks';
+
+/**
+ * Save a page of QuickBooks tax rates, creating the ones we do not have yet
+ */
+const saveTaxRatesFromQBO = async (taxRates: QBOTaxRate[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+
+    for (const taxRate of taxRates) {
+        const data = {
+            name: taxRate.Name,
+            description: taxRate.Description || null,
+            rateValue: taxRate.RateValue ?? null,
+            agencyRef: taxRate.AgencyRef?.value || null,
+            active: taxRate.Active ?? true,
+            updatedAtQB: taxRate.MetaData?.LastUpdatedTime
+                ? new Date(taxRate.MetaData.LastUpdatedTime)
+                : null
+        };
+
+        const existing = await prisma.taxRate.findUnique({
+            where: { qboConnectionId_qboTaxRateId: { qboConnectionId, qboTaxRateId: taxRate.Id } },
+            select: { id: true }
+        });
+
+        if (existing) {
+            await prisma.taxRate.update({ where: { id: existing.id }, data });
+            updated++;
+        } else {
+            await prisma.taxRate.create({ data: { ...data, qboTaxRateId: taxRate.Id, qboConnectionId } });
+            created++;
+        }
+    }
+
+    return { created, updated, skipped: 0 };
+};
+
+/**
+ * Save a page of QuickBooks tax codes, creating the ones we do not have yet
+ */
+const saveTaxCodesFromQBO = async (taxCodes: QBOTaxCode[], qboConnectionId: string): Promise<QBOSaveResult> => {
+    let created = 0;
+    let updated = 0;
+
+    for (const taxCode of taxCodes) {
+        const data = {
+            name: taxCode.Name,
+            description: taxCode.Description || null,
+            taxable: taxCode.Taxable ?? null,
+            taxGroup: taxCode.TaxGroup ?? null,
+            salesTaxRateIds: (taxCode.SalesTaxRateList?.TaxRateDetail ?? []).map(detail => detail.TaxRateRef.value),
+            active: taxCode.Active ?? true,
+            updatedAtQB: taxCode.MetaData?.LastUpdatedTime
+                ? new Date(taxCode.MetaData.LastUpdatedTime)
+                : null
+        };
+
+        const existing = await prisma.taxCode.findUnique({
+            where: { qboConnectionId_qboTaxCodeId: { qboConnectionId, qboTaxCodeId: taxCode.Id } },
+            select: { id: true }
+        });
+
+        if (existing) {
+            await prisma.taxCode.update({ where: { id: existing.id }, data });
+            updated++;
+        } else {
+            await prisma.taxCode.create({ data: { ...data, qboTaxCodeId: taxCode.Id, qboConnectionId } });
+            created++;
+        }
+    }
+
+    return { created, updated, skipped: 0 };
+};
+
+/**
+ * Sync tax rates and tax codes from QuickBooks to database
+ * Both lists are short and read-only in the API, so every sync reads them in full
+ */
+const syncSalesTax = async (accessToken: string, realmId: string): Promise<TaxSyncResult> => {
+    try {
+        // Resolve the QBO connection - unknown or disconnected realms are rejected
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        const qbo = createQboClient({ accessToken, realmId });
+        let created = 0;
+        let updated = 0;
+
+        // Rates first - codes refer to them
+        const rates = await qbo.queryAllPages<QBOTaxRate>(
+            'SELECT * FROM TaxRate WHERE Active IN (true, false)',
+            'TaxRate',
+            async (taxRates) => {
+                const saved = await saveTaxRatesFromQBO(taxRates, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
+            }
+        );
+
+        const codes = await qbo.queryAllPages<QBOTaxCode>(
+            'SELECT * FROM TaxCode WHERE Active IN (true, false)',
+            'TaxCode',
+            async (taxCodes) => {
+                const saved = await saveTaxCodesFromQBO(taxCodes, qboConnectionId);
+                created += saved.created;
+                updated += saved.updated;
+            }
+        );
+
+        const message = `${rates.totalRecords} tax rate(s) and ${codes.totalRecords} tax code(s) synced: ${created} created, ${updated} updated`;
+        console.log(message);
+
+        return {
+            success: true,
+            taxRates: rates.totalRecords,
+            taxCodes: codes.totalRecords,
+            created,
+            updated,
+            message
+        };
+    } catch (error) {
+        console.error('Error syncing sales tax:', error);
+
+        if (error instanceof QBOApiError) {
+            console.error('QuickBooks API Error:', JSON.stringify(error.responseData, null, 2));
+            throw error;
+        }
+
+        throw new Error(`Sales tax sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get the tax codes of a realm
+ */
+const getTaxCodes = async (realmId: string, options: { active?: boolean } = {}): Promise<TaxCode[]> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        return await prisma.taxCode.findMany({
+            where: {
+                qboConnectionId,
+                ...(options.active !== undefined && { active: options.active })
+            },
+            orderBy: { name: 'asc' }
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch tax codes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get the tax rates of a realm
+ */
+const getTaxRates = async (realmId: string, options: { active?: boolean } = {}): Promise<TaxRate[]> => {
+    try {
+        const qboConnectionId = await connectionResolver.resolveConnectionId(realmId);
+
+        return await prisma.taxRate.findMany({
+            where: {
+                qboConnectionId,
+                ...(options.active !== undefined && { active: options.active })
+            },
+            orderBy: { name: 'asc' }
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch tax rates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+const taxService = {
+    syncSalesTax,
+    saveTaxRatesFromQBO,
+    saveTaxCodesFromQBO,
+    getTaxCodes,
+    getTaxRates
+};
+
+export default taxService;
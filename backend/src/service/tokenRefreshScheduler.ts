@@ -0,0 +1,155 @@
+// services/tokenRefreshScheduler.ts
+
+import { prisma } from '../config/db';
+import { tokenRefreshConfig } from '../config/tokenRefresh';
+import { refreshToken } from './quickbooksAuthService';
+
+let refreshTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Flag connected companies whose refresh token runs out soon, and disconnect the ones where it already has
+ * Flags are cleared again when a refresh pushes the refresh token expiry back out of the warning window
+ */
+const updateReauthFlags = async (): Promise<void> => {
+    const now = new Date();
+    const warningCutoff = new Date(now.getTime() + tokenRefreshConfig.reauthWarningMs);
+
+    const expired = await prisma.qBOConnection.updateMany({
+        where: { isConnected: true, refreshExpiresAt: { lte: now } },
+        data: {
+            isConnected: false,
+            disconnectedAt: now,
+            reauthRequiredAt: now,
+            lastRefreshError: 'Refresh token expired'
+        }
+    });
+
+    const flagged = await prisma.qBOConnection.updateMany({
+        where: { isConnected: true, reauthRequiredAt: null, refreshExpiresAt: { lt: warningCutoff } },
+        data: { reauthRequiredAt: now }
+    });
+
+    await prisma.qBOConnection.updateMany({
+        where: { isConnected: true, reauthRequiredAt: { not: null }, refreshExpiresAt: { gte: warningCutoff } },
+        data: { reauthRequiredAt: null }
+    });
+
+    if (expired.count > 0) {
+        console.log(`⚠️  ${expired.count} QuickBooks connection(s) disconnected - refresh token expired`);
+    }
+    if (flagged.count > 0) {
+        console.log(`⚠️  ${flagged.count} QuickBooks connection(s) need to be reconnected before their refresh token expires`);
+    }
+};
+
+/**
+ * Refresh one connection's access token, recording the outcome on the connection
+ */
+const refreshConnection = async (connection: { id: string; realmId: string }): Promise<boolean> => {
+    try {
+        // Another process may hold the lock and refresh first; we then get its token back unchanged
+        await refreshToken(connection.id, { onlyIfExpiringWithinMs: tokenRefreshConfig.refreshBeforeExpiryMs });
+        return true;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`❌ Failed to refresh token for realm ${connection.realmId}:`, errorMessage);
+
+        // Intuit rejected the refresh token - only reconnecting the company can fix that
+        const rejected = errorMessage.includes('Invalid or expired refresh token');
+
+        await prisma.qBOConnection.update({
+            where: { id: connection.id },
+            data: {
+                lastRefreshError: errorMessage,
+                ...(rejected && {
+                    isConnected: false,
+                    disconnectedAt: new Date(),
+                    reauthRequiredAt: new Date()
+                })
+            }
+        }).catch(updateError => console.error('Error recording token refresh failure:', updateError));
+
+        return false;
+    }
+};
+
+/**
+ * Refresh every connected company whose access token expires within the refresh window
+ */
+const refreshDueConnections = async (): Promise<{ refreshed: number; failed: number }> => {
+    if (isProcessing) {
+        return { refreshed: 0, failed: 0 };
+    }
+
+    isProcessing = true;
+    let refreshed = 0;
+    let failed = 0;
+
+    try {
+        await updateReauthFlags();
+
+        const dueConnections = await prisma.qBOConnection.findMany({
+            where: {
+                isConnected: true,
+                refreshToken: { not: '' },
+                expiresAt: { lt: new Date(Date.now() + tokenRefreshConfig.refreshBeforeExpiryMs) },
+                refreshExpiresAt: { gt: new Date() }
+            },
+            select: { id: true, realmId: true }
+        });
+
+        // One at a time - each refresh holds a database connection for its lock
+        for (const connection of dueConnections) {
+            if (await refreshConnection(connection)) {
+                refreshed++;
+            } else {
+                failed++;
+            }
+        }
+
+        if (dueConnections.length > 0) {
+            console.log(`🔑 Token refresh: ${refreshed} refreshed, ${failed} failed`);
+        }
+    } catch (error) {
+        console.error('Error refreshing QuickBooks tokens:', error);
+    } finally {
+        isProcessing = false;
+    }
+
+    return { refreshed, failed };
+};
+
+/**
+ * Start the background token refresher
+ * Runs once straight away so tokens that expired while the server was down are refreshed on startup
+ */
+const startTokenRefresher = (): void => {
+    if (!tokenRefreshConfig.enabled || refreshTimer) {
+        return;
+    }
+
+    console.log(`Token refresher started (polling every ${tokenRefreshConfig.pollIntervalMs}ms)`);
+    void refreshDueConnections();
+    refreshTimer = setInterval(() => {
+        void refreshDueConnections();
+    }, tokenRefreshConfig.pollIntervalMs);
+};
+
+/**
+ * Stop the background token refresher
+ */
+const stopTokenRefresher = (): void => {
+    if (refreshTimer) {
+        clearInterval(refreshTimer);
+        refreshTimer = null;
+    }
+};
+
+const tokenRefreshScheduler = {
+    refreshDueConnections,
+    startTokenRefresher,
+    stopTokenRefresher
+};
+
+export default tokenRefreshScheduler;
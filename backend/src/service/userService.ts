@@ -0,0 +1,152 @@
+// services/userService.ts
+
+import { prisma } from '../config/db';
+import { Membership, MembershipRole, User } from '@prisma/client';
+import { QBOConnectionWithoutTokens } from '../types/quickbooks';
+import { hashPassword, verifyPassword } from '../utils/password';
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<MembershipRole, number> = {
+    VIEWER: 0,
+    OPERATOR: 1,
+    ADMIN: 2
+};
+
+/**
+ * Check whether a role includes the permissions of another role
+ */
+export const hasRole = (role: MembershipRole, minimum: MembershipRole): boolean => {
+    return ROLE_RANK[role] >= ROLE_RANK[minimum];
+};
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Create a user with a hashed password
+ */
+const createUser = async (data: { email: string; password: string; name?: string }): Promise<User> => {
+    try {
+        if (!data.email || !data.email.includes('@')) {
+            throw new Error('A valid email is required');
+        }
+        if (!data.password || data.password.length < 8) {
+            throw new Error('Password must be at least 8 characters');
+        }
+
+        const email = normalizeEmail(data.email);
+        const existing = await prisma.user.findUnique({ where: { email } });
+        if (existing) {
+            throw new Error(`User ${email} already exists`);
+        }
+
+        return await prisma.user.create({
+            data: {
+                email,
+                name: data.name,
+                passwordHash: await hashPassword(data.password)
+            }
+        });
+    } catch (error) {
+        throw new Error(`Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Check a user's credentials
+ * Returns null for an unknown email or a wrong password so callers cannot tell the two apart
+ */
+const authenticate = async (email: string, password: string): Promise<User | null> => {
+    try {
+        const user = await prisma.user.findUnique({
+            where: { email: normalizeEmail(email) }
+        });
+
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+            return null;
+        }
+
+        return await prisma.user.update({
+            where: { id: user.id },
+            data: { lastLoginAt: new Date() }
+        });
+    } catch (error) {
+        throw new Error(`Failed to authenticate user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get a user's role on a connection, or null when they are not a member
+ */
+const getMembership = async (userId: string, qboConnectionId: string): Promise<Membership | null> => {
+    try {
+        return await prisma.membership.findUnique({
+            where: { userId_qboConnectionId: { userId, qboConnectionId } }
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch membership: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Get every company a user is a member of, most recently connected first
+ */
+const getMemberships = async (userId: string): Promise<Array<Membership & { qboConnection: QBOConnectionWithoutTokens }>> => {
+    try {
+        return await prisma.membership.findMany({
+            where: { userId },
+            include: { qboConnection: { omit: { accessToken: true, refreshToken: true } } },
+            orderBy: { qboConnection: { connectedAt: 'desc' } }
+        });
+    } catch (error) {
+        throw new Error(`Failed to fetch memberships: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Give a user a role on a connection, replacing any role they already have
+ */
+const grantMembership = async (userId: string, qboConnectionId: string, role: MembershipRole): Promise<Membership> => {
+    try {
+        return await prisma.membership.upsert({
+            where: { userId_qboConnectionId: { userId, qboConnectionId } },
+            create: { userId, qboConnectionId, role },
+            update: { role }
+        });
+    } catch (error) {
+        throw new Error(`Failed to grant membership: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Check whether a user may connect (or reconnect) a QuickBooks company
+ * A company nobody is a member of yet can be connected by anyone, who then becomes its admin;
+ * once it has members only its admins can reconnect it
+ */
+const canConnectRealm = async (userId: string, realmId: string): Promise<boolean> => {
+    try {
+        const connection = await prisma.qBOConnection.findUnique({
+            where: { realmId },
+            include: { memberships: true }
+        });
+
+        if (!connection || connection.memberships.length === 0) {
+            return true;
+        }
+
+        const membership = connection.memberships.find(m => m.userId === userId);
+        return !!membership && hasRole(membership.role, 'ADMIN');
+    } catch (error) {
+        throw new Error(`Failed to check connection permissions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+const userService = {
+    createUser,
+    authenticate,
+    getMembership,
+    getMemberships,
+    grantMembership,
+    canConnectRealm
+};
+
+export default userService;
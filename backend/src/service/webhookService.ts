@@ -0,0 +1,329 @@
+// services/webhookService.ts
+
+import { prisma } from '../config/db';
+import { webhookConfig } from '../config/webhooks';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { QBOPullOptions } from '../types/quickbooks';
+import { QBOWebhookPayload, WebhookProcessResult, WebhookReceiveResult } from '../types/webhooks';
+import chartOfAccountsService from './chartOfAccountsService';
+import customerService from './customerService';
+import itemService from './itemService';
+import invoiceSyncService from './invoiceSyncService';
+import paymentSyncService from './paymentSyncService';
+import quickbooksAuthService from './quickbooksAuthService';
+
+interface WebhookEntityHandler {
+    refresh: (accessToken: string, realmId: string, options: QBOPullOptions) => Promise<unknown>;
+    markDeleted: (ids: string[], qboConnectionId: string) => Promise<number>;
+}
+
+// Entities we keep a local copy of, in the order they are refreshed -
+// invoices need their customer and payments their invoice to be pulled first
+const ENTITY_HANDLERS: Record<string, WebhookEntityHandler> = {
+    Account: {
+        refresh: chartOfAccountsService.syncChartOfAccounts,
+        markDeleted: chartOfAccountsService.markAccountsDeletedInQBO
+    },
+    Item: {
+        refresh: itemService.syncItems,
+        markDeleted: itemService.markItemsDeletedInQBO
+    },
+    Customer: {
+        refresh: customerService.syncCustomers,
+        markDeleted: customerService.markCustomersDeletedInQBO
+    },
+    Invoice: {
+        refresh: invoiceSyncService.importInvoicesFromQBO,
+        markDeleted: invoiceSyncService.markInvoicesDeletedInQBO
+    },
+    Payment: {
+        refresh: paymentSyncService.importPaymentsFromQBO,
+        markDeleted: paymentSyncService.markPaymentsDeletedInQBO
+    }
+};
+
+const ENTITY_ORDER = Object.keys(ENTITY_HANDLERS);
+
+// Pending events read per pass
+const PROCESS_BATCH_SIZE = 500;
+
+let processTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+let rerunRequested = false;
+
+/**
+ * Persist every entity change in a webhook notification
+ * Changes Intuit delivers again are skipped, so each one is refreshed at most once
+ */
+const recordNotifications = async (payload: QBOWebhookPayload): Promise<WebhookReceiveResult> => {
+    try {
+        if (!Array.isArray(payload?.eventNotifications)) {
+            throw new Error('Invalid webhook payload: eventNotifications must be an array');
+        }
+
+        const events: Prisma.WebhookEventCreateManyInput[] = [];
+        let ignored = 0;
+
+        for (const notification of payload.eventNotifications) {
+            const realmId = String(notification.realmId ?? '');
+            const entities = notification.dataChangeEvent?.entities ?? [];
+
+            if (!realmId || entities.length === 0) {
+                continue;
+            }
+
+            // Only companies connected through OAuth are refreshed; the events are kept either way
+            const connection = await prisma.qBOConnection.findUnique({
+                where: { realmId },
+                select: { id: true, isConnected: true }
+            });
+
+            for (const entity of entities) {
+                const lastUpdated = new Date(entity.lastUpdated);
+                if (!entity.name || !entity.id || !entity.operation || isNaN(lastUpdated.getTime())) {
+                    ignored++;
+                    continue;
+                }
+
+                const ignoreReason = !connection?.isConnected
+                    ? `Realm ${realmId} is not connected`
+                    : !ENTITY_HANDLERS[entity.name]
+                        ? `${entity.name} changes are not synced`
+                        : null;
+
+                if (ignoreReason) {
+                    ignored++;
+                }
+
+                events.push({
+                    dedupeKey: [realmId, entity.name, entity.id, entity.operation, lastUpdated.toISOString()].join(':'),
+                    realmId,
+                    entityName: entity.name,
+                    entityId: String(entity.id),
+                    operation: entity.operation,
+                    deletedId: entity.deletedId || null,
+                    lastUpdated,
+                    qboConnectionId: connection?.id ?? null,
+                    ...(ignoreReason && {
+                        status: 'IGNORED' as const,
+                        errorMessage: ignoreReason,
+                        processedAt: new Date()
+                    })
+                });
+            }
+        }
+
+        const result = events.length > 0
+            ? await prisma.webhookEvent.createMany({ data: events, skipDuplicates: true })
+            : { count: 0 };
+
+        return {
+            received: result.count,
+            duplicates: events.length - result.count,
+            ignored
+        };
+    } catch (error) {
+        throw new Error(`Failed to record webhook notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+};
+
+/**
+ * Mark a set of events as finished
+ */
+const finishEvents = async (
+    events: WebhookEvent[],
+    status: 'PROCESSED' | 'IGNORED',
+    errorMessage: string | null = null
+): Promise<void> => {
+    if (events.length === 0) {
+        return;
+    }
+
+    await prisma.webhookEvent.updateMany({
+        where: { id: { in: events.map(event => event.id) } },
+        data: { status, errorMessage, nextAttemptAt: null, processedAt: new Date() }
+    });
+};
+
+/**
+ * Mark a set of events as failed, scheduling another attempt with exponential backoff while any remain
+ */
+const failEvents = async (events: WebhookEvent[], errorMessage: string): Promise<void> => {
+    // Events of one group can be on different attempts, so they are scheduled per attempt count
+    const byAttempts = new Map<number, WebhookEvent[]>();
+    for (const event of events) {
+        byAttempts.set(event.attempts, [...(byAttempts.get(event.attempts) ?? []), event]);
+    }
+
+    for (const [previousAttempts, group] of byAttempts) {
+        const attempts = previousAttempts + 1;
+        const delay = Math.min(webhookConfig.baseDelayMs * Math.pow(2, previousAttempts), webhookConfig.maxDelayMs);
+
+        await prisma.webhookEvent.updateMany({
+            where: { id: { in: group.map(event => event.id) } },
+            data: {
+                status: 'FAILED',
+                errorMessage,
+                attempts,
+                nextAttemptAt: attempts < webhookConfig.maxAttempts ? new Date(Date.now() + delay) : null,
+                processedAt: new Date()
+            }
+        });
+    }
+};
+
+/**
+ * Pull the records behind one connection's events for one entity from QuickBooks
+ * Deleted records can no longer be read, so they are marked deleted locally the way a CDC run would
+ */
+const refreshEntityEvents = async (
+    qboConnectionId: string,
+    realmId: string,
+    entityName: string,
+    events: WebhookEvent[]
+): Promise<WebhookProcessResult> => {
+    const handler = ENTITY_HANDLERS[entityName];
+    const deletes = events.filter(event => event.operation === 'Delete');
+    const changes = events.filter(event => event.operation !== 'Delete');
+    const result: WebhookProcessResult = { processed: 0, failed: 0, ignored: 0 };
+
+    if (changes.length > 0) {
+        try {
+            const accessToken = await quickbooksAuthService.getValidAccessToken(qboConnectionId);
+            const ids = Array.from(new Set(changes.map(event => event.entityId)));
+
+            await handler.refresh(accessToken, realmId, { ids });
+            await finishEvents(changes, 'PROCESSED');
+
+            console.log(`🔔 Webhook refresh: ${ids.length} ${entityName} record(s) pulled for realm ${realmId}`);
+            result.processed += changes.length;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Webhook refresh of ${entityName} for realm ${realmId} failed:`, errorMessage);
+
+            await failEvents(changes, errorMessage);
+            result.failed += changes.length;
+        }
+    }
+
+    // Applied after the changes, so a record changed and then deleted ends up deleted
+    if (deletes.length > 0) {
+        try {
+            const ids = Array.from(new Set(deletes.map(event => event.entityId)));
+            const deleted = await handler.markDeleted(ids, qboConnectionId);
+            await finishEvents(deletes, 'PROCESSED');
+
+            console.log(`🔔 Webhook delete: ${deleted} ${entityName} record(s) marked deleted for realm ${realmId}`);
+            result.processed += deletes.length;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`❌ Webhook delete of ${entityName} for realm ${realmId} failed:`, errorMessage);
+
+            await failEvents(deletes, errorMessage);
+            result.failed += deletes.length;
+        }
+    }
+
+    return result;
+};
+
+/**
+ * Refresh the records behind every pending webhook event, and every failed one that is due another attempt
+ * Events are grouped per connection and entity so each group costs a single QuickBooks query
+ */
+const processPendingEvents = async (): Promise<WebhookProcessResult> => {
+    const totals: WebhookProcessResult = { processed: 0, failed: 0, ignored: 0 };
+
+    // Events arriving mid-run are picked up by another pass once this one finishes
+    if (isProcessing) {
+        rerunRequested = true;
+        return totals;
+    }
+
+    isProcessing = true;
+
+    try {
+        let events: WebhookEvent[];
+
+        do {
+            rerunRequested = false;
+
+            events = await prisma.webhookEvent.findMany({
+                where: {
+                    OR: [
+                        { status: 'PENDING' },
+                        { status: 'FAILED', nextAttemptAt: { lte: new Date() } }
+                    ]
+                },
+                orderBy: { receivedAt: 'asc' },
+                take: PROCESS_BATCH_SIZE
+            });
+
+            const groups = new Map<string, WebhookEvent[]>();
+            for (const event of events) {
+                const key = `${event.qboConnectionId}:${event.entityName}`;
+                groups.set(key, [...(groups.get(key) ?? []), event]);
+            }
+
+            const orderedGroups = Array.from(groups.values()).sort((a, b) =>
+                ENTITY_ORDER.indexOf(a[0].entityName) - ENTITY_ORDER.indexOf(b[0].entityName)
+            );
+
+            for (const group of orderedGroups) {
+                const { qboConnectionId, realmId, entityName } = group[0];
+
+                if (!qboConnectionId || !ENTITY_HANDLERS[entityName]) {
+                    await finishEvents(group, 'IGNORED', 'No connection or handler for this event');
+                    totals.ignored += group.length;
+                    continue;
+                }
+
+                const result = await refreshEntityEvents(qboConnectionId, realmId, entityName, group);
+                totals.processed += result.processed;
+                totals.failed += result.failed;
+                totals.ignored += result.ignored;
+            }
+        } while (rerunRequested || events.length === PROCESS_BATCH_SIZE);
+    } catch (error) {
+        console.error('Error processing webhook events:', error);
+    } finally {
+        isProcessing = false;
+    }
+
+    return totals;
+};
+
+/**
+ * Start the background webhook worker
+ * Runs once straight away so events stored before a restart are picked up on startup
+ */
+const startEventWorker = (): void => {
+    if (processTimer) {
+        return;
+    }
+
+    console.log(`Webhook worker started (polling every ${webhookConfig.pollIntervalMs}ms)`);
+    void processPendingEvents();
+    processTimer = setInterval(() => {
+        void processPendingEvents();
+    }, webhookConfig.pollIntervalMs);
+};
+
+/**
+ * Stop the background webhook worker
+ */
+const stopEventWorker = (): void => {
+    if (processTimer) {
+        clearInterval(processTimer);
+        processTimer = null;
+    }
+};
+
+const webhookService = {
+    recordNotifications,
+    processPendingEvents,
+    startEventWorker,
+    stopEventWorker
+};
+
+export default webhookService;
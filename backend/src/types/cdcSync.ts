@@ -0,0 +1,19 @@
+// types/cdcSync.ts
+
+// How one entity was pulled - a full query when there was no usable watermark, change data capture otherwise
+export type CDCPullMode = 'FULL' | 'CDC';
+
+export interface CDCEntityResult {
+  mode: CDCPullMode;
+  created: number;
+  updated: number;
+  skipped: number;
+  deleted: number;
+  changedSince: Date;
+}
+
+export interface CDCSyncResult {
+  success: boolean;
+  entities: Record<string, CDCEntityResult>;
+  message: string;
+}
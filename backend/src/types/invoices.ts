@@ -1,4 +1,4 @@
-import { SyncStatus } from "@prisma/client";
+import { InvoiceLine, SyncStatus } from "@prisma/client";
 
 export interface QBOInvoiceLineItem {
     Amount: number;
@@ -10,7 +10,11 @@ export interface QBOInvoiceLineItem {
         };
         Qty?: number;
         UnitPrice?: number;
+        TaxCodeRef?: {
+            value: string;
+        };
     };
+    DescriptionLineDetail?: Record<string, never>;
     Description?: string;
 }
 
@@ -41,9 +45,152 @@ export interface QBOInvoicePayload {
         value: string;
     };
     PrivateNote?: string;
+    EmailStatus?: 'NotSet' | 'NeedToSend' | 'EmailSent';
+    BillEmail?: {
+        Address: string;
+    };
+    TxnTaxDetail?: QBOTxnTaxDetail;
+    CurrencyRef?: {
+        value: string;
+    };
+    ExchangeRate?: number;
     TotalAmt?: number;
 }
 
+// Invoice-level sales tax - QuickBooks calculates TotalTax from TxnTaxCodeRef unless it is overridden
+export interface QBOTxnTaxDetail {
+    TxnTaxCodeRef?: {
+        value: string;
+    };
+    TotalTax?: number;
+}
+
+// QuickBooks sparse update payload - only the fields we send are changed in QBO
+export interface QBOInvoiceUpdatePayload extends QBOInvoicePayload {
+    Id: string;
+    SyncToken: string;
+    sparse: boolean;
+}
+
+// QuickBooks void/delete payload - QBO only needs the Id and current SyncToken
+export interface QBOInvoiceStatusChangePayload {
+    Id: string;
+    SyncToken: string;
+}
+
+// QuickBooks Invoice entity as returned by the query endpoint
+export interface QBOInvoice {
+    Id: string;
+    SyncToken: string;
+    DocNumber?: string;
+    TxnDate: string;
+    DueDate?: string;
+    CustomerRef: {
+        value: string;
+        name?: string;
+    };
+    Line: Array<{
+        Id?: string;
+        Amount: number;
+        DetailType: string;
+        Description?: string;
+        SalesItemLineDetail?: {
+            ItemRef: {
+                value: string;
+                name?: string;
+            };
+            Qty?: number;
+            UnitPrice?: number;
+            TaxCodeRef?: {
+                value: string;
+            };
+        };
+    }>;
+    TotalAmt: number;
+    Balance: number;
+    BillAddr?: {
+        Line1?: string;
+        City?: string;
+        Country?: string;
+        CountrySubDivisionCode?: string;
+        PostalCode?: string;
+    };
+    SalesTermRef?: {
+        value: string;
+    };
+    PrivateNote?: string;
+    EmailStatus?: 'NotSet' | 'NeedToSend' | 'EmailSent';
+    TxnTaxDetail?: QBOTxnTaxDetail;
+    CurrencyRef?: {
+        value: string;
+        name?: string;
+    };
+    ExchangeRate?: number;
+    MetaData: {
+        CreateTime: string;
+        LastUpdatedTime: string;
+    };
+    [key: string]: any;
+}
+
+export interface QBOInvoiceQueryResponse {
+    QueryResponse: {
+        Invoice?: QBOInvoice[];
+        startPosition?: number;
+        maxResults?: number;
+    };
+    time: string;
+}
+
+// An invoice still waiting to reach QuickBooks that points at a customer or item QuickBooks no longer accepts
+export interface InactiveReferenceWarning {
+    invoiceId: string;
+    docNumber: string | null;
+    reason: 'INACTIVE_CUSTOMER' | 'INACTIVE_ITEM';
+    referenceId: string; // QuickBooks id of the customer or item
+    referenceName: string;
+    message: string;
+}
+
+// A line as written through the invoice lines API - itemId is our internal item ID
+export interface InvoiceLineInput {
+    detailType?: 'SalesItemLineDetail' | 'DescriptionOnly';
+    itemId?: string | null;
+    description?: string | null;
+    quantity?: number | null;
+    unitPrice?: number | null;
+    amount?: number | null; // Defaults to quantity * unitPrice
+    taxCode?: string | null;
+}
+
+export interface InvoiceLinesResult {
+    success: boolean;
+    lines?: InvoiceLine[];
+    subtotal?: number;
+    total?: number;
+    message: string;
+    error?: string;
+}
+
+// An invoice whose tax (total minus subtotal) differs from the tax QuickBooks computed for it
+export interface TaxMismatch {
+    invoiceId: string;
+    docNumber: string | null;
+    localTax: number;
+    qboTax: number;
+    difference: number;
+}
+
+export interface InvoiceImportResult {
+    success: boolean;
+    totalInvoices: number;
+    pages: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    message: string;
+}
+
 // QuickBooks Invoice Response interface
 export interface QBOInvoiceResponse {
     QueryResponse?: any;
@@ -26,6 +26,11 @@ export interface QBOPayment {
     };
     PaymentRefNum?: string;
     PrivateNote?: string;
+    CurrencyRef?: {
+        value: string;
+        name?: string;
+    };
+    ExchangeRate?: number;
     LinkedTxn?: Array<{
         TxnId: string;
         TxnType: string;
@@ -214,3 +219,13 @@ export enum PaymentMethod {
     BANK_TRANSFER = 'BANK_TRANSFER',
     OTHER = 'OTHER'
 }
+
+export interface PaymentImportResult {
+    success: boolean;
+    totalPayments: number;
+    pages: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    message: string;
+}
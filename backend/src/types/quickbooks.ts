@@ -1,5 +1,8 @@
 // types/quickbooks.ts
 
+import { QBOConnection, QBOEnvironment } from '@prisma/client';
+import { InactiveReferenceWarning } from './invoices';
+
 export interface QBOTokenRefreshResponse {
     access_token: string;
     refresh_token: string;
@@ -29,14 +32,20 @@ export interface QBOConnectionData {
   accessToken: string;
   refreshToken: string;
   realmId: string;
+  environment: QBOEnvironment;
   expiresAt: Date;
   refreshExpiresAt: Date;
   isConnected: boolean;
   companyName?: string;
   connectedAt: Date;
   lastSyncAt?: Date;
+  reauthRequiredAt?: Date;
 }
 
+// A connection loaded through a relation include - tokens are only decrypted on top-level QBOConnection
+// queries, so they are left out of includes and read through quickbooksAuthService instead
+export type QBOConnectionWithoutTokens = Omit<QBOConnection, 'accessToken' | 'refreshToken'>;
+
 export interface QBODisconnectRequest {
   connectionId: string;
 }
@@ -76,12 +85,104 @@ export interface QBOErrorResponse {
   };
 }
 
-export interface AuthState {
-  timestamp: number;
-  returnUrl?: string;
-}
-
 export interface QBOAuthUrl {
   authUrl: string;
   state: string;
-}
\ No newline at end of file
+  environment: QBOEnvironment;
+}
+
+// Fault body returned by the QuickBooks accounting API
+export interface QBOFault {
+  Error: Array<{
+    Detail?: string;
+    Message?: string;
+    code: string;
+    element?: string;
+  }>;
+  type: string;
+}
+
+export type QBOOperation = 'query' | 'read' | 'create' | 'update' | 'delete' | 'void' | 'batch' | 'cdc';
+
+// Context handed to QBO client hooks for every request
+export interface QBORequestContext {
+  realmId: string;
+  operation: QBOOperation;
+  entity?: string;
+  method: 'GET' | 'POST';
+  url: string;
+  payload?: unknown;
+}
+
+export interface QBOClientHooks {
+  onRequest?: (context: QBORequestContext) => void | Promise<void>;
+  onResponse?: (context: QBORequestContext, response: { status: number; data: any; durationMs: number }) => void | Promise<void>;
+  onError?: (context: QBORequestContext, error: Error) => void | Promise<void>;
+}
+
+export interface QBOQueryResult<T> {
+  records: T[];
+  startPosition?: number;
+  maxResults?: number;
+  totalCount?: number;
+}
+
+export interface QBOBatchItemRequest {
+  bId: string;
+  operation?: 'create' | 'update' | 'delete';
+  optionsData?: string;
+  Query?: string;
+  [entity: string]: any;
+}
+
+export interface QBOBatchItemResponse {
+  bId: string;
+  Fault?: QBOFault;
+  QueryResponse?: any;
+  [entity: string]: any;
+}
+
+// Current state of the request queue for one realm
+export interface QBORealmQueueStatus {
+  realmId: string;
+  queued: number;
+  active: number;
+  availableTokens: number;
+  pausedUntil: Date | null;
+}
+
+// Options for pulling entities from QuickBooks into the database
+export interface QBOPullOptions {
+  // Only read these QuickBooks Ids instead of everything changed since the last pull
+  ids?: string[];
+  // Read every record, inactive ones included, and deactivate local records QuickBooks no longer returns
+  reconcile?: boolean;
+}
+
+// Outcome of a reconciliation pull of reference data
+export interface QBOReconcileResult {
+  // Records QuickBooks returned as inactive
+  inactive: number;
+  // Local records QuickBooks did not return at all, now marked inactive
+  vanished: number;
+  // Pending invoices that reference one of the now inactive records
+  warnings: InactiveReferenceWarning[];
+}
+
+// Counts from saving a page of QuickBooks records to the database
+export interface QBOSaveResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  // Earliest update time among records skipped because something they reference is not pulled yet -
+  // an incremental pull must read them again once it is
+  oldestDeferredAt?: Date;
+}
+
+// Entries returned by the change data capture endpoint, grouped by entity
+// Deleted records only carry their Id, status: 'Deleted' and MetaData
+export interface QBOChangeDataCaptureResult {
+  changes: Record<string, any[]>;
+  // QuickBooks server time the changes were read at
+  time: string;
+}
@@ -0,0 +1,32 @@
+// types/syncJobs.ts
+
+export interface SyncBatchProgress {
+  batchNumber: number;
+  totalBatches: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  failures: Array<{
+    id: string;
+    label: string;
+    error?: string;
+  }>;
+}
+
+export interface BulkSyncOptions {
+  useBatchApi?: boolean;
+  // Called after every batch so a running sync job can record its progress
+  onBatchComplete?: (progress: SyncBatchProgress) => Promise<void>;
+  // Checked before every batch - returning true stops the sync without starting the next batch
+  shouldStop?: () => Promise<boolean>;
+  // Called before every batch for a current access token - a long-running job outlives the token it started with
+  getAccessToken?: () => Promise<string>;
+}
+
+export interface SyncJobBatch {
+  batchNumber: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  completedAt: string;
+}
@@ -0,0 +1,48 @@
+export interface QBOTaxCode {
+    Id: string;
+    Name: string;
+    Description?: string;
+    Active?: boolean;
+    Taxable?: boolean;
+    TaxGroup?: boolean;
+    SalesTaxRateList?: {
+        TaxRateDetail?: Array<{
+            TaxRateRef: {
+                value: string;
+                name?: string;
+            };
+            TaxTypeApplicable?: string;
+            TaxOrder?: number;
+        }>;
+    };
+    SyncToken?: string;
+    MetaData?: {
+        CreateTime: string;
+        LastUpdatedTime: string;
+    };
+}
+
+export interface QBOTaxRate {
+    Id: string;
+    Name: string;
+    Description?: string;
+    Active?: boolean;
+    RateValue?: number;
+    AgencyRef?: {
+        value: string;
+    };
+    SyncToken?: string;
+    MetaData?: {
+        CreateTime: string;
+        LastUpdatedTime: string;
+    };
+}
+
+export interface TaxSyncResult {
+    success: boolean;
+    taxRates: number;
+    taxCodes: number;
+    created: number;
+    updated: number;
+    message: string;
+}
@@ -0,0 +1,33 @@
+// types/webhooks.ts
+
+// Body Intuit posts to the webhook endpoint
+export interface QBOWebhookPayload {
+  eventNotifications?: QBOEventNotification[];
+}
+
+export interface QBOEventNotification {
+  realmId: string;
+  dataChangeEvent?: {
+    entities?: QBOWebhookEntity[];
+  };
+}
+
+export interface QBOWebhookEntity {
+  name: string;
+  id: string;
+  operation: string;
+  lastUpdated: string;
+  deletedId?: string;
+}
+
+export interface WebhookReceiveResult {
+  received: number;
+  duplicates: number;
+  ignored: number;
+}
+
+export interface WebhookProcessResult {
+  processed: number;
+  failed: number;
+  ignored: number;
+}
@@ -1,4 +1,9 @@
+import { ConnectionAccessError } from '../service/connectionResolver';
+
 export const getStatusCode = (error: Error): number => {
+    if (error instanceof ConnectionAccessError) {
+        return error.statusCode; // Forbidden
+    }
     if (
         error.message.includes('required') ||
         error.message.includes('must be') ||
@@ -0,0 +1,9 @@
+/**
+ * Earlier of two optional times - used to hold an import watermark back to the oldest record that still has to be read
+ */
+export const earliestOf = (current: Date | undefined, candidate: Date | null | undefined): Date | undefined => {
+    if (!candidate) {
+        return current;
+    }
+    return !current || candidate < current ? candidate : current;
+};
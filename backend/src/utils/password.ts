@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+
+const KEY_LENGTH = 64;
+
+const scrypt = (password: string, salt: Buffer): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        crypto.scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+            if (error) reject(error);
+            else resolve(derivedKey);
+        });
+    });
+};
+
+/**
+ * Hash a password as scrypt:<salt>:<hash> (both base64)
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.randomBytes(16);
+    const hash = await scrypt(password, salt);
+    return `scrypt:${salt.toString('base64')}:${hash.toString('base64')}`;
+};
+
+/**
+ * Check a password against a stored hash in constant time
+ */
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+    const [scheme, salt, hash] = storedHash.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) {
+        return false;
+    }
+
+    const expected = Buffer.from(hash, 'base64');
+    const actual = await scrypt(password, Buffer.from(salt, 'base64'));
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
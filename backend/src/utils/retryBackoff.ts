@@ -0,0 +1,28 @@
+import { syncRetryConfig } from '../config/syncRetry';
+
+/**
+ * Calculate when the next retry should run using exponential backoff
+ * retryCount is the number of retries already attempted (0 for the first failure)
+ */
+export const getNextRetryAt = (retryCount: number): Date => {
+    const delay = Math.min(
+        syncRetryConfig.baseDelayMs * Math.pow(2, retryCount),
+        syncRetryConfig.maxDelayMs
+    );
+    return new Date(Date.now() + delay);
+};
+
+/**
+ * Resolve the nextRetryAt value for a sync log that has just been written
+ * Returns null when no further retry should be scheduled
+ */
+export const resolveNextRetryAt = (
+    status: string,
+    retryCount: number,
+    maxRetries: number
+): Date | null => {
+    if (status !== 'FAILED') {
+        return null;
+    }
+    return retryCount < maxRetries ? getNextRetryAt(retryCount) : null;
+};
@@ -0,0 +1,41 @@
+import { Request, Response, CookieOptions } from 'express';
+import { sessionConfig } from '../config/session';
+
+const cookieOptions = (): CookieOptions => ({
+    httpOnly: true,
+    secure: sessionConfig.secureCookie,
+    sameSite: sessionConfig.sameSite,
+    path: '/'
+});
+
+/**
+ * Read the session token from the request's Cookie header
+ */
+export const getSessionToken = (req: Request): string | undefined => {
+    const header = req.headers.cookie;
+    if (!header) {
+        return undefined;
+    }
+
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator === -1) {
+            continue;
+        }
+
+        if (part.slice(0, separator).trim() === sessionConfig.cookieName) {
+            const value = part.slice(separator + 1).trim();
+            return value ? decodeURIComponent(value) : undefined;
+        }
+    }
+
+    return undefined;
+};
+
+export const setSessionCookie = (res: Response, token: string, expiresAt: Date): void => {
+    res.cookie(sessionConfig.cookieName, token, { ...cookieOptions(), expires: expiresAt });
+};
+
+export const clearSessionCookie = (res: Response): void => {
+    res.clearCookie(sessionConfig.cookieName, cookieOptions());
+};
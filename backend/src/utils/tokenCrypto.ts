@@ -0,0 +1,73 @@
+import crypto from 'crypto';
+import { tokenEncryptionConfig } from '../config/tokenEncryption';
+
+// Stored format: enc:v1:<keyId>:<wrapped data key>:<encrypted token>
+// Each value gets its own random data key, which is itself encrypted with the configured master key
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const getMasterKey = (keyId: string): Buffer => {
+    const key = tokenEncryptionConfig.keys[keyId];
+    if (!key) {
+        throw new Error(`Token encryption key "${keyId}" is not configured`);
+    }
+    return key;
+};
+
+/**
+ * AES-256-GCM encrypt, returning iv + auth tag + ciphertext in one buffer
+ */
+const seal = (key: Buffer, plaintext: Buffer): Buffer => {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+};
+
+const open = (key: Buffer, sealed: Buffer): Buffer => {
+    const iv = sealed.subarray(0, IV_LENGTH);
+    const tag = sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+};
+
+export const isEncryptedToken = (value: string): boolean => value.startsWith(ENCRYPTED_PREFIX);
+
+/**
+ * Encrypt a token with the current key
+ */
+export const encryptToken = (token: string): { value: string; keyId: string } => {
+    const keyId = tokenEncryptionConfig.currentKeyId;
+    if (!keyId) {
+        throw new Error('Token encryption key is not configured - set TOKEN_ENCRYPTION_KEY_ID and TOKEN_ENCRYPTION_KEYS');
+    }
+
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = seal(getMasterKey(keyId), dataKey);
+    const encrypted = seal(dataKey, Buffer.from(token, 'utf8'));
+
+    return {
+        value: `${ENCRYPTED_PREFIX}${keyId}:${wrappedKey.toString('base64')}:${encrypted.toString('base64')}`,
+        keyId
+    };
+};
+
+/**
+ * Decrypt a stored token
+ * Plaintext values (rows written before encryption was enabled) are returned unchanged
+ */
+export const decryptToken = (value: string): string => {
+    if (!isEncryptedToken(value)) {
+        return value;
+    }
+
+    const [keyId, wrappedKey, encrypted] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+    if (!keyId || !wrappedKey || !encrypted) {
+        throw new Error('Encrypted token is malformed');
+    }
+
+    const dataKey = open(getMasterKey(keyId), Buffer.from(wrappedKey, 'base64'));
+    return open(dataKey, Buffer.from(encrypted, 'base64')).toString('utf8');
+};
@@ -2,15 +2,34 @@
 import axiosInstance from "./axiosInstance";
 
 // Authentication API calls
-export const getAuthUrl = async (returnUrl?: string) => {
-  const params = returnUrl ? `?returnUrl=${encodeURIComponent(returnUrl)}` : '';
-  return await axiosInstance.get(`/qbo/auth/connect${params}`);
+export const getAuthUrl = async (returnUrl?: string, environment?: 'sandbox' | 'production') => {
+  const params = new URLSearchParams();
+  if (returnUrl) params.append('returnUrl', returnUrl);
+  if (environment) params.append('environment', environment);
+  const query = params.toString();
+  return await axiosInstance.get(`/qbo/auth/connect${query ? `?${query}` : ''}`);
 };
 
 export const handleCallback = async (code: string, state: string, realmId: string) => {
   return await axiosInstance.get(`/qbo/auth/callback?code=${code}&state=${state}&realmId=${realmId}`);
 };
 
+export const login = async (email: string, password: string) => {
+  return await axiosInstance.post(`/qbo/auth/login`, { email, password });
+};
+
+export const switchConnection = async (connectionId: string) => {
+  return await axiosInstance.post(`/qbo/auth/session/connection`, { connectionId });
+};
+
+export const getSession = async () => {
+  return await axiosInstance.get(`/qbo/auth/session`);
+};
+
+export const logout = async () => {
+  return await axiosInstance.post(`/qbo/auth/logout`);
+};
+
 export const getConnectionStatus = async (connectionId: string) => {
   return await axiosInstance.get(`/qbo/auth/status/${connectionId}`);
 };
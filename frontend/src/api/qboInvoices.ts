@@ -48,4 +48,8 @@ export const getAllInvoices = async (params: GetInvoicesParams = {}) => {
 
 export const syncSingleInvoice = async (invoiceId: string) => {
   return await axiosInstance.post(`/qbo/invoices/sync/${invoiceId}`);
+};
+
+export const retryInvoiceSync = async (invoiceId: string, forceRetry = false) => {
+  return await axiosInstance.post(`/qbo/invoices/sync/${invoiceId}/retry`, { forceRetry });
 };
\ No newline at end of file
@@ -47,6 +47,10 @@ export const syncSinglePayment = async (paymentId: string) => {
   return await axiosInstance.post(`/qbo/payments/sync/${paymentId}`);
 };
 
+export const retryPaymentSync = async (paymentId: string, forceRetry = false) => {
+  return await axiosInstance.post(`/qbo/payments/sync/${paymentId}/retry`, { forceRetry });
+};
+
 export const getPaymentSyncStatus = async () => {
   return await axiosInstance.get(`/qbo/payments/sync/status`);
 };
\ No newline at end of file
@@ -0,0 +1,53 @@
+// api/syncJobs.ts
+import axiosInstance from "./axiosInstance";
+
+export type SyncJobStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+export interface SyncJob {
+  id: string;
+  transactionType: 'INVOICE' | 'PAYMENT';
+  status: SyncJobStatus;
+  useBatchApi: boolean;
+  totalCount: number;
+  processedCount: number;
+  successCount: number;
+  failureCount: number;
+  totalBatches: number;
+  completedBatches: number;
+  progress: number;
+  errorMessage: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+const SYNC_JOB_POLL_INTERVAL_MS = 2000;
+
+export const isSyncJobActive = (job: SyncJob) => job.status === 'QUEUED' || job.status === 'RUNNING';
+
+export const getSyncJob = async (jobId: string) => {
+  return await axiosInstance.get(`/qbo/sync-jobs/${jobId}`);
+};
+
+export const cancelSyncJob = async (jobId: string) => {
+  return await axiosInstance.post(`/qbo/sync-jobs/${jobId}/cancel`);
+};
+
+// Poll a sync job until it finishes, reporting every update so callers can show progress
+export const waitForSyncJob = async (
+  jobId: string,
+  onProgress?: (job: SyncJob) => void,
+  shouldContinue: () => boolean = () => true
+): Promise<SyncJob> => {
+  while (true) {
+    const response = await getSyncJob(jobId);
+    const job: SyncJob = response.data.data;
+    onProgress?.(job);
+
+    if (!isSyncJobActive(job) || !shouldContinue()) {
+      return job;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, SYNC_JOB_POLL_INTERVAL_MS));
+  }
+};
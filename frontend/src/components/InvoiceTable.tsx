@@ -26,7 +26,7 @@ import {
   SortAscendingOutlined,
   SortDescendingOutlined
 } from '@ant-design/icons';
-import { getAllInvoices, syncSingleInvoice } from '../api/qboInvoices';
+import { getAllInvoices, syncSingleInvoice, retryInvoiceSync } from '../api/qboInvoices';
 import dayjs from 'dayjs';
 
 const { Text } = Typography;
@@ -249,6 +249,25 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({ onSyncAll }) => {
     }
   };
 
+  const handleRetryInvoice = async (invoiceId: string) => {
+    try {
+      setSyncingInvoiceId(invoiceId);
+      const response = await retryInvoiceSync(invoiceId);
+
+      if (response.data.status === 'success') {
+        message.success('Invoice synced successfully on retry');
+        fetchInvoices();
+      } else {
+        message.error('Failed to retry invoice sync');
+      }
+    } catch (error) {
+      console.error('Error retrying invoice sync:', error);
+      message.error('Failed to retry invoice sync');
+    } finally {
+      setSyncingInvoiceId(null);
+    }
+  };
+
   const handleSyncAllUnsynchronized = async () => {
     try {
       setPageLoading(true);
@@ -451,11 +470,11 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({ onSyncAll }) => {
               type="link"
               size="small"
               style={{ color: '#1890ff', padding: 0 }}
-              onClick={() => handleSyncInvoice(record.id)}
+              onClick={() => record.syncStatus === 'FAILED' ? handleRetryInvoice(record.id) : handleSyncInvoice(record.id)}
               loading={syncingInvoiceId === record.id}
               disabled={pageLoading || syncingInvoiceId !== null}
             >
-              Sync Now
+              {record.syncStatus === 'FAILED' ? 'Retry' : 'Sync Now'}
             </Button>
           )}
         </Space>
@@ -27,7 +27,8 @@ import {
   SortDescendingOutlined
 } from '@ant-design/icons';
 
-import { getAllPayments, syncSinglePayment, syncAllPayments } from '../api/qboPayment';
+import { getAllPayments, syncSinglePayment, syncAllPayments, retryPaymentSync } from '../api/qboPayment';
+import { waitForSyncJob } from '../api/syncJobs';
 import dayjs from 'dayjs';
 
 const { Text } = Typography;
@@ -256,13 +257,41 @@ const PaymentTable: React.FC<PaymentTableProps> = ({ onSyncAll }) => {
     }
   };
 
+  const handleRetryPayment = async (paymentId: string) => {
+    try {
+      setSyncingPaymentId(paymentId);
+      const response = await retryPaymentSync(paymentId);
+
+      if (response.data.status === 'success') {
+        message.success('Payment synced successfully on retry');
+        fetchPayments();
+      } else {
+        message.error('Failed to retry payment sync');
+      }
+    } catch (error) {
+      console.error('Error retrying payment sync:', error);
+      message.error('Failed to retry payment sync');
+    } finally {
+      setSyncingPaymentId(null);
+    }
+  };
+
   const handleSyncAllUnsynchronized = async () => {
     try {
       setPageLoading(true);
       const response = await syncAllPayments();
 
       if (response.data.status === 'success') {
-        message.success('All unsynchronized payments synced successfully');
+        // The sync runs as a background job - wait for it to finish before refreshing
+        const job = await waitForSyncJob(response.data.data.jobId);
+
+        if (job.status === 'COMPLETED' && job.failureCount === 0) {
+          message.success('All unsynchronized payments synced successfully');
+        } else if (job.status === 'FAILED') {
+          message.error(`Failed to sync all payments: ${job.errorMessage || 'Unknown error'}`);
+        } else {
+          message.warning(`${job.successCount} payments synced, ${job.failureCount} failed`);
+        }
         fetchPayments();
         onSyncAll?.();
       } else {
@@ -466,11 +495,11 @@ const PaymentTable: React.FC<PaymentTableProps> = ({ onSyncAll }) => {
               type="link" 
               size="small"
               style={{ color: '#1890ff', padding: 0 }}
-              onClick={() => handleSyncPayment(record.id)}
+              onClick={() => record.syncStatus === 'FAILED' ? handleRetryPayment(record.id) : handleSyncPayment(record.id)}
               loading={syncingPaymentId === record.id}
               disabled={pageLoading || syncingPaymentId !== null}
             >
-              Sync Now
+              {record.syncStatus === 'FAILED' ? 'Retry' : 'Sync Now'}
             </Button>
           )}
         </Space>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { 
   Row, 
   Col, 
@@ -10,7 +10,8 @@ import {
   Space,
   message,
   Spin,
-  Modal
+  Modal,
+  Progress
 } from 'antd';
 import { 
   FileTextOutlined, 
@@ -20,10 +21,11 @@ import {
   ExclamationCircleOutlined,
   DisconnectOutlined
 } from '@ant-design/icons';
-import { getCompanyName, getRealmId, saveAuthData, clearAuthData, getConnectionId } from '../utils/auth';
+import { getCompanyName, getRealmId, saveAuthData, clearAuthData, getConnectionId, getRole, hasRole } from '../utils/auth';
 import { getInvoiceSyncStatistics, syncAllInvoices } from '../api/qboInvoices';
 import { getPaymentSyncStatus, syncAllPayments } from '../api/qboPayment';
-import { disconnectQBO } from '../api/qboAuth';
+import { disconnectQBO, logout } from '../api/qboAuth';
+import { cancelSyncJob, waitForSyncJob, type SyncJob } from '../api/syncJobs';
 import InvoiceTable from '../components/InvoiceTable';
 import PaymentTable from '../components/PaymentTable';
 import { useNavigate } from "react-router-dom";
@@ -64,10 +66,14 @@ const Dashboard = () => {
   const [disconnecting, setDisconnecting] = useState(false);
   const [syncingInvoices, setSyncingInvoices] = useState(false);
   const [syncingPayments, setSyncingPayments] = useState(false);
+  const [invoiceJob, setInvoiceJob] = useState<SyncJob | null>(null);
+  const [paymentJob, setPaymentJob] = useState<SyncJob | null>(null);
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  // Stops sync job polling once the dashboard is left
+  const mountedRef = useRef(true);
   const [activeTab, setActiveTab] = useState('invoices');
 
-  // Check if any sync operation is running for full-page loader
+  // Check if any sync operation is running so other sync actions stay disabled
   const isAnySyncRunning = syncingInvoices || syncingPayments;
 
     const navigate = useNavigate();
@@ -83,10 +89,10 @@ const Dashboard = () => {
     if (connected === 'true' && company && realmId && connectionId) {
       // Save the auth data from the redirect
       saveAuthData({
-        accessToken: 'authenticated',
         realmId: realmId,
         connectionId: connectionId,
-        companyName: decodeURIComponent(company)
+        companyName: decodeURIComponent(company),
+        role: getRole()
       });
 
       // Show success message
@@ -97,6 +103,11 @@ const Dashboard = () => {
     }
 
     fetchDashboardData();
+
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
   }, []);
 
   const fetchDashboardData = async () => {
@@ -204,23 +215,42 @@ const Dashboard = () => {
     }
   };
 
+  const showSyncJobResult = (label: string, job: SyncJob) => {
+    if (job.status === 'FAILED') {
+      message.error(`Failed to sync ${label}: ${job.errorMessage || 'Unknown error'}`);
+    } else if (job.status === 'CANCELLED') {
+      message.info(`${label} sync cancelled after ${job.processedCount} of ${job.totalCount} processed`);
+    } else if (job.failureCount > 0) {
+      message.warning(`${job.successCount} ${label} synced, ${job.failureCount} failed`);
+    } else if (job.status === 'COMPLETED') {
+      message.success(`Successfully synced ${job.successCount} ${label}`);
+    }
+  };
+
   const handleSyncAllInvoices = async () => {
     setSyncingInvoices(true);
     try {
       const response = await syncAllInvoices();
 
-      if (response.data.status === 'success') {
-        message.success(`Successfully initiated sync for ${response.data.data?.totalInvoices || 'all'} invoices`);
-        // Refresh dashboard data
-        await fetchDashboardData();
-      } else {
+      if (response.data.status !== 'success') {
         throw new Error(response.data.message || 'Failed to sync invoices');
       }
+
+      // The sync runs as a background job - poll it instead of holding the request open
+      const job = await waitForSyncJob(response.data.data.jobId, setInvoiceJob, () => mountedRef.current);
+      if (!mountedRef.current) {
+        return;
+      }
+
+      showSyncJobResult('invoices', job);
+      // Refresh dashboard data
+      await fetchDashboardData();
     } catch (error) {
       console.error('Error syncing invoices:', error);
       message.error(`Failed to sync invoices: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setSyncingInvoices(false);
+      setInvoiceJob(null);
     }
   };
 
@@ -229,21 +259,60 @@ const Dashboard = () => {
     try {
       const response = await syncAllPayments();
 
-      if (response.data.status === 'success') {
-        message.success(`Successfully initiated sync for ${response.data.data?.totalPayments || 'all'} payments`);
-        // Refresh dashboard data
-        await fetchDashboardData();
-      } else {
+      if (response.data.status !== 'success') {
         throw new Error(response.data.message || 'Failed to sync payments');
       }
+
+      // The sync runs as a background job - poll it instead of holding the request open
+      const job = await waitForSyncJob(response.data.data.jobId, setPaymentJob, () => mountedRef.current);
+      if (!mountedRef.current) {
+        return;
+      }
+
+      showSyncJobResult('payments', job);
+      // Refresh dashboard data
+      await fetchDashboardData();
     } catch (error) {
       console.error('Error syncing payments:', error);
       message.error(`Failed to sync payments: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setSyncingPayments(false);
+      setPaymentJob(null);
     }
   };
 
+  const handleCancelSyncJob = async (job: SyncJob) => {
+    try {
+      const response = await cancelSyncJob(job.id);
+      message.info(response.data.message);
+    } catch (error) {
+      console.error('Error cancelling sync job:', error);
+      message.error('Failed to cancel sync');
+    }
+  };
+
+  const renderSyncJobProgress = (job: SyncJob | null) => {
+    if (!job) {
+      return null;
+    }
+
+    return (
+      <div style={{ marginTop: '12px' }}>
+        <Progress percent={job.progress} size="small" status={job.failureCount > 0 ? 'exception' : 'active'} />
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {job.status === 'QUEUED'
+              ? 'Queued...'
+              : `${job.processedCount}/${job.totalCount} processed (batch ${job.completedBatches}/${job.totalBatches || '?'})`}
+          </Text>
+          <Button type="link" size="small" danger onClick={() => handleCancelSyncJob(job)}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
   // const handleSyncAllUnsynchronized = async () => {
   //   const hasPendingInvoices = (stats?.invoices.pending || 0) > 0 || (stats?.invoices.failed || 0) > 0;
   //   const hasPendingPayments = (stats?.payments.pending || 0) > 0 || (stats?.payments.failed || 0) > 0;
@@ -309,6 +378,16 @@ const Dashboard = () => {
     navigate("/sync-logs");
   };
 
+  const handleLogout = async () => {
+    try {
+      await logout();
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+    clearAuthData();
+    navigate('/login', { replace: true });
+  };
+
   const handleDisconnect = () => {
     const companyName = getCompanyName();
     const connectionId = getConnectionId();
@@ -395,40 +474,6 @@ const Dashboard = () => {
 
   return (
     <>
-      {/* Full-page loader for sync operations */}
-      {isAnySyncRunning && (
-        <div style={{
-          position: 'fixed',
-          top: 0,
-          left: 0,
-          width: '100%',
-          height: '100%',
-          backgroundColor: 'rgba(255, 255, 255, 0.8)',
-          display: 'flex',
-          flexDirection: 'column',
-          justifyContent: 'center',
-          alignItems: 'center',
-          zIndex: 9999,
-          backdropFilter: 'blur(2px)'
-        }}>
-          <Spin size="large" />
-          <div style={{ marginTop: '16px', textAlign: 'center' }}>
-            <Text style={{ fontSize: '16px', fontWeight: 500 }}>
-              {syncingInvoices && syncingPayments 
-                ? 'Syncing invoices and payments...' 
-                : syncingInvoices 
-                ? 'Syncing invoices...' 
-                : 'Syncing payments...'
-              }
-            </Text>
-            <br />
-            <Text type="secondary" style={{ fontSize: '14px' }}>
-              Please wait while we synchronize your data with QuickBooks
-            </Text>
-          </div>
-        </div>
-      )}
-
       <div style={{ 
         minHeight: '100vh', 
         background: '#f5f5f5',
@@ -498,10 +543,11 @@ const Dashboard = () => {
                   style={{ marginTop: '16px', width: '100%' }}
                   onClick={handleSyncAllInvoices}
                   loading={syncingInvoices}
-                  disabled={(!stats?.invoices.pending && !stats?.invoices.failed) || isAnySyncRunning}
+                  disabled={(!stats?.invoices.pending && !stats?.invoices.failed) || isAnySyncRunning || !hasRole('OPERATOR')}
                 >
                   {syncingInvoices ? 'Syncing...' : 'Sync All Invoices'}
                 </Button>
+                {renderSyncJobProgress(invoiceJob)}
               </Card>
             </Col>
 
@@ -556,10 +602,11 @@ const Dashboard = () => {
                   style={{ marginTop: '16px', width: '100%' }}
                   onClick={handleSyncAllPayments}
                   loading={syncingPayments}
-                  disabled={(!stats?.payments.pending && !stats?.payments.failed) || isAnySyncRunning}
+                  disabled={(!stats?.payments.pending && !stats?.payments.failed) || isAnySyncRunning || !hasRole('OPERATOR')}
                 >
                   {syncingPayments ? 'Syncing...' : 'Sync All Payments'}
                 </Button>
+                {renderSyncJobProgress(paymentJob)}
               </Card>
             </Col>
 
@@ -658,10 +705,17 @@ const Dashboard = () => {
                     style={{ width: '100%' }}
                     onClick={handleDisconnect}
                     loading={disconnecting}
-                    disabled={isAnySyncRunning}
+                    disabled={isAnySyncRunning || !hasRole('ADMIN')}
                   >
                     {disconnecting ? 'Disconnecting...' : 'Disconnect'}
                   </Button>
+                  <Button 
+                    style={{ width: '100%' }}
+                    onClick={handleLogout}
+                    disabled={isAnySyncRunning}
+                  >
+                    Log out
+                  </Button>
                 </Space>
               </Card>
             </Col>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Button, Card, Row, Col, Typography, Space, Alert, Spin, message } from 'antd';
+import { Button, Card, Row, Col, Typography, Space, Alert, Spin, Select, message } from 'antd';
 import { 
   FileTextOutlined, 
   DollarOutlined, 
@@ -21,11 +21,13 @@ import { useNavigate } from "react-router-dom";
 const { Title, Paragraph, Text } = Typography;
 
 type ConnectionStatus = 'connected' | 'error' | null;
+type QBOEnvironment = 'sandbox' | 'production';
 
 const LandingPage = () => {
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(null);
   const [isUserAuthenticated, setIsUserAuthenticated] = useState(false);
+  const [environment, setEnvironment] = useState<QBOEnvironment>('sandbox');
 
   const navigate = useNavigate();
 
@@ -59,6 +61,9 @@ const LandingPage = () => {
         case 'callback_failed':
           errorMessage = 'Failed to establish QuickBooks connection';
           break;
+        case 'admin_required':
+          errorMessage = 'Only an admin of this QuickBooks company can reconnect it';
+          break;
         default:
           errorMessage = decodeURIComponent(error);
       }
@@ -78,7 +83,7 @@ const LandingPage = () => {
   const handleConnect = async () => {
     setIsConnecting(true);
     try {
-      const response = await getAuthUrl();
+      const response = await getAuthUrl(undefined, environment);
       
       if (response.data.status === 'success') {
         const { authUrl } = response.data.data;
@@ -90,6 +95,14 @@ const LandingPage = () => {
       }
     } catch (error) {
       console.error('Connection error:', error);
+
+      // Connecting a company needs a logged-in user, who becomes the company's admin
+      const err = error as { response?: { status?: number } };
+      if (err.response?.status === 401) {
+        navigate('/login');
+        return;
+      }
+
       message.error('Failed to initiate QuickBooks connection');
       setIsConnecting(false);
     }
@@ -161,6 +174,20 @@ const LandingPage = () => {
           </Paragraph>
           
           <Space size="large">
+            {!isUserAuthenticated && (
+              <Select
+                size="large"
+                value={environment}
+                onChange={setEnvironment}
+                disabled={isConnecting}
+                style={{ width: '140px' }}
+                options={[
+                  { value: 'sandbox', label: 'Sandbox' },
+                  { value: 'production', label: 'Production' }
+                ]}
+              />
+            )}
+
             {!isUserAuthenticated ? (
               <Button 
                 type="primary" 
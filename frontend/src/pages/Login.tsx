@@ -0,0 +1,94 @@
+// pages/Login.tsx
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button, Card, Form, Input, Typography, message } from 'antd';
+import { LockOutlined, MailOutlined } from '@ant-design/icons';
+import { login } from '../api/qboAuth';
+import { saveAuthData, clearAuthData } from '../utils/auth';
+
+const { Title, Paragraph } = Typography;
+
+interface LoginForm {
+  email: string;
+  password: string;
+}
+
+const Login: React.FC = () => {
+  const [submitting, setSubmitting] = useState(false);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    // The backend sends users here when the QuickBooks callback arrives without a session
+    const urlParams = new URLSearchParams(window.location.search);
+    if (urlParams.get('error') === 'login_required') {
+      message.warning('Please log in before connecting QuickBooks');
+      window.history.replaceState({}, document.title, window.location.pathname);
+    }
+  }, []);
+
+  const handleSubmit = async (values: LoginForm) => {
+    setSubmitting(true);
+    try {
+      const response = await login(values.email, values.password);
+      const { connection, role } = response.data.data;
+
+      if (connection) {
+        saveAuthData({
+          realmId: connection.realmId,
+          connectionId: connection.id,
+          companyName: connection.companyName || 'Unknown Company',
+          role
+        });
+        navigate('/dashboard', { replace: true });
+      } else {
+        // Logged in but not working in any company yet - connect one from the landing page
+        clearAuthData();
+        navigate('/', { replace: true });
+      }
+    } catch (error) {
+      console.error('Login error:', error);
+      const err = error as { response?: { data?: { message?: string } } };
+      message.error(err.response?.data?.message || 'Failed to log in');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'center',
+      minHeight: '100vh',
+      background: '#f5f5f5'
+    }}>
+      <Card style={{ width: 400 }} bodyStyle={{ padding: '32px' }}>
+        <Title level={3} style={{ marginBottom: '8px' }}>Log in</Title>
+        <Paragraph type="secondary" style={{ marginBottom: '24px' }}>
+          Log in to sync your invoices and payments with QuickBooks
+        </Paragraph>
+
+        <Form<LoginForm> layout="vertical" onFinish={handleSubmit} requiredMark={false}>
+          <Form.Item
+            name="email"
+            label="Email"
+            rules={[{ required: true, type: 'email', message: 'Please enter your email' }]}
+          >
+            <Input prefix={<MailOutlined />} autoComplete="email" />
+          </Form.Item>
+          <Form.Item
+            name="password"
+            label="Password"
+            rules={[{ required: true, message: 'Please enter your password' }]}
+          >
+            <Input.Password prefix={<LockOutlined />} autoComplete="current-password" />
+          </Form.Item>
+          <Button type="primary" htmlType="submit" loading={submitting} style={{ width: '100%' }}>
+            Log in
+          </Button>
+        </Form>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
@@ -10,25 +10,25 @@ const OAuthSuccess: React.FC = () => {
   useEffect(() => {
     const handleOAuthSuccess = () => {
       const urlParams = new URLSearchParams(window.location.search);
-      const accessToken = urlParams.get('qb_access_token');
       const realmId = urlParams.get('qb_realm_id');
       const connectionId = urlParams.get('qb_connection_id');
       const companyName = urlParams.get('qb_company_name');
+      const returnUrl = urlParams.get('qb_return_url');
 
       console.log('OAuth Success - URL Params:', {
-        accessToken: accessToken ? 'present' : 'missing',
         realmId: realmId ? realmId : 'missing',
         connectionId: connectionId ? connectionId : 'missing',
         companyName: companyName ? decodeURIComponent(companyName) : 'missing'
       });
 
-      if (accessToken && realmId && connectionId && companyName) {
-        // Save auth data to localStorage
+      if (realmId && connectionId && companyName) {
+        // The backend has already set the session cookie; only keep the company details for display
         const authData = {
-          accessToken: decodeURIComponent(accessToken),
           realmId: decodeURIComponent(realmId),
           connectionId: decodeURIComponent(connectionId),
-          companyName: decodeURIComponent(companyName)
+          companyName: decodeURIComponent(companyName),
+          // Whoever connects a company becomes its admin
+          role: 'ADMIN' as const
         };
 
         console.log('Saving auth data:', authData);
@@ -36,12 +36,15 @@ const OAuthSuccess: React.FC = () => {
 
         // Small delay to ensure localStorage is saved
         setTimeout(() => {
-          console.log('Redirecting to dashboard...');
-          navigate('/dashboard', { replace: true });
+          // The backend only accepts return URLs that are paths on this site
+          const destination = returnUrl && returnUrl.startsWith('/') && !returnUrl.startsWith('//')
+            ? returnUrl
+            : '/dashboard';
+          console.log(`Redirecting to ${destination}...`);
+          navigate(destination, { replace: true });
         }, 500);
       } else {
         console.error('Missing required OAuth parameters:', {
-          accessToken: !!accessToken,
           realmId: !!realmId,
           connectionId: !!connectionId,
           companyName: !!companyName
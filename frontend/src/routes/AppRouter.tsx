@@ -1,25 +1,72 @@
 // routes/AppRouter.tsx
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { createBrowserRouter, Navigate } from 'react-router-dom';
+import { Spin } from 'antd';
 import LandingPage from '../pages/LandingPage';
 import Dashboard from '../pages/Dashboard';
 import OAuthSuccess from '../pages/OAuthSuccess';
 import SyncLogComponent from '../pages/SyncLog';
+import Login from '../pages/Login';
+import { getSession } from '../api/qboAuth';
+import { clearAuthData, isAuthenticated, saveAuthData } from '../utils/auth';
 
-// Protected Route Component
+// Protected Route Component - the session cookie is httpOnly, so ask the backend whether it is still valid
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const isAuthenticated = localStorage.getItem('qb_access_token') && localStorage.getItem('qb_realm_id');
-  
-  if (!isAuthenticated) {
+  const [sessionStatus, setSessionStatus] = useState<'checking' | 'valid' | 'no-company' | 'invalid'>('checking');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSession()
+      .then((response) => {
+        const { connection, role } = response.data.data;
+
+        // Logged in, but not working in a company the user is a member of
+        if (!connection) {
+          clearAuthData();
+          if (!cancelled) setSessionStatus('no-company');
+          return;
+        }
+
+        saveAuthData({
+          realmId: connection.realmId,
+          connectionId: connection.id,
+          companyName: connection.companyName || 'Unknown Company',
+          role
+        });
+        if (!cancelled) setSessionStatus('valid');
+      })
+      .catch(() => {
+        clearAuthData();
+        if (!cancelled) setSessionStatus('invalid');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (sessionStatus === 'checking') {
+    return (
+      <div style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+        <Spin size="large" />
+      </div>
+    );
+  }
+
+  if (sessionStatus === 'no-company') {
     return <Navigate to="/" replace />;
   }
+
+  if (sessionStatus === 'invalid') {
+    return <Navigate to="/login" replace />;
+  }
   
   return <>{children}</>;
 };
 
 // Public Route Component (handles OAuth callback and redirects)
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const isAuthenticated = localStorage.getItem('qb_access_token') && localStorage.getItem('qb_realm_id');
   
   // Check if this is an OAuth callback
   const urlParams = new URLSearchParams(window.location.search);
@@ -33,7 +80,7 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   }
   
   // If already authenticated and not a callback, redirect to dashboard
-  if (isAuthenticated) {
+  if (isAuthenticated()) {
     return <Navigate to="/dashboard" replace />;
   }
   
@@ -49,6 +96,14 @@ const appRouter = createBrowserRouter([
       </PublicRoute>
     )
   },
+  {
+    path: "/login",
+    element: (
+      <PublicRoute>
+        <Login />
+      </PublicRoute>
+    )
+  },
   {
     path: "/oauth-success",
     element: <OAuthSuccess />
@@ -72,7 +127,7 @@ const appRouter = createBrowserRouter([
   {
     path: "*",
     element: (
-      localStorage.getItem('qb_access_token') && localStorage.getItem('qb_realm_id') 
+      isAuthenticated()
         ? <Navigate to="/dashboard" replace />
         : <Navigate to="/" replace />
     )
@@ -1,41 +1,57 @@
 // utils/auth.ts
+// Only display details of the connected company are kept here - the session itself lives in an httpOnly cookie
+export type Role = 'VIEWER' | 'OPERATOR' | 'ADMIN';
+
+// Each role can do everything the roles before it can
+const ROLE_RANK: Record<Role, number> = {
+  VIEWER: 0,
+  OPERATOR: 1,
+  ADMIN: 2
+};
+
 export interface AuthData {
-  accessToken: string;
   realmId: string;
   connectionId: string;
   companyName: string;
+  role: Role | null;
 }
 
 export const saveAuthData = (data: AuthData): void => {
-  localStorage.setItem('qb_access_token', data.accessToken);
   localStorage.setItem('qb_realm_id', data.realmId);
   localStorage.setItem('qb_connection_id', data.connectionId);
   localStorage.setItem('qb_company_name', data.companyName);
+  if (data.role) {
+    localStorage.setItem('qb_role', data.role);
+  } else {
+    localStorage.removeItem('qb_role');
+  }
 };
 
 export const getAuthData = (): AuthData | null => {
-  const accessToken = localStorage.getItem('qb_access_token');
   const realmId = localStorage.getItem('qb_realm_id');
   const connectionId = localStorage.getItem('qb_connection_id');
   const companyName = localStorage.getItem('qb_company_name');
+  const role = getRole();
 
-  if (!accessToken || !realmId || !connectionId) {
+  if (!realmId || !connectionId) {
     return null;
   }
 
   return {
-    accessToken,
     realmId,
     connectionId,
-    companyName: companyName || 'Unknown Company'
+    companyName: companyName || 'Unknown Company',
+    role
   };
 };
 
 export const clearAuthData = (): void => {
+  // Tokens stored by older versions of the app
   localStorage.removeItem('qb_access_token');
   localStorage.removeItem('qb_realm_id');
   localStorage.removeItem('qb_connection_id');
   localStorage.removeItem('qb_company_name');
+  localStorage.removeItem('qb_role');
 };
 
 export const isAuthenticated = (): boolean => {
@@ -53,4 +69,15 @@ export const getRealmId = (): string | null => {
 
 export const getConnectionId = (): string | null => {
   return localStorage.getItem('qb_connection_id');
-};
\ No newline at end of file
+};
+
+export const getRole = (): Role | null => {
+  const role = localStorage.getItem('qb_role');
+  return role && role in ROLE_RANK ? role as Role : null;
+};
+
+// The backend enforces roles; this only decides which actions the UI offers
+export const hasRole = (minimum: Role): boolean => {
+  const role = getRole();
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimum];
+};